@@ -1,12 +1,19 @@
 import * as vscode from 'vscode';
-import { JsonStringDetector, DetailedNewlinePosition } from './jsonStringDetector';
+import { JsonStringDetector, EscapePosition } from './jsonStringDetector';
+import { IndexChange } from './documentIndex';
+import { JsonTextRegion } from './jsonScanner';
+import { EscapeKind } from './jsonEscapes';
+import { DEFAULT_ESCAPE_RENDERING, EscapeRenderingOptions, renderEscape } from './escapeRendering';
 
 /**
  * Interface for decoration data
+ * Every rendered escape sequence gets one; line breaks are the ones rendering as a newline
  */
 export interface NewlineDecoration {
     range: vscode.Range;
+    kind: EscapeKind;
     renderText: string;
+    isLineBreak: boolean;
     isActive: boolean;
 }
 
@@ -19,20 +26,101 @@ export interface DecorationState {
     isEnabled: boolean;
 }
 
+/**
+ * Decorations shown in a single editor
+ * Split views of one document scroll independently, so each editor keeps its own window
+ */
+interface EditorDecorations {
+    decorations: NewlineDecoration[];
+    offsets: number[];
+    errorRanges: vscode.Range[];
+    decorated: { version: number; window: JsonTextRegion } | null;
+    indexingCancellation: vscode.CancellationTokenSource | null;
+}
+
+/**
+ * Documents larger than this (in characters) are decorated progressively while they are indexed
+ */
+const PROGRESSIVE_DECORATION_THRESHOLD = 1024 * 1024;
+
+/**
+ * Minimum time between redraws while a document is decorated progressively
+ */
+const PROGRESSIVE_RENDER_INTERVAL = 100;
+
+/**
+ * Number of lines decorated above and below the visible ranges, so short scrolls need no redraw
+ */
+const VIEWPORT_MARGIN_LINES = 100;
+
 /**
  * Manages VSCode decorations for rendering \n escape sequences as visual line breaks
+ * Other escape sequences are rendered as configured: tabs as markers, quotes and unicode escapes decoded
  */
 export class DecorationManager {
     private decorationType: vscode.TextEditorDecorationType;
     private lineBreakDecorationType: vscode.TextEditorDecorationType;
-    private currentDecorations: NewlineDecoration[] = [];
+    private errorRegionDecorationType: vscode.TextEditorDecorationType;
+    private editorStates: Map<vscode.TextEditor, EditorDecorations> = new Map();
+    private hiddenRanges: Map<string, vscode.Range[]> = new Map();
     private jsonDetector: JsonStringDetector;
     private isEnabled: boolean = true;
+    private disposables: vscode.Disposable[] = [];
 
-    constructor() {
+    /**
+     * @param isEnabledForDocument Decides whether a document is formatted when decorations are enabled
+     */
+    constructor(private isEnabledForDocument: (document: vscode.TextDocument) => boolean = () => true) {
         this.jsonDetector = new JsonStringDetector();
         this.decorationType = this.createDecorationType();
         this.lineBreakDecorationType = this.createLineBreakDecorationType();
+        this.errorRegionDecorationType = this.createErrorRegionDecorationType();
+        this.setupEventHandlers();
+    }
+
+    /**
+     * Set up event handlers for scrolling and for editors being shown or hidden
+     */
+    private setupEventHandlers(): void {
+        // Only the visible part of the document is decorated, so follow the viewport
+        const onDidChangeVisibleRanges = vscode.window.onDidChangeTextEditorVisibleRanges((event) => {
+            this.updateVisibleRanges(event.textEditor);
+        });
+
+        // Every visible JSON editor is decorated, including split views and side-by-side files
+        const onDidChangeVisibleEditors = vscode.window.onDidChangeVisibleTextEditors((editors) => {
+            this.updateVisibleEditors(editors);
+        });
+
+        // Redraw with the new rendering when the escape settings change
+        const onDidChangeConfiguration = vscode.workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration('json-newline-formatter.escapes') && this.isEnabled) {
+                this.refresh();
+            }
+        });
+
+        this.disposables.push(onDidChangeVisibleRanges, onDidChangeVisibleEditors, onDidChangeConfiguration);
+    }
+
+    /**
+     * Read how escape sequences are rendered in an editor
+     * @param editor The text editor
+     * @returns The rendering options, with the editor's tab size
+     */
+    private getRenderingOptions(editor: vscode.TextEditor): EscapeRenderingOptions {
+        const config = vscode.workspace.getConfiguration('json-newline-formatter.escapes', editor.document);
+        const tabSize = editor.options?.tabSize;
+
+        return {
+            newline: config.get('newline', DEFAULT_ESCAPE_RENDERING.newline),
+            carriageReturn: config.get('carriageReturn', DEFAULT_ESCAPE_RENDERING.carriageReturn),
+            collapseCrlf: config.get('collapseCrlf', DEFAULT_ESCAPE_RENDERING.collapseCrlf),
+            tab: config.get('tab', DEFAULT_ESCAPE_RENDERING.tab),
+            tabSize: typeof tabSize === 'number' ? tabSize : DEFAULT_ESCAPE_RENDERING.tabSize,
+            quote: config.get('quote', DEFAULT_ESCAPE_RENDERING.quote),
+            backslash: config.get('backslash', DEFAULT_ESCAPE_RENDERING.backslash),
+            unicode: config.get('unicode', DEFAULT_ESCAPE_RENDERING.unicode)
+        };
     }
 
     /**
@@ -66,8 +154,23 @@ export class DecorationManager {
         });
     }
 
+    /**
+     * Create the decoration type for marking regions where formatting is paused by a syntax error
+     */
+    private createErrorRegionDecorationType(): vscode.TextEditorDecorationType {
+        return vscode.window.createTextEditorDecorationType({
+            // Mark the whole damaged line so it is obvious why it is shown raw
+            isWholeLine: true,
+            backgroundColor: new vscode.ThemeColor('inputValidation.errorBackground'),
+            overviewRulerColor: new vscode.ThemeColor('editorError.foreground'),
+            overviewRulerLane: vscode.OverviewRulerLane.Right,
+            rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
+        });
+    }
+
     /**
      * Apply decorations to a document based on detected \n positions
+     * Every visible editor showing the document is decorated, each within its own visible ranges plus a margin
      * @param document The VSCode text document to decorate
      */
     public applyDecorations(document: vscode.TextDocument): void {
@@ -75,79 +178,54 @@ export class DecorationManager {
             return;
         }
 
-        const editor = vscode.window.activeTextEditor;
-        if (!editor || editor.document !== document) {
-            return;
+        const isDocumentEnabled = this.isEnabledForDocument(document);
+        for (const editor of this.getEditorsForDocument(document)) {
+            if (isDocumentEnabled) {
+                this.decorateEditor(editor);
+            } else {
+                // Formatting was turned off for this document
+                this.clearEditorDecorations(editor);
+            }
         }
+    }
+
+    /**
+     * Decorate a single editor from scratch
+     * @param editor The editor to decorate
+     */
+    private decorateEditor(editor: vscode.TextEditor): void {
+        const document = editor.document;
 
         // Clear existing decorations
-        this.clearDecorations();
+        this.clearEditorDecorations(editor);
+        const state = this.createEditorState();
+        this.editorStates.set(editor, state);
+
+        const progress = this.jsonDetector.getIndexingProgress(document);
+        if (progress.scannedLength < progress.totalLength && progress.totalLength > PROGRESSIVE_DECORATION_THRESHOLD) {
+            this.applyDecorationsProgressively(editor, state);
+            return;
+        }
 
         try {
-            // Check if JSON is valid before proceeding
-            const parseResult = this.jsonDetector.parseJsonSafely(document);
-            
-            if (!parseResult.isValid) {
-                // JSON is invalid, don't apply decorations
-                console.log('DecorationManager: Skipping decorations for invalid JSON');
-                return;
-            }
+            // Invalid JSON still yields the well-formed strings outside the error ranges
+            const parseResult = this.jsonDetector.isValidJson(document) ? undefined : this.jsonDetector.parseJsonSafely(document);
+            this.applyErrorRegionDecorations(editor, state, parseResult?.errorRanges ?? [], parseResult?.error);
 
-            // Find all newline positions in the document
-            const newlinePositions = this.jsonDetector.getDetailedNewlinePositions(document);
-            
-            // Create decorations for each newline position
-            const hideDecorationOptions: vscode.DecorationOptions[] = [];
-            const lineBreakDecorationOptions: vscode.DecorationOptions[] = [];
-            this.currentDecorations = [];
+            // Find the escape positions around the viewport
+            const window = this.getDecorationWindow(editor);
+            const options = this.getRenderingOptions(editor);
+            const escapePositions = this.jsonDetector.getEscapePositionsInRange(document, window.offset, window.offset + window.length, options.collapseCrlf);
 
-            for (const newlinePos of newlinePositions) {
-                const decoration = this.createDecorationForNewline(document, newlinePos);
-                if (decoration) {
-                    this.currentDecorations.push(decoration);
-                    
-                    // Create decoration to hide the \n sequence
-                    const hideOption: vscode.DecorationOptions = {
-                        range: decoration.range,
-                        hoverMessage: 'Formatted \\n escape sequence (hidden)'
-                    };
-                    hideDecorationOptions.push(hideOption);
-                    
-                    // Create decoration to add visual line break after the \n sequence
-                    const lineBreakRange = new vscode.Range(
-                        newlinePos.endPosition,
-                        newlinePos.endPosition
-                    );
-                    
-                    const lineBreakOption: vscode.DecorationOptions = {
-                        range: lineBreakRange,
-                        renderOptions: {
-                            after: {
-                                contentText: '\n',
-                                // Style the line break to be invisible but functional
-                                color: 'transparent',
-                                backgroundColor: 'transparent',
-                                // Ensure proper line break rendering
-                                fontStyle: 'normal',
-                                fontWeight: 'normal',
-                                textDecoration: 'none'
-                            }
-                        },
-                        hoverMessage: 'Visual line break for \\n sequence'
-                    };
-                    lineBreakDecorationOptions.push(lineBreakOption);
-                }
-            }
+            this.setDecorations(state, escapePositions, window, options);
+            this.renderDecorations(editor, state);
+            state.decorated = { version: document.version, window };
 
-            // Apply both decoration types
-            editor.setDecorations(this.decorationType, hideDecorationOptions);
-            editor.setDecorations(this.lineBreakDecorationType, lineBreakDecorationOptions);
-            
         } catch (error) {
             console.error('DecorationManager: Error applying decorations', error);
             // Clear decorations on error to prevent inconsistent state
-            this.clearDecorations();
-            
+            this.clearEditorDecorations(editor);
+
             // Notify user of decoration error
             vscode.window.showWarningMessage(
                 'JSON Newline Formatter: Unable to apply formatting due to an error. Check the JSON syntax.'
@@ -156,43 +234,341 @@ export class DecorationManager {
     }
 
     /**
-     * Create a decoration for a specific newline position
-     * @param document The VSCode text document
-     * @param newlinePos The detailed newline position
-     * @returns The created decoration or null if invalid
+     * Decorate a large document while it is being indexed
+     * The visible range is decorated immediately and the rest is filled in as indexing progresses;
+     * the regular decorations replace these once the whole document has been indexed
+     * @param editor The editor showing the document
+     * @param state The decoration state of the editor
+     */
+    private applyDecorationsProgressively(editor: vscode.TextEditor, state: EditorDecorations): void {
+        const document = editor.document;
+        const cancellation = new vscode.CancellationTokenSource();
+        state.indexingCancellation = cancellation;
+
+        const renderPartial = (): void => {
+            if (cancellation.token.isCancellationRequested || this.editorStates.get(editor) !== state) {
+                return;
+            }
+
+            const window = this.getDecorationWindow(editor);
+            const options = this.getRenderingOptions(editor);
+            const escapePositions = this.jsonDetector.getPartialEscapePositions(document, window.offset, window.offset + window.length, options.collapseCrlf);
+            this.setDecorations(state, escapePositions, window, options);
+            this.renderDecorations(editor, state);
+        };
+
+        renderPartial();
+
+        let lastRender = Date.now();
+        this.jsonDetector.indexProgressively(document, cancellation.token, () => {
+            if (Date.now() - lastRender >= PROGRESSIVE_RENDER_INTERVAL) {
+                renderPartial();
+                lastRender = Date.now();
+            }
+        }).then(complete => {
+            if (complete && !cancellation.token.isCancellationRequested && this.editorStates.get(editor) === state) {
+                this.decorateEditor(editor);
+            }
+        });
+    }
+
+    /**
+     * Replace the decorations of an editor with the escape positions inside a window
+     * @param state The decoration state of the editor showing the document
+     * @param escapePositions Escape positions in document order
+     * @param window The decorated part of the document
+     * @param options How escape sequences are rendered
+     */
+    private setDecorations(
+        state: EditorDecorations,
+        escapePositions: EscapePosition[],
+        window: JsonTextRegion,
+        options: EscapeRenderingOptions
+    ): void {
+        this.deactivate(state.decorations);
+        state.decorations = [];
+        state.offsets = [];
+
+        for (const escapePos of escapePositions) {
+            // Strings crossing the window edge also report the escapes outside it
+            if (escapePos.offset < window.offset || escapePos.offset >= window.offset + window.length) {
+                continue;
+            }
+
+            const decoration = this.createDecorationForEscape(escapePos, options);
+            if (decoration) {
+                state.decorations.push(decoration);
+                state.offsets.push(escapePos.offset);
+            }
+        }
+    }
+
+    /**
+     * Get the part of the document to decorate: the visible ranges plus a margin of whole lines
+     * @param editor The text editor
+     * @returns The window as an offset region
+     */
+    private getDecorationWindow(editor: vscode.TextEditor): JsonTextRegion {
+        const document = editor.document;
+        const visible = this.getVisibleLines(editor);
+        const startLine = Math.max(0, visible.start - VIEWPORT_MARGIN_LINES);
+        const endLine = visible.end + VIEWPORT_MARGIN_LINES + 1;
+        const start = document.offsetAt(new vscode.Position(startLine, 0));
+        const end = endLine < document.lineCount
+            ? document.offsetAt(new vscode.Position(endLine, 0))
+            : document.offsetAt(document.lineAt(document.lineCount - 1).range.end);
+
+        return { offset: start, length: end - start };
+    }
+
+    /**
+     * Get the lines spanned by the visible ranges of an editor
+     * @param editor The text editor
+     * @returns The first and last visible line, or the whole document if nothing is reported visible
+     */
+    private getVisibleLines(editor: vscode.TextEditor): { start: number; end: number } {
+        const ranges = editor.visibleRanges;
+        if (!ranges || ranges.length === 0) {
+            return { start: 0, end: editor.document.lineCount - 1 };
+        }
+        return { start: ranges[0].start.line, end: ranges[ranges.length - 1].end.line };
+    }
+
+    /**
+     * Check whether the visible ranges of an editor lie inside the decorated window
+     * @param editor The text editor
+     * @param window The decorated window
+     * @returns True if no visible newline can be missing a decoration
+     */
+    private coversVisibleRanges(editor: vscode.TextEditor, window: JsonTextRegion): boolean {
+        const document = editor.document;
+        const visible = this.getVisibleLines(editor);
+        const start = document.offsetAt(new vscode.Position(visible.start, 0));
+        const end = document.offsetAt(document.lineAt(Math.min(visible.end, document.lineCount - 1)).range.end);
+
+        return start >= window.offset && end <= window.offset + window.length;
+    }
+
+    /**
+     * Redraw the decorations of an editor when its viewport moves outside the decorated window
+     * @param editor The editor whose visible ranges changed
+     */
+    public updateVisibleRanges(editor: vscode.TextEditor): void {
+        if (!this.isEnabled || !this.isJsonDocument(editor.document) || !this.isEnabledForDocument(editor.document) ||
+            !this.getEditorsForDocument(editor.document).includes(editor)) {
+            return;
+        }
+
+        const state = this.editorStates.get(editor);
+        const decorated = state?.decorated;
+        if (decorated && decorated.version === editor.document.version && this.coversVisibleRanges(editor, decorated.window)) {
+            return;
+        }
+
+        // While a large document is being indexed, the progressive fill follows the new viewport on its next redraw
+        if (state && !decorated && state.indexingCancellation) {
+            return;
+        }
+
+        this.decorateEditor(editor);
+    }
+
+    /**
+     * Follow changes to the set of visible editors
+     * Hidden editors are forgotten and newly shown JSON editors are decorated
+     * @param editors The editors that are now visible
+     */
+    private updateVisibleEditors(editors: readonly vscode.TextEditor[]): void {
+        for (const [editor, state] of this.editorStates) {
+            if (!editors.includes(editor)) {
+                this.cancelIndexing(state);
+                this.deactivate(state.decorations);
+                this.editorStates.delete(editor);
+            }
+        }
+
+        if (!this.isEnabled) {
+            return;
+        }
+
+        for (const editor of editors) {
+            if (!this.editorStates.has(editor) && this.isJsonDocument(editor.document) && this.isEnabledForDocument(editor.document)) {
+                this.decorateEditor(editor);
+            }
+        }
+    }
+
+    /**
+     * Stop indexing started for progressive decoration of an editor
+     * @param state The decoration state of the editor
+     */
+    private cancelIndexing(state: EditorDecorations): void {
+        if (state.indexingCancellation) {
+            state.indexingCancellation.cancel();
+            state.indexingCancellation.dispose();
+            state.indexingCancellation = null;
+        }
+    }
+
+    /**
+     * Push the decorations of an editor to it
+     * @param editor The editor to decorate
+     * @param state The decoration state of the editor
+     */
+    private renderDecorations(editor: vscode.TextEditor, state: EditorDecorations): void {
+        const hideDecorationOptions: vscode.DecorationOptions[] = [];
+        const lineBreakDecorationOptions: vscode.DecorationOptions[] = [];
+        const hiddenRanges = this.hiddenRanges.get(editor.document.uri.toString()) ?? [];
+
+        for (const decoration of state.decorations) {
+            // Text hidden by a collapsed string shows nothing, not even rendered escapes
+            if (hiddenRanges.some(range => range.contains(decoration.range))) {
+                continue;
+            }
+
+            // Create decoration to hide the escape sequence
+            const hideOption: vscode.DecorationOptions = {
+                range: decoration.range,
+                hoverMessage: decoration.isLineBreak ? 'Formatted \\n escape sequence (hidden)' : 'Formatted escape sequence (hidden)'
+            };
+            hideDecorationOptions.push(hideOption);
+
+            // Create decoration to add the rendered text after the escape sequence
+            const lineBreakRange = new vscode.Range(
+                decoration.range.end,
+                decoration.range.end
+            );
+
+            const lineBreakOption: vscode.DecorationOptions = {
+                range: lineBreakRange,
+                renderOptions: {
+                    after: {
+                        contentText: decoration.renderText,
+                        // Style line breaks to be invisible but functional; tab markers look like whitespace
+                        color: decoration.isLineBreak
+                            ? 'transparent'
+                            : decoration.kind === 'tab' ? new vscode.ThemeColor('editorWhitespace.foreground') : undefined,
+                        backgroundColor: 'transparent',
+                        // Ensure proper line break rendering
+                        fontStyle: 'normal',
+                        fontWeight: 'normal',
+                        textDecoration: 'none'
+                    }
+                },
+                hoverMessage: decoration.isLineBreak ? 'Visual line break for \\n sequence' : 'Rendered escape sequence'
+            };
+            lineBreakDecorationOptions.push(lineBreakOption);
+        }
+
+        // Apply both decoration types
+        editor.setDecorations(this.decorationType, hideDecorationOptions);
+        editor.setDecorations(this.lineBreakDecorationType, lineBreakDecorationOptions);
+    }
+
+    /**
+     * Set the ranges of a document whose text is hidden, so the escapes inside them are not rendered
+     * @param document The document
+     * @param ranges The hidden ranges
+     */
+    public setHiddenRanges(document: vscode.TextDocument, ranges: vscode.Range[]): void {
+        const uri = document.uri.toString();
+        if (ranges.length === 0 && !this.hiddenRanges.has(uri)) {
+            return;
+        }
+
+        if (ranges.length > 0) {
+            this.hiddenRanges.set(uri, ranges);
+        } else {
+            this.hiddenRanges.delete(uri);
+        }
+
+        for (const editor of this.getEditorsForDocument(document)) {
+            const state = this.editorStates.get(editor);
+            if (state) {
+                this.renderDecorations(editor, state);
+            }
+        }
+    }
+
+    /**
+     * Mark the regions where formatting is paused because of syntax errors
+     * @param editor The editor to decorate
+     * @param state The decoration state of the editor
+     * @param errorRanges The ranges affected by syntax errors
+     * @param error The description of the first syntax error
      */
-    private createDecorationForNewline(document: vscode.TextDocument, newlinePos: DetailedNewlinePosition): NewlineDecoration | null {
+    private applyErrorRegionDecorations(editor: vscode.TextEditor, state: EditorDecorations, errorRanges: vscode.Range[], error?: string): void {
+        state.errorRanges = errorRanges;
+
+        const hoverMessage = new vscode.MarkdownString(
+            `**JSON Newline Formatter**: formatting is paused on this line${error ? ` — ${error}` : ''}`
+        );
+        editor.setDecorations(
+            this.errorRegionDecorationType,
+            errorRanges.map(range => ({ range, hoverMessage }))
+        );
+    }
+
+    /**
+     * Create a decoration for a specific escape position
+     * @param escapePos The escape position
+     * @param options How escape sequences are rendered
+     * @returns The created decoration, or null if the escape is shown raw or invalid
+     */
+    private createDecorationForEscape(escapePos: EscapePosition, options: EscapeRenderingOptions): NewlineDecoration | null {
+        const rendering = renderEscape(escapePos, options);
+        if (!rendering) {
+            return null;
+        }
+
         try {
-            // Create range that covers the \n escape sequence
-            const range = new vscode.Range(newlinePos.position, newlinePos.endPosition);
-            
+            // Create range that covers the escape sequence
+            const range = new vscode.Range(escapePos.position, escapePos.endPosition);
+
             return {
                 range,
-                renderText: '\n',
+                kind: escapePos.kind,
+                renderText: rendering.text,
+                isLineBreak: rendering.isLineBreak,
                 isActive: true
             };
         } catch (error) {
-            console.warn('DecorationManager: Failed to create decoration for newline position', error);
+            console.warn('DecorationManager: Failed to create decoration for escape position', error);
             return null;
         }
     }
 
     /**
-     * Clear all current decorations
+     * Clear all current decorations in every editor
      */
     public clearDecorations(): void {
+        for (const editor of [...this.editorStates.keys()]) {
+            this.clearEditorDecorations(editor);
+        }
+
+        // The active editor may show stale decorations from before it was tracked
         const editor = vscode.window.activeTextEditor;
         if (editor) {
-            editor.setDecorations(this.decorationType, []);
-            editor.setDecorations(this.lineBreakDecorationType, []);
+            this.clearEditorDecorations(editor);
         }
-        
-        // Mark all decorations as inactive
-        this.currentDecorations.forEach(decoration => {
-            decoration.isActive = false;
-        });
-        
-        this.currentDecorations = [];
+    }
+
+    /**
+     * Clear the decorations of a single editor and forget its state
+     * @param editor The editor to clear
+     */
+    private clearEditorDecorations(editor: vscode.TextEditor): void {
+        const state = this.editorStates.get(editor);
+        if (state) {
+            this.cancelIndexing(state);
+            // Mark all decorations as inactive
+            this.deactivate(state.decorations);
+            this.editorStates.delete(editor);
+        }
+
+        editor.setDecorations(this.decorationType, []);
+        editor.setDecorations(this.lineBreakDecorationType, []);
+        editor.setDecorations(this.errorRegionDecorationType, []);
     }
 
     /**
@@ -200,13 +576,224 @@ export class DecorationManager {
      * @param changes The text document change event
      */
     public updateDecorations(changes: vscode.TextDocumentChangeEvent): void {
-        if (!this.isEnabled) {
+        if (!this.isEnabled || !this.isEnabledForDocument(changes.document)) {
             return;
         }
 
-        // For now, we'll do a full refresh on any change
-        // This can be optimized later to only update affected decorations
-        this.applyDecorations(changes.document);
+        for (const editor of this.getEditorsForDocument(changes.document)) {
+            try {
+                if (this.patchDecorations(editor)) {
+                    continue;
+                }
+            } catch (error) {
+                console.warn('DecorationManager: Incremental update failed, refreshing all decorations', error);
+            }
+
+            this.decorateEditor(editor);
+        }
+    }
+
+    /**
+     * Patch the decorations of an editor with the regions re-scanned since they were applied
+     * Decorations inside re-scanned regions are recomputed; the ones after them are shifted
+     * @param editor A visible editor showing the changed document
+     * @returns False if the decorations have to be rebuilt from scratch
+     */
+    private patchDecorations(editor: vscode.TextEditor): boolean {
+        const document = editor.document;
+        const state = this.editorStates.get(editor);
+        const decorated = state?.decorated;
+        if (!state || !decorated) {
+            return false;
+        }
+
+        const changes = this.jsonDetector.getChangesSince(document, decorated.version);
+        if (!changes) {
+            return false;
+        }
+
+        // A syntax error can exclude strings anywhere in the document, so broken documents are redrawn in full
+        if (!this.jsonDetector.isValidJson(document) || state.errorRanges.length > 0) {
+            return false;
+        }
+
+        // Follow the decorated window through the changes; redraw instead if the viewport left it
+        let windowStart = decorated.window.offset;
+        let windowEnd = decorated.window.offset + decorated.window.length;
+        for (const change of changes) {
+            windowStart = this.mapOffset(windowStart, change, false);
+            windowEnd = this.mapOffset(windowEnd, change, true);
+        }
+        const window: JsonTextRegion = { offset: windowStart, length: windowEnd - windowStart };
+        if (!this.coversVisibleRanges(editor, window)) {
+            return false;
+        }
+
+        const offsets = state.offsets;
+        const decorations = state.decorations;
+        let dirtyRegions: JsonTextRegion[] = [];
+        let firstChangedOffset = Number.MAX_SAFE_INTEGER;
+
+        for (const change of changes) {
+            const oldEnd = change.offset + change.oldLength;
+            const delta = change.newLength - change.oldLength;
+            const first = this.lowerBound(offsets, change.offset);
+            const last = this.lowerBound(offsets, oldEnd);
+
+            this.deactivate(decorations.splice(first, last - first));
+            offsets.splice(first, last - first);
+            for (let i = first; i < offsets.length; i++) {
+                offsets[i] += delta;
+            }
+
+            dirtyRegions = this.shiftRegions(dirtyRegions, change);
+            firstChangedOffset = Math.min(firstChangedOffset, change.offset);
+        }
+
+        // Move the surviving decorations after the changes to their new positions
+        if (changes.length === 1) {
+            // Lines after the change only moved vertically, except the one the change ends on
+            const change = changes[0];
+            const endLine = document.positionAt(change.offset + change.newLength).line;
+            for (let i = this.lowerBound(offsets, change.offset); i < offsets.length; i++) {
+                const range = decorations[i].range;
+                decorations[i].range = range.start.line + change.lineDelta === endLine
+                    ? this.getEscapeRange(document, offsets[i], range)
+                    : new vscode.Range(range.start.translate(change.lineDelta, 0), range.end.translate(change.lineDelta, 0));
+            }
+        } else {
+            for (let i = this.lowerBound(offsets, firstChangedOffset); i < offsets.length; i++) {
+                decorations[i].range = this.getEscapeRange(document, offsets[i], decorations[i].range);
+            }
+        }
+
+        // Re-create the decorations of the re-scanned regions inside the window from the current scan
+        const options = this.getRenderingOptions(editor);
+        for (const region of dirtyRegions) {
+            const start = Math.max(region.offset, windowStart);
+            const end = Math.min(region.offset + region.length, windowEnd);
+            if (start >= end) {
+                continue;
+            }
+
+            const first = this.lowerBound(offsets, start);
+            const last = this.lowerBound(offsets, end);
+            const fresh: NewlineDecoration[] = [];
+            const freshOffsets: number[] = [];
+
+            for (const escapePos of this.jsonDetector.getEscapePositionsInRange(document, start, end, options.collapseCrlf)) {
+                if (escapePos.offset < start || escapePos.offset >= end) {
+                    continue;
+                }
+
+                const decoration = this.createDecorationForEscape(escapePos, options);
+                if (decoration) {
+                    fresh.push(decoration);
+                    freshOffsets.push(escapePos.offset);
+                }
+            }
+
+            this.deactivate(decorations.splice(first, last - first, ...fresh));
+            offsets.splice(first, last - first, ...freshOffsets);
+        }
+
+        this.renderDecorations(editor, state);
+        decorated.version = document.version;
+        decorated.window = window;
+        return true;
+    }
+
+    /**
+     * Get the range of an escape sequence that moved
+     * @param document The VSCode text document
+     * @param offset The new offset of the escape
+     * @param previousRange The range of the escape before it moved
+     * @returns The range at the new offset
+     */
+    private getEscapeRange(document: vscode.TextDocument, offset: number, previousRange: vscode.Range): vscode.Range {
+        // Escapes never span lines, so their length is the width of their previous range
+        const length = previousRange.end.character - previousRange.start.character;
+        return new vscode.Range(document.positionAt(offset), document.positionAt(offset + length));
+    }
+
+    /**
+     * Map an offset through a change
+     * @param offset The offset before the change
+     * @param change The change to apply
+     * @param isEnd Whether the offset ends a region, so offsets inside the change map to its end
+     * @returns The offset after the change
+     */
+    private mapOffset(offset: number, change: IndexChange, isEnd: boolean): number {
+        if (offset <= change.offset) {
+            return offset;
+        }
+        if (offset >= change.offset + change.oldLength) {
+            return offset + change.newLength - change.oldLength;
+        }
+        return isEnd ? change.offset + change.newLength : change.offset;
+    }
+
+    /**
+     * Map re-scanned regions through a later change and add the change's own region
+     * @param regions Sorted, non-overlapping regions in the text before the change
+     * @param change The change to apply
+     * @returns Sorted, non-overlapping regions in the text after the change
+     */
+    private shiftRegions(regions: JsonTextRegion[], change: IndexChange): JsonTextRegion[] {
+        const oldEnd = change.offset + change.oldLength;
+        const delta = change.newLength - change.oldLength;
+        const merged: JsonTextRegion = { offset: change.offset, length: change.newLength };
+        const result: JsonTextRegion[] = [];
+
+        for (const region of regions) {
+            const regionEnd = region.offset + region.length;
+            if (regionEnd < change.offset) {
+                result.push(region);
+            } else if (region.offset > oldEnd) {
+                result.push({ offset: region.offset + delta, length: region.length });
+            } else {
+                // Overlapping or touching regions are absorbed into the change's region
+                const start = Math.min(merged.offset, region.offset);
+                const end = Math.max(merged.offset + merged.length, regionEnd + delta);
+                merged.offset = start;
+                merged.length = end - start;
+            }
+        }
+
+        result.push(merged);
+        return result.sort((a, b) => a.offset - b.offset);
+    }
+
+    /**
+     * Get the index of the first offset not less than a value
+     * @param offsets Sorted offsets
+     * @param value The value to look up
+     * @returns The insertion index of the value
+     */
+    private lowerBound(offsets: number[], value: number): number {
+        let low = 0;
+        let high = offsets.length;
+
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            if (offsets[mid] < value) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+
+        return low;
+    }
+
+    /**
+     * Mark decorations that were removed from the current set as inactive
+     * @param decorations The removed decorations
+     */
+    private deactivate(decorations: NewlineDecoration[]): void {
+        decorations.forEach(decoration => {
+            decoration.isActive = false;
+        });
     }
 
     /**
@@ -219,11 +806,8 @@ export class DecorationManager {
         if (!enabled) {
             this.clearDecorations();
         } else {
-            // Re-apply decorations if we have an active editor
-            const editor = vscode.window.activeTextEditor;
-            if (editor && this.isJsonDocument(editor.document)) {
-                this.applyDecorations(editor.document);
-            }
+            // Re-apply decorations to every visible JSON editor
+            this.refresh();
         }
     }
 
@@ -236,23 +820,34 @@ export class DecorationManager {
     }
 
     /**
-     * Get the current decoration state
+     * Check if a document is currently formatted
+     * @param document The document to check
+     * @returns True if decorations are enabled and the document has not been toggled off
+     */
+    public isEnabledForJsonDocument(document: vscode.TextDocument): boolean {
+        return this.isEnabled && this.isJsonDocument(document) && this.isEnabledForDocument(document);
+    }
+
+    /**
+     * Get the current decoration state of a document
+     * @param document The document to query, defaults to the one in the active editor
      * @returns The current decoration state
      */
-    public getDecorationState(): DecorationState {
+    public getDecorationState(document?: vscode.TextDocument): DecorationState {
         return {
-            decorations: [...this.currentDecorations],
+            decorations: this.getDocumentDecorations(document),
             decorationType: this.decorationType,
             isEnabled: this.isEnabled
         };
     }
 
     /**
-     * Get the number of active decorations
+     * Get the number of active decorations in a document
+     * @param document The document to query, defaults to the one in the active editor
      * @returns The count of active decorations
      */
-    public getActiveDecorationCount(): number {
-        return this.currentDecorations.filter(d => d.isActive).length;
+    public getActiveDecorationCount(document?: vscode.TextDocument): number {
+        return this.getDocumentDecorations(document).filter(d => d.isActive).length;
     }
 
     /**
@@ -269,17 +864,21 @@ export class DecorationManager {
      */
     public dispose(): void {
         this.clearDecorations();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
         this.decorationType.dispose();
         this.lineBreakDecorationType.dispose();
+        this.errorRegionDecorationType.dispose();
     }
 
     /**
      * Check if a position is within a decorated range
      * @param position The position to check
+     * @param document The document the position is in, defaults to the one in the active editor
      * @returns The decoration at the position, or null if none
      */
-    public getDecorationAtPosition(position: vscode.Position): NewlineDecoration | null {
-        for (const decoration of this.currentDecorations) {
+    public getDecorationAtPosition(position: vscode.Position, document?: vscode.TextDocument): NewlineDecoration | null {
+        for (const decoration of this.getDocumentDecorations(document)) {
             if (decoration.isActive && decoration.range.contains(position)) {
                 return decoration;
             }
@@ -290,21 +889,113 @@ export class DecorationManager {
     /**
      * Get all decorations within a given range
      * @param range The range to search within
+     * @param document The document the range is in, defaults to the one in the active editor
      * @returns Array of decorations within the range
      */
-    public getDecorationsInRange(range: vscode.Range): NewlineDecoration[] {
-        return this.currentDecorations.filter(decoration => 
+    public getDecorationsInRange(range: vscode.Range, document?: vscode.TextDocument): NewlineDecoration[] {
+        return this.getDocumentDecorations(document).filter(decoration =>
             decoration.isActive && range.intersection(decoration.range) !== undefined
         );
     }
 
     /**
-     * Force a refresh of decorations for the active editor
+     * Get the ranges currently marked as syntax error regions
+     * @param document The document to query, defaults to the one in the active editor
+     * @returns Array of error ranges
+     */
+    public getErrorRanges(document?: vscode.TextDocument): vscode.Range[] {
+        const state = this.getDocumentStates(document)[0];
+        return state ? [...state.errorRanges] : [];
+    }
+
+    /**
+     * Force a refresh of decorations for every visible JSON editor
+     * Editors of documents whose formatting was turned off are cleared
      */
     public refresh(): void {
-        const editor = vscode.window.activeTextEditor;
-        if (editor && this.isJsonDocument(editor.document)) {
-            this.applyDecorations(editor.document);
+        const documents = new Set(vscode.window.visibleTextEditors.map(editor => editor.document));
+        const activeEditor = vscode.window.activeTextEditor;
+        if (activeEditor) {
+            documents.add(activeEditor.document);
+        }
+
+        for (const document of documents) {
+            if (this.isJsonDocument(document)) {
+                this.applyDecorations(document);
+            }
+        }
+    }
+
+    /**
+     * Get the decorations of a document, merged across every editor showing it
+     * Editors scrolled to different places decorate different windows, so overlapping windows are deduplicated
+     * @param document The document to query, defaults to the one in the active editor
+     * @returns The decorations in document order
+     */
+    private getDocumentDecorations(document?: vscode.TextDocument): NewlineDecoration[] {
+        const states = this.getDocumentStates(document);
+        if (states.length === 1) {
+            return [...states[0].decorations];
+        }
+
+        const byOffset = new Map<number, NewlineDecoration>();
+        for (const state of states) {
+            state.offsets.forEach((offset, i) => {
+                if (!byOffset.has(offset)) {
+                    byOffset.set(offset, state.decorations[i]);
+                }
+            });
+        }
+
+        return [...byOffset.entries()].sort((a, b) => a[0] - b[0]).map(entry => entry[1]);
+    }
+
+    /**
+     * Get the decoration states of the editors showing a document
+     * @param document The document to query, defaults to the one in the active editor
+     * @returns The states of the document's editors
+     */
+    private getDocumentStates(document?: vscode.TextDocument): EditorDecorations[] {
+        const target = document ?? vscode.window.activeTextEditor?.document;
+        if (!target) {
+            return [];
+        }
+
+        const uri = target.uri.toString();
+        const states: EditorDecorations[] = [];
+        for (const [editor, state] of this.editorStates) {
+            if (editor.document.uri.toString() === uri) {
+                states.push(state);
+            }
+        }
+        return states;
+    }
+
+    /**
+     * Get the visible editors showing a document
+     * @param document The VSCode text document
+     * @returns The editors, including the active one even if it is not reported visible yet
+     */
+    private getEditorsForDocument(document: vscode.TextDocument): vscode.TextEditor[] {
+        const editors = vscode.window.visibleTextEditors.filter(editor => editor.document === document);
+        const activeEditor = vscode.window.activeTextEditor;
+        if (activeEditor && activeEditor.document === document && !editors.includes(activeEditor)) {
+            editors.push(activeEditor);
         }
+        return editors;
     }
-}
\ No newline at end of file
+
+    /**
+     * Create the empty decoration state of an editor
+     * @returns The new state
+     */
+    private createEditorState(): EditorDecorations {
+        return {
+            decorations: [],
+            offsets: [],
+            errorRanges: [],
+            decorated: null,
+            indexingCancellation: null
+        };
+    }
+}
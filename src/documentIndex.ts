@@ -0,0 +1,443 @@
+import * as vscode from 'vscode';
+import { JsonScanner, JsonScanError, JsonScanResult, JsonToken, ValidatorCheckpoint, JSONC_OPTIONS, STRICT_JSON_OPTIONS, VALIDATOR_CHECKPOINT_INTERVAL } from './jsonScanner';
+
+/**
+ * A region of the document that was re-scanned after a change
+ * Offsets before `offset` are unchanged; offsets at or after `offset + oldLength`
+ * moved by `newLength - oldLength` characters and `lineDelta` lines
+ */
+export interface IndexChange {
+    version: number;
+    offset: number;
+    oldLength: number;
+    newLength: number;
+    lineDelta: number;
+}
+
+/**
+ * Number of change records kept so consumers can catch up incrementally
+ */
+const MAX_CHANGE_HISTORY = 64;
+
+/**
+ * Token index of a single document that is patched in place as the document changes
+ * The text is tokenized in chunks on demand, so large documents can be indexed progressively.
+ * Only the region touched by each change is re-scanned; tokens after it are shifted.
+ * While the text is valid, changes are also re-validated from the nearest validator checkpoint.
+ * Token objects are mutated by later changes, so results are only valid for the version they were read at
+ */
+export class DocumentIndex {
+    private scanner: JsonScanner;
+    private tokens: JsonToken[] = [];
+    private lexicalErrors: JsonScanError[] = [];
+    private scannedLength = 0;
+    private scanResult: JsonScanResult | null = null;
+    /** Validator states of the last validation, kept only while the text is valid */
+    private checkpoints: ValidatorCheckpoint[] | null = null;
+    private changes: IndexChange[] = [];
+    private historyStartVersion: number;
+
+    constructor(
+        public text: string,
+        public version: number,
+        public readonly isJsonc: boolean
+    ) {
+        this.historyStartVersion = version;
+        this.scanner = new JsonScanner(isJsonc ? JSONC_OPTIONS : STRICT_JSON_OPTIONS);
+    }
+
+    /**
+     * Whether the whole text has been tokenized
+     */
+    public get isComplete(): boolean {
+        return this.scannedLength >= this.text.length;
+    }
+
+    /**
+     * Length of the prefix of the text that has been tokenized
+     */
+    public get scannedEnd(): number {
+        return this.scannedLength;
+    }
+
+    /**
+     * Tokenize the next chunk of the text
+     * Scanning stops at the first token boundary after the chunk, so tokens are never split
+     * @param chunkSize Approximate number of characters to scan
+     * @returns True once the whole text has been tokenized
+     */
+    public scanChunk(chunkSize: number): boolean {
+        if (this.isComplete) {
+            return true;
+        }
+
+        const limit = this.scannedLength + chunkSize;
+        const scanned = this.scanner.tokenizeFrom(this.text, this.scannedLength, this.lexicalErrors, offset => offset >= limit);
+        for (const token of scanned.tokens) {
+            this.tokens.push(token);
+        }
+        this.scannedLength = scanned.end;
+
+        return this.isComplete;
+    }
+
+    /**
+     * Get the tokens of the scanned prefix of the text
+     * Unlike getScanResult, this never forces the rest of the text to be scanned
+     * @returns The tokens scanned so far, in document order
+     */
+    public getScannedTokens(): readonly JsonToken[] {
+        return this.tokens;
+    }
+
+    /**
+     * Get the scan result for the current version, validating the structure on first use
+     * Any part of the text that has not been tokenized yet is scanned first
+     * @returns Tokens, errors and error regions of the current text
+     */
+    public getScanResult(): JsonScanResult {
+        this.scanChunk(Number.MAX_SAFE_INTEGER);
+        if (!this.scanResult) {
+            const checkpoints: ValidatorCheckpoint[] = [];
+            this.scanResult = this.scanner.validate(this.text, this.tokens, this.lexicalErrors, checkpoints);
+            this.checkpoints = this.scanResult.errors.length === 0 ? checkpoints : null;
+        }
+        return this.scanResult;
+    }
+
+    /**
+     * Apply one content change and re-scan only the affected region
+     * @param rangeOffset Offset of the replaced range in the current text
+     * @param rangeLength Length of the replaced range
+     * @param insertedText The text inserted in place of the range
+     * @param newText The full text after the change
+     * @param version The document version after the change
+     * @returns The re-scanned region
+     */
+    public applyChange(rangeOffset: number, rangeLength: number, insertedText: string, newText: string, version: number): IndexChange {
+        const oldText = this.text;
+        const delta = insertedText.length - rangeLength;
+        const oldChangeEnd = rangeOffset + rangeLength;
+        const newChangeEnd = rangeOffset + insertedText.length;
+
+        // The first token touching the change (a token ending exactly at the change may grow)
+        const first = this.lowerBound(token => token.offset + token.length >= rangeOffset);
+        const relexStart = first < this.tokens.length ? Math.min(this.tokens[first].offset, rangeOffset) : rangeOffset;
+
+        if (!this.isComplete) {
+            return this.truncate(Math.min(relexStart, this.scannedLength), first, rangeOffset, rangeLength, insertedText, newText, version);
+        }
+
+        // Re-scan until a new token starts exactly where a shifted old token started
+        let candidate = Math.max(first, this.lowerBound(token => token.offset >= oldChangeEnd));
+        const isSyncPoint = (offset: number): boolean => {
+            if (offset < newChangeEnd) {
+                return false;
+            }
+            while (candidate < this.tokens.length && this.tokens[candidate].offset + delta < offset) {
+                candidate++;
+            }
+            return candidate < this.tokens.length && this.tokens[candidate].offset + delta === offset;
+        };
+
+        const newErrors: JsonScanError[] = [];
+        const relexed = this.scanner.tokenizeFrom(newText, relexStart, newErrors, isSyncPoint);
+        const syncIndex = relexed.end < newText.length ? candidate : this.tokens.length;
+        const oldRelexEnd = syncIndex < this.tokens.length ? this.tokens[syncIndex].offset : oldText.length;
+
+        // Shift everything after the re-scanned region and splice in the new tokens
+        for (let i = syncIndex; i < this.tokens.length; i++) {
+            this.tokens[i].offset += delta;
+        }
+        this.tokens.splice(first, syncIndex - first, ...relexed.tokens);
+
+        const keptErrors: JsonScanError[] = [];
+        for (const error of this.lexicalErrors) {
+            if (error.offset < relexStart) {
+                keptErrors.push(error);
+            } else if (error.offset >= oldRelexEnd) {
+                this.scanner.relocateError(error, error.offset + delta);
+                newErrors.push(error);
+            }
+        }
+        this.lexicalErrors = keptErrors.concat(newErrors.sort((a, b) => a.offset - b.offset));
+
+        this.scannedLength = newText.length;
+
+        const change = this.recordChange({
+            version,
+            offset: relexStart,
+            oldLength: oldRelexEnd - relexStart,
+            newLength: relexed.end - relexStart,
+            lineDelta: this.countLineBreaks(insertedText) - this.countLineBreaks(oldText.substring(rangeOffset, oldChangeEnd))
+        }, newText);
+        this.revalidate(first, syncIndex - first, relexed.tokens.length);
+
+        return change;
+    }
+
+    /**
+     * Re-validate a valid text after some of its tokens were replaced
+     * Validation resumes at the last checkpoint before the replaced tokens and stops as soon as the
+     * validator is back in the state it had at a later checkpoint, since the tokens from there on are
+     * unchanged. Anything else, including errors, is left to a full validation on the next request
+     * @param first Index of the first replaced token
+     * @param removedCount Number of tokens removed
+     * @param insertedCount Number of tokens inserted in their place
+     */
+    private revalidate(first: number, removedCount: number, insertedCount: number): void {
+        const checkpoints = this.checkpoints;
+        this.checkpoints = null;
+        if (!checkpoints || checkpoints.length === 0 || this.lexicalErrors.length > 0) {
+            return;
+        }
+
+        const tokenDelta = insertedCount - removedCount;
+        const oldEnd = first + removedCount;
+        let resume = 0;
+        while (resume + 1 < checkpoints.length && checkpoints[resume + 1].tokenIndex <= first) {
+            resume++;
+        }
+        const start = checkpoints[resume].tokenIndex;
+
+        // Checkpoints after the replaced tokens are where validation may catch up with the old run
+        let target = resume + 1;
+        while (target < checkpoints.length && (checkpoints[target].tokenIndex < oldEnd || checkpoints[target].tokenIndex + tokenDelta <= start)) {
+            target++;
+        }
+
+        const validator = this.scanner.createValidator(this.text, []);
+        validator.restoreState(checkpoints[resume].state);
+        const updated = checkpoints.slice(0, resume + 1);
+
+        for (let i = start; ; i++) {
+            if (i > start && target < checkpoints.length && checkpoints[target].tokenIndex + tokenDelta === i) {
+                if (validator.isInState(checkpoints[target].state)) {
+                    for (let j = target; j < checkpoints.length; j++) {
+                        checkpoints[j].tokenIndex += tokenDelta;
+                        updated.push(checkpoints[j]);
+                    }
+                    break;
+                }
+                updated.push({ tokenIndex: i, state: validator.saveState() });
+                target++;
+            } else if (i - updated[updated.length - 1].tokenIndex >= VALIDATOR_CHECKPOINT_INTERVAL) {
+                updated.push({ tokenIndex: i, state: validator.saveState() });
+            }
+
+            if (i === this.tokens.length) {
+                validator.finish();
+                break;
+            }
+            validator.feed(this.tokens[i]);
+            if (validator.hasFailed) {
+                return;
+            }
+        }
+
+        if (!validator.hasFailed) {
+            this.checkpoints = updated;
+            this.scanResult = { tokens: this.tokens, errors: [], errorRegions: [] };
+        }
+    }
+
+    /**
+     * Apply a change to a partially scanned index by dropping everything from the change onwards
+     * The dropped tail is scanned again by later chunks, so the whole tail is reported as changed
+     * @param scanStart Offset the scanned prefix is cut back to
+     * @param first Index of the first token to drop
+     * @param rangeOffset Offset of the replaced range in the current text
+     * @param rangeLength Length of the replaced range
+     * @param insertedText The text inserted in place of the range
+     * @param newText The full text after the change
+     * @param version The document version after the change
+     * @returns The changed region
+     */
+    private truncate(
+        scanStart: number,
+        first: number,
+        rangeOffset: number,
+        rangeLength: number,
+        insertedText: string,
+        newText: string,
+        version: number
+    ): IndexChange {
+        const oldText = this.text;
+
+        this.tokens.length = first;
+        this.lexicalErrors = this.lexicalErrors.filter(error => error.offset < scanStart);
+        this.scannedLength = scanStart;
+        this.checkpoints = null;
+
+        return this.recordChange({
+            version,
+            offset: scanStart,
+            oldLength: oldText.length - scanStart,
+            newLength: newText.length - scanStart,
+            lineDelta: this.countLineBreaks(insertedText) - this.countLineBreaks(oldText.substring(rangeOffset, rangeOffset + rangeLength))
+        }, newText);
+    }
+
+    /**
+     * Switch to the new text and remember the change for consumers
+     * @param change The change that produced the new text
+     * @param newText The full text after the change
+     * @returns The recorded change
+     */
+    private recordChange(change: IndexChange, newText: string): IndexChange {
+        this.text = newText;
+        this.version = change.version;
+        this.scanResult = null;
+        this.changes.push(change);
+        if (this.changes.length > MAX_CHANGE_HISTORY) {
+            this.historyStartVersion = this.changes.shift()!.version;
+        }
+
+        return change;
+    }
+
+    /**
+     * Get the changes applied since a version, so consumers can patch their own state
+     * @param version The version the consumer last saw
+     * @returns The changes in order, or null if history no longer covers that version
+     */
+    public getChangesSince(version: number): IndexChange[] | null {
+        if (version === this.version) {
+            return [];
+        }
+        if (version < this.historyStartVersion || version > this.version) {
+            return null;
+        }
+
+        return this.changes.filter(change => change.version > version);
+    }
+
+    /**
+     * Get the index of the first token satisfying a monotonic predicate
+     * @param predicate False for a prefix of the tokens and true for the rest
+     * @returns The index of the first matching token, or the token count
+     */
+    private lowerBound(predicate: (token: JsonToken) => boolean): number {
+        let low = 0;
+        let high = this.tokens.length;
+
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            if (predicate(this.tokens[mid])) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+
+        return low;
+    }
+
+    private countLineBreaks(text: string): number {
+        let count = 0;
+        for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+            count++;
+        }
+        return count;
+    }
+}
+
+/**
+ * Keeps one DocumentIndex per open document, shared by every component
+ */
+export class DocumentIndexStore {
+    private indexes: Map<string, DocumentIndex> = new Map();
+
+    /**
+     * Get the index for a document, rebuilding it if it is missing or out of date
+     * @param document The VSCode text document
+     * @returns The index matching the document's current version
+     */
+    public get(document: vscode.TextDocument): DocumentIndex {
+        const uri = document.uri.toString();
+        const isJsonc = document.languageId === 'jsonc';
+        let index = this.indexes.get(uri);
+
+        if (!index || index.version !== document.version || index.isJsonc !== isJsonc) {
+            index = this.rebuild(document);
+        }
+
+        return index;
+    }
+
+    /**
+     * Get the index for a document if it is already tracked at the current version
+     * @param document The VSCode text document
+     * @returns The index, or undefined if it would need to be rebuilt
+     */
+    public peek(document: vscode.TextDocument): DocumentIndex | undefined {
+        const index = this.indexes.get(document.uri.toString());
+        return index && index.version === document.version ? index : undefined;
+    }
+
+    /**
+     * Patch a document's index with the changes from a change event
+     * Falls back to a full rebuild when the index is not at the preceding version
+     * @param event The text document change event
+     */
+    public applyChanges(event: vscode.TextDocumentChangeEvent): void {
+        const document = event.document;
+        const index = this.indexes.get(document.uri.toString());
+
+        if (!index || index.version === document.version) {
+            return;
+        }
+
+        if (index.version !== document.version - 1 || event.contentChanges.length === 0 ||
+            index.isJsonc !== (document.languageId === 'jsonc')) {
+            this.rebuild(document);
+            return;
+        }
+
+        const finalText = document.getText();
+        let text = index.text;
+
+        // Changes in one event apply sequentially, each against the result of the previous one
+        for (let i = 0; i < event.contentChanges.length; i++) {
+            const change = event.contentChanges[i];
+            const isLast = i === event.contentChanges.length - 1;
+            const expectedLength = text.length - change.rangeLength + change.text.length;
+            const newText = isLast
+                ? finalText
+                : text.substring(0, change.rangeOffset) + change.text + text.substring(change.rangeOffset + change.rangeLength);
+
+            if (newText.length !== expectedLength || change.rangeOffset + change.rangeLength > text.length) {
+                // The event does not describe the text we indexed, start over
+                this.rebuild(document);
+                return;
+            }
+
+            index.applyChange(change.rangeOffset, change.rangeLength, change.text, newText, document.version);
+            text = newText;
+        }
+    }
+
+    /**
+     * Build a fresh index from the document's full text
+     * @param document The VSCode text document
+     * @returns The new index
+     */
+    private rebuild(document: vscode.TextDocument): DocumentIndex {
+        const index = new DocumentIndex(document.getText(), document.version, document.languageId === 'jsonc');
+        this.indexes.set(document.uri.toString(), index);
+        return index;
+    }
+
+    /**
+     * Forget a document's index
+     * @param document The document being closed
+     */
+    public delete(document: vscode.TextDocument): void {
+        this.indexes.delete(document.uri.toString());
+    }
+}
+
+/**
+ * Index store shared by all components
+ */
+export const documentIndexStore = new DocumentIndexStore();
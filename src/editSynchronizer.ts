@@ -1,9 +1,13 @@
 import * as vscode from 'vscode';
-import { JsonStringDetector, DetailedNewlinePosition, StringRange } from './jsonStringDetector';
+import { JsonStringDetector, StringRange } from './jsonStringDetector';
 import { DecorationManager } from './decorationManager';
+import { escapeJsonString, unescapeJsonString, usesUnicodeEscapes } from './jsonEscapes';
+import { RenderedStrings, toRenderedBreaks } from './renderedStrings';
 
 /**
  * Interface for mapping between visual and actual positions
+ * Each mapping marks a `\n` escape: its position in the file, the position of its line break in the visual
+ * text, and how many characters shorter the visual text is before it
  */
 export interface EditMapping {
     visualPosition: vscode.Position;
@@ -15,7 +19,6 @@ export interface EditMapping {
  * Interface for document state tracking
  */
 export interface DocumentState {
-    originalContent: string;
     visualContent: string;
     mappings: EditMapping[];
     version: number;
@@ -23,10 +26,13 @@ export interface DocumentState {
 
 /**
  * Interface for edit transformation results
+ * A transformation only describes the correction of a user edit; it is applied by the queued executor
  */
 export interface EditTransformation {
     actualEdit: vscode.TextEdit;
     newMappings: EditMapping[];
+    /** Version of the document the edit was computed against; it is dropped once the document moved on */
+    documentVersion: number;
     success: boolean;
     error?: string;
 }
@@ -41,6 +47,69 @@ export interface CursorTransformation {
     stringRange?: StringRange;
 }
 
+/**
+ * How the indentation of the current line is continued after Enter inside a string
+ */
+export type ContinuationIndent = 'none' | 'keep';
+
+/**
+ * What the copy command puts on the clipboard for text copied from inside a string
+ * `raw` copies the escaped text as written, `unescaped` the text it stands for, `literal` a complete JSON string
+ */
+export type CopyFormat = 'raw' | 'unescaped' | 'literal';
+
+/**
+ * How clipboard text is pasted into a string
+ * `escaped` escapes everything that needs it; `raw` only converts line breaks to `\n` escapes
+ */
+export type PasteMode = 'escaped' | 'raw';
+
+/**
+ * Result of checking clipboard text against the string it is pasted into
+ */
+export interface ClipboardValidation {
+    /** The text can be pasted as written, after converting its line breaks */
+    isValid: boolean;
+    needsTransformation: boolean;
+    /** The text escaped for the string */
+    transformedText: string;
+    /** What pasting the text as written would break */
+    errors: string[];
+}
+
+/**
+ * Replacements computed for the selections of an escape or unescape command
+ */
+export interface SelectionEscapeResult {
+    edits: vscode.TextEdit[];
+    /** Number of selections left unchanged because their text could not be converted */
+    skipped: number;
+}
+
+/**
+ * Context key set while every cursor of the active editor is inside the content of a formatted string
+ */
+const CURSOR_IN_STRING_CONTEXT = 'json-newline-formatter.cursorInString';
+
+/**
+ * Characters of the string kept on each side of the pasted text in a paste preview
+ */
+const PASTE_PREVIEW_CONTEXT = 20;
+
+/**
+ * Built-in cursor commands that are re-run by the cursor movement command bound inside strings
+ */
+const ATOMIC_CURSOR_COMMANDS = new Set([
+    'cursorLeft',
+    'cursorRight',
+    'cursorLeftSelect',
+    'cursorRightSelect',
+    'cursorWordLeft',
+    'cursorWordEndRight',
+    'cursorWordLeftSelect',
+    'cursorWordEndRightSelect'
+]);
+
 /**
  * Manages synchronization between visual edits and actual file content
  * Handles bidirectional transformation between visual line breaks and \n escape sequences
@@ -49,7 +118,13 @@ export class EditSynchronizer {
     private jsonDetector: JsonStringDetector;
     private decorationManager: DecorationManager;
     private documentStates: Map<string, DocumentState> = new Map();
-    private isProcessingEdit: boolean = false;
+    private staleMappings: Set<string> = new Set();
+    private positionMappings: Map<string, { version: number; mapping: RenderedStrings }> = new Map();
+    private transformationQueue: Promise<unknown> = Promise.resolve();
+    private pendingTransformations: number = 0;
+    /** Document versions produced by applied transformations, whose change events must not be transformed again */
+    private transformedVersions: Set<string> = new Set();
+    private isCursorInString: boolean = false;
     private disposables: vscode.Disposable[] = [];
 
     constructor(decorationManager: DecorationManager) {
@@ -88,12 +163,18 @@ export class EditSynchronizer {
             this.handleSelectionChange(event);
         });
 
+        // Enter is only taken over while the cursors are inside strings
+        const onDidChangeActiveTextEditor = vscode.window.onDidChangeActiveTextEditor((editor) => {
+            this.updateCursorContext(editor);
+        });
+
         this.disposables.push(
             onDidChangeTextDocument,
             onWillSaveDocument,
             onDidOpenTextDocument,
             onDidCloseTextDocument,
-            onDidChangeTextEditorSelection
+            onDidChangeTextEditorSelection,
+            onDidChangeActiveTextEditor
         );
     }
 
@@ -102,11 +183,6 @@ export class EditSynchronizer {
      * @param event The text document change event
      */
     public onDidChangeTextDocument(event: vscode.TextDocumentChangeEvent): void {
-        // Skip if we're already processing an edit to avoid recursion
-        if (this.isProcessingEdit) {
-            return;
-        }
-
         const document = event.document;
         
         // Only process JSON documents
@@ -114,22 +190,26 @@ export class EditSynchronizer {
             return;
         }
 
+        // Corrections made by the executor are indexed and decorated like any edit, but not transformed again
+        const isTransformedEdit = this.transformedVersions.delete(this.getVersionKey(document, document.version));
+
         try {
-            // Check if JSON is valid before processing changes
-            const parseResult = this.jsonDetector.parseJsonSafely(document);
-            
-            if (!parseResult.isValid) {
-                // JSON is invalid, skip edit synchronization to avoid further corruption
-                console.log('EditSynchronizer: Skipping edit synchronization for invalid JSON');
-                return;
-            }
+            // Patch the shared string index before anything reads it for this version
+            this.jsonDetector.applyContentChanges(event);
+
+            // Invalid JSON is still synchronized: the detector only reports strings outside
+            // the error ranges, so edits in damaged regions are left untouched
 
             // Initialize document state if not exists
             this.ensureDocumentState(document);
 
             // Process each content change
-            for (const change of event.contentChanges) {
-                this.processContentChange(document, change);
+            const transformations: EditTransformation[] = [];
+            for (const change of isTransformedEdit ? [] : event.contentChanges) {
+                const transformation = this.processContentChange(document, change, this.getChangeShift(event.contentChanges, change));
+                if (transformation?.success) {
+                    transformations.push(transformation);
+                }
             }
 
             // Update document state
@@ -137,6 +217,10 @@ export class EditSynchronizer {
 
             // Update decorations after processing changes
             this.decorationManager.updateDecorations(event);
+
+            if (transformations.length > 0) {
+                this.applyTransformations(document, transformations);
+            }
             
         } catch (error) {
             console.error('EditSynchronizer: Error processing document changes', error);
@@ -145,57 +229,70 @@ export class EditSynchronizer {
         }
     }
 
+    /**
+     * Get how far the other changes of an event moved a change in the changed document
+     * The ranges of a change event all refer to the document before the event
+     * @param changes The changes of the event
+     * @param change The change to locate
+     * @returns The number of characters added before the change
+     */
+    private getChangeShift(changes: readonly vscode.TextDocumentContentChangeEvent[], change: vscode.TextDocumentContentChangeEvent): number {
+        return changes
+            .filter(other => other !== change && other.rangeOffset < change.rangeOffset)
+            .reduce((shift, other) => shift + other.text.length - other.rangeLength, 0);
+    }
+
     /**
      * Process a single content change
      * @param document The document being changed
      * @param change The specific content change
+     * @param shift Number of characters the other changes of the event added before this one
+     * @returns The correction the change needs, or null if it needs none
      */
-    private processContentChange(document: vscode.TextDocument, change: vscode.TextDocumentContentChangeEvent): void {
+    private processContentChange(document: vscode.TextDocument, change: vscode.TextDocumentContentChangeEvent, shift: number = 0): EditTransformation | null {
         try {
             const changeRange = change.range;
             const newText = change.text;
 
             // Check if the change is within a decorated string area
-            const affectedDecorations = this.decorationManager.getDecorationsInRange(changeRange);
+            const affectedDecorations = this.decorationManager.getDecorationsInRange(changeRange, document);
             
             if (affectedDecorations.length > 0) {
                 // This change affects decorated content, handle synchronization
-                this.handleDecoratedAreaEdit(document, change);
-            } else {
-                // Check if the change introduces new newlines that need decoration
-                if (newText.includes('\\n')) {
-                    this.handleNewlineInsertion(document, change);
-                }
+                return this.handleDecoratedAreaEdit(document, change, shift);
+            }
+
+            // Check if the change introduces new newlines that need decoration
+            if (newText.includes('\\n')) {
+                this.handleNewlineInsertion(document, change);
             }
         } catch (error) {
             console.warn('EditSynchronizer: Error processing content change', error);
             // Continue processing other changes even if one fails
         }
+        return null;
     }
 
     /**
      * Handle edits within decorated string areas
      * @param document The document being edited
      * @param change The content change
+     * @param shift Number of characters the other changes of the event added before this one
+     * @returns The correction the edit needs, or null if it needs none
      */
-    private handleDecoratedAreaEdit(document: vscode.TextDocument, change: vscode.TextDocumentContentChangeEvent): void {
-        const changeRange = change.range;
+    private handleDecoratedAreaEdit(document: vscode.TextDocument, change: vscode.TextDocumentContentChangeEvent, shift: number = 0): EditTransformation | null {
         const newText = change.text;
 
-        // Find the string range containing this edit
-        const stringRange = this.jsonDetector.getStringRangeAtPosition(document, changeRange.start);
-        if (!stringRange) {
-            return;
-        }
-
         // Check if the new text contains actual line breaks (Enter key pressed)
+        // A physical line break ends the string for the scanner, so the string is not looked up here
         if (newText.includes('\n') && !newText.includes('\\n')) {
-            // User pressed Enter, convert to \n escape sequence
-            this.convertLineBreaksToEscapeSequences(document, change);
-        } else if (change.text === '' && this.isDeleteAcrossLineBreak(document, changeRange)) {
-            // User deleted across a visual line break, handle \n removal
-            this.handleLineBreakDeletion(document, changeRange);
+            // Line breaks typed or pasted around a rendered escape become \n escape sequences
+            return this.createLineBreakTransformation(document, change, shift);
         }
+
+        // Backspace and Delete remove whole escapes through deleteAtomicEscapes, and other deletions
+        // (cut, multi-character ranges) remove exactly the text the user selected
+        return null;
     }
 
     /**
@@ -213,177 +310,201 @@ export class EditSynchronizer {
     }
 
     /**
-     * Convert actual line breaks to \n escape sequences
-     * @param document The document being edited
+     * Compute the edit that turns the physical line breaks of a change into \n escape sequences
+     * Nothing is applied: the result describes the correction against the current document version
+     * @param document The document after the change
      * @param change The content change containing line breaks
+     * @param shift Number of characters the other changes of the event added before this one
+     * @returns The transformation, unsuccessful if there is nothing to convert or the inserted text is gone
      */
-    private convertLineBreaksToEscapeSequences(document: vscode.TextDocument, change: vscode.TextDocumentContentChangeEvent): void {
-        const newText = change.text;
-        const convertedText = this.transformVisualContentToActual(document, newText, change.range);
-
-        if (convertedText !== newText) {
-            // Apply the conversion
-            this.isProcessingEdit = true;
-            
-            const edit = new vscode.WorkspaceEdit();
-            edit.replace(document.uri, change.range, convertedText);
-            
-            vscode.workspace.applyEdit(edit).then(() => {
-                this.isProcessingEdit = false;
-                // Update cursor position after transformation
-                this.updateCursorAfterTransformation(document, change.range, convertedText);
+    public createLineBreakTransformation(document: vscode.TextDocument, change: vscode.TextDocumentContentChangeEvent, shift: number = 0): EditTransformation {
+        const start = document.positionAt(change.rangeOffset + shift);
+        const range = new vscode.Range(start, document.positionAt(change.rangeOffset + shift + change.text.length));
+        const newMappings: EditMapping[] = [];
+
+        let convertedText = '';
+        let lastIndex = 0;
+        for (const match of change.text.matchAll(/\r?\n/g)) {
+            const index = match.index ?? 0;
+            convertedText += change.text.substring(lastIndex, index);
+            newMappings.push({
+                visualPosition: document.positionAt(document.offsetAt(start) + index),
+                actualPosition: start.translate(0, convertedText.length),
+                offset: convertedText.length - index
             });
+            convertedText += '\\n';
+            lastIndex = index + match[0].length;
+        }
+        convertedText += change.text.substring(lastIndex);
+
+        const transformation: EditTransformation = {
+            actualEdit: vscode.TextEdit.replace(range, convertedText),
+            newMappings,
+            documentVersion: document.version,
+            success: true
+        };
+
+        if (newMappings.length === 0) {
+            return { ...transformation, success: false, error: 'The change contains no line breaks' };
+        }
+        if (document.getText(range) !== change.text) {
+            return { ...transformation, success: false, error: 'The changed text is no longer in the document' };
         }
+        return transformation;
     }
 
     /**
-     * Update cursor position after content transformation
-     * @param document The document
-     * @param range The range that was transformed
-     * @param newContent The new content
+     * Queue transformations computed against one document version for execution
+     * Transformations run one after another, so a correction never overlaps another one
+     * @param document The document to edit
+     * @param transformations The transformations to apply together
+     * @returns True if the transformations were applied, false if they were stale or the edit failed
      */
-    private updateCursorAfterTransformation(document: vscode.TextDocument, range: vscode.Range, newContent: string): void {
-        const editor = vscode.window.activeTextEditor;
-        if (!editor || editor.document !== document) {
-            return;
+    public applyTransformations(document: vscode.TextDocument, transformations: EditTransformation[]): Promise<boolean> {
+        this.pendingTransformations++;
+        const execution = this.transformationQueue
+            .then(() => this.executeTransformations(document, transformations))
+            .then(applied => {
+                this.pendingTransformations--;
+                return applied;
+            });
+
+        this.transformationQueue = execution;
+        return execution;
+    }
+
+    /**
+     * Apply transformations as a single edit, unless the document changed since they were computed
+     * In an editor the correction joins the undo step of the edit it corrects, so undo never restores the
+     * intermediate text with physical line breaks
+     * @param document The document to edit
+     * @param transformations The transformations to apply
+     * @returns True if the transformations were applied
+     */
+    private async executeTransformations(document: vscode.TextDocument, transformations: EditTransformation[]): Promise<boolean> {
+        const applicable = transformations.filter(transformation => transformation.success);
+        if (applicable.length === 0 || document.isClosed) {
+            return false;
         }
 
-        // Calculate the new cursor position based on the transformation
-        const newEndPosition = new vscode.Position(
-            range.start.line,
-            range.start.character + newContent.length
-        );
+        if (applicable.some(transformation => transformation.documentVersion !== document.version)) {
+            console.warn('EditSynchronizer: Dropped an edit transformation computed for an older document version');
+            return false;
+        }
 
-        // Transform to visual position if needed
-        const visualPosition = this.transformActualToVisual(document, newEndPosition);
-        
-        // Update the cursor position
-        editor.selection = new vscode.Selection(visualPosition, visualPosition);
+        const edits = applicable.map(transformation => transformation.actualEdit);
+        const replacedRanges = edits.map(edit => ({
+            start: document.offsetAt(edit.range.start),
+            end: document.offsetAt(edit.range.end),
+            length: edit.newText.length
+        }));
+        const versionKey = this.getVersionKey(document, document.version + 1);
+        this.transformedVersions.add(versionKey);
+
+        try {
+            const editor = vscode.window.visibleTextEditors.find(visibleEditor => visibleEditor.document === document);
+            let applied: boolean;
+            if (editor) {
+                const cursorOffsets = editor.selections.map(selection => document.offsetAt(selection.active));
+                applied = await editor.edit(builder => {
+                    edits.forEach(edit => builder.replace(edit.range, edit.newText));
+                }, { undoStopBefore: false, undoStopAfter: false });
+
+                if (applied) {
+                    this.updateCursorAfterTransformation(editor, replacedRanges, cursorOffsets);
+                }
+            } else {
+                const workspaceEdit = new vscode.WorkspaceEdit();
+                edits.forEach(edit => workspaceEdit.replace(document.uri, edit.range, edit.newText));
+                applied = await vscode.workspace.applyEdit(workspaceEdit);
+            }
+
+            if (!applied) {
+                this.transformedVersions.delete(versionKey);
+            }
+            return applied;
+        } catch (error) {
+            this.transformedVersions.delete(versionKey);
+            console.error('EditSynchronizer: Failed to apply edit transformation', error);
+            return false;
+        }
     }
 
     /**
-     * Check if a deletion spans across a visual line break
-     * @param document The document being edited
-     * @param range The range being deleted
-     * @returns True if deletion spans a line break
+     * Move the cursors of an editor to where they were relative to the text a transformation replaced
+     * Cursors inside or at the end of a replaced range end up after its replacement
+     * @param editor The editor that was edited
+     * @param replacedRanges Offsets of the replaced ranges before the edit, with the length of their replacements
+     * @param cursorOffsets Offsets of the cursors before the edit
      */
-    private isDeleteAcrossLineBreak(document: vscode.TextDocument, range: vscode.Range): boolean {
-        // Check if any decorations exist within or adjacent to the deletion range
-        const decorations = this.decorationManager.getDecorationsInRange(range);
-        
-        // Also check for decorations just before or after the range
-        const expandedRange = new vscode.Range(
-            new vscode.Position(Math.max(0, range.start.line - 1), 0),
-            new vscode.Position(range.end.line + 1, 0)
-        );
-        
-        const nearbyDecorations = this.decorationManager.getDecorationsInRange(expandedRange);
-        
-        return decorations.length > 0 || nearbyDecorations.length > 0;
+    private updateCursorAfterTransformation(
+        editor: vscode.TextEditor,
+        replacedRanges: { start: number; end: number; length: number }[],
+        cursorOffsets: number[]
+    ): void {
+        const document = editor.document;
+
+        editor.selections = editor.selections.map((selection, index) => {
+            const offset = cursorOffsets[index];
+            if (!selection.isEmpty || offset === undefined) {
+                return selection;
+            }
+
+            let newOffset = offset;
+            for (const replaced of replacedRanges) {
+                if (replaced.end <= offset) {
+                    newOffset += replaced.length - (replaced.end - replaced.start);
+                } else if (replaced.start < offset) {
+                    newOffset += replaced.start + replaced.length - offset;
+                }
+            }
+
+            const position = document.positionAt(newOffset);
+            return new vscode.Selection(position, position);
+        });
     }
 
     /**
-     * Handle deletion that spans across visual line breaks
-     * @param document The document being edited
-     * @param range The range being deleted
+     * Get the mapping between the file text and the visual text, in which every `\n` escape is a line break
+     * The mapping is shared by cursor placement, clipboard and search, and rebuilt once per document version
+     * @param document The document
+     * @returns The visual text and its mapping to the file text
      */
-    private handleLineBreakDeletion(document: vscode.TextDocument, range: vscode.Range): void {
-        // Find all \n sequences that might be affected by this deletion
-        const text = document.getText(range);
-        const newlinePositions = this.jsonDetector.getDetailedNewlinePositions(document);
-        
-        // Filter to positions within the deletion range
-        const affectedNewlines = newlinePositions.filter(pos => 
-            range.contains(pos.position) || range.contains(pos.endPosition)
-        );
-
-        if (affectedNewlines.length > 0) {
-            // The deletion affects \n sequences, they will be removed naturally
-            // No additional synchronization needed as the text is already being deleted
+    public getPositionMapping(document: vscode.TextDocument): RenderedStrings {
+        const uri = document.uri.toString();
+        const cached = this.positionMappings.get(uri);
+        if (cached && cached.version === document.version) {
+            return cached.mapping;
         }
+
+        const breaks = toRenderedBreaks(this.jsonDetector.getDetailedNewlinePositions(document));
+        const mapping = new RenderedStrings(document.getText(), breaks, { indentContinuationLines: false });
+        this.positionMappings.set(uri, { version: document.version, mapping });
+        return mapping;
     }
 
     /**
-     * Transform visual position to actual file position with enhanced accuracy
+     * Transform visual position to actual file position
      * @param document The document
      * @param visualPosition The visual position
      * @returns The corresponding actual position
      */
     public transformVisualToActual(document: vscode.TextDocument, visualPosition: vscode.Position): vscode.Position {
-        this.ensureDocumentState(document);
-        
-        const newlinePositions = this.jsonDetector.getDetailedNewlinePositions(document);
-        if (newlinePositions.length === 0) {
-            return visualPosition;
-        }
-
-        // Calculate the actual position by accounting for \n sequences
-        let actualLine = visualPosition.line;
-        let actualCharacter = visualPosition.character;
-        let cumulativeOffset = 0;
-
-        // Find all newlines that affect this position
-        for (const newlinePos of newlinePositions) {
-            const newlineVisualPos = this.calculateVisualPositionForNewline(document, newlinePos);
-            
-            // If this newline comes before our target position, it affects the transformation
-            if (newlineVisualPos.line < visualPosition.line || 
-                (newlineVisualPos.line === visualPosition.line && newlineVisualPos.character <= visualPosition.character)) {
-                
-                // Each \n sequence adds 2 characters to the actual position but creates a visual line break
-                if (newlineVisualPos.line < visualPosition.line) {
-                    // This newline is on a previous line, so it affects our line calculation
-                    actualLine = newlinePos.position.line;
-                    cumulativeOffset += 2; // \n is 2 characters
-                } else {
-                    // This newline is on the same line, adjust character position
-                    cumulativeOffset += 2;
-                }
-            }
-        }
-
-        // Apply the cumulative offset to get the actual position
-        const actualOffset = document.offsetAt(new vscode.Position(actualLine, actualCharacter)) + cumulativeOffset;
-        return document.positionAt(Math.max(0, actualOffset));
+        const mapping = this.getPositionMapping(document);
+        return document.positionAt(mapping.toSourceOffset(mapping.offsetAt(visualPosition)));
     }
 
     /**
-     * Transform actual file position to visual position with enhanced accuracy
+     * Transform actual file position to visual position
+     * Positions inside a `\n` escape map to the start of the line after its line break
      * @param document The document
      * @param actualPosition The actual position
      * @returns The corresponding visual position
      */
     public transformActualToVisual(document: vscode.TextDocument, actualPosition: vscode.Position): vscode.Position {
-        this.ensureDocumentState(document);
-        
-        const newlinePositions = this.jsonDetector.getDetailedNewlinePositions(document);
-        if (newlinePositions.length === 0) {
-            return actualPosition;
-        }
-
-        // Calculate the visual position by accounting for \n sequences that become line breaks
-        let visualLine = actualPosition.line;
-        let visualCharacter = actualPosition.character;
-        let newlinesBefore = 0;
-
-        const actualOffset = document.offsetAt(actualPosition);
-
-        // Count how many \n sequences come before this position
-        for (const newlinePos of newlinePositions) {
-            if (newlinePos.offset < actualOffset) {
-                newlinesBefore++;
-                
-                // Each \n sequence creates a visual line break
-                if (newlinePos.offset + 2 <= actualOffset) {
-                    // The position is after this newline, so it affects line calculation
-                    visualLine++;
-                    // Reset character position for new line
-                    visualCharacter = actualOffset - (newlinePos.offset + 2);
-                }
-            }
-        }
-
-        return new vscode.Position(visualLine, Math.max(0, visualCharacter));
+        const mapping = this.getPositionMapping(document);
+        const visualPosition = mapping.positionAt(mapping.toRenderedOffset(document.offsetAt(actualPosition)));
+        return new vscode.Position(visualPosition.line, visualPosition.character);
     }
 
     /**
@@ -391,15 +512,21 @@ export class EditSynchronizer {
      * @param document The document
      * @param visualContent The visual content with line breaks
      * @param range The range being transformed
+     * @param allEscapes Whether quotes, backslashes and control characters are escaped too, not only line breaks
      * @returns The actual content with \n escape sequences
      */
-    public transformVisualContentToActual(document: vscode.TextDocument, visualContent: string, range: vscode.Range): string {
+    public transformVisualContentToActual(document: vscode.TextDocument, visualContent: string, range: vscode.Range, allEscapes: boolean = false): string {
         // Check if this content is within a JSON string
         const stringRange = this.jsonDetector.getStringRangeAtPosition(document, range.start);
         if (!stringRange) {
             return visualContent; // Not in a string, no transformation needed
         }
 
+        if (allEscapes) {
+            // Keep writing non-ASCII characters the way the string already does
+            return escapeJsonString(visualContent, { escapeNonAscii: usesUnicodeEscapes(stringRange.content) });
+        }
+
         // Convert actual line breaks to \n escape sequences
         return visualContent.replace(/\n/g, '\\n');
     }
@@ -409,19 +536,132 @@ export class EditSynchronizer {
      * @param document The document
      * @param actualContent The actual content with \n escape sequences
      * @param range The range being transformed
+     * @param allEscapes Whether every escape sequence is decoded, not only \n
      * @returns The visual content with line breaks
+     * @throws SyntaxError if all escapes are decoded and the content contains an invalid or incomplete escape
      */
-    public transformActualContentToVisual(document: vscode.TextDocument, actualContent: string, range: vscode.Range): string {
+    public transformActualContentToVisual(document: vscode.TextDocument, actualContent: string, range: vscode.Range, allEscapes: boolean = false): string {
         // Check if this content is within a JSON string
         const stringRange = this.jsonDetector.getStringRangeAtPosition(document, range.start);
         if (!stringRange) {
             return actualContent; // Not in a string, no transformation needed
         }
 
+        if (allEscapes) {
+            return unescapeJsonString(actualContent);
+        }
+
         // Convert \n escape sequences to actual line breaks for visual display
         return actualContent.replace(/\\n/g, '\n');
     }
 
+    /**
+     * Compute the replacements that escape the text of every selection
+     * Selections inside a string are escaped in place; any other text becomes a complete string literal
+     * @param document The document
+     * @param selections The selections to escape, one per cursor
+     * @returns The replacements, with empty selections skipped
+     */
+    public escapeSelections(document: vscode.TextDocument, selections: readonly vscode.Selection[]): SelectionEscapeResult {
+        const edits: vscode.TextEdit[] = [];
+
+        for (const selection of selections) {
+            if (selection.isEmpty) {
+                continue;
+            }
+
+            const text = document.getText(selection);
+            const replacement = this.isInsideStringContent(document, selection)
+                ? this.transformVisualContentToActual(document, text, selection, true)
+                : `"${escapeJsonString(text)}"`;
+            edits.push(vscode.TextEdit.replace(selection, replacement));
+        }
+
+        return { edits, skipped: 0 };
+    }
+
+    /**
+     * Compute the replacements that decode the escapes in every selection
+     * An empty selection inside a string stands for the whole string, and the quotes of a selected
+     * string literal are removed along with its escapes
+     * @param document The document
+     * @param selections The selections to unescape, one per cursor
+     * @returns The replacements, and how many selections held invalid or incomplete escapes
+     */
+    public unescapeSelections(document: vscode.TextDocument, selections: readonly vscode.Selection[]): SelectionEscapeResult {
+        const edits: vscode.TextEdit[] = [];
+        const targets = new Set<string>();
+        let skipped = 0;
+
+        for (const selection of selections) {
+            let range: vscode.Range = selection;
+            if (selection.isEmpty) {
+                const stringRange = this.jsonDetector.getStringRangeAtPosition(document, selection.active);
+                if (!stringRange) {
+                    continue;
+                }
+                range = new vscode.Range(stringRange.start, stringRange.end);
+            }
+
+            // Several cursors in one string unescape it once
+            const key = `${document.offsetAt(range.start)}:${document.offsetAt(range.end)}`;
+            if (targets.has(key)) {
+                continue;
+            }
+            targets.add(key);
+
+            const text = document.getText(range);
+            try {
+                const replacement = this.isInsideStringContent(document, range)
+                    ? this.transformActualContentToVisual(document, text, range, true)
+                    : this.unescapeLiteralOrContent(text);
+                edits.push(vscode.TextEdit.replace(range, replacement));
+            } catch (error) {
+                skipped++;
+            }
+        }
+
+        return { edits, skipped };
+    }
+
+    /**
+     * Decode text that is either a complete string literal or the bare content of one
+     * @param text The selected text
+     * @returns The decoded text, without the quotes of a literal
+     * @throws SyntaxError if the text contains an invalid or incomplete escape
+     */
+    private unescapeLiteralOrContent(text: string): string {
+        if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+            try {
+                return JSON.parse(text);
+            } catch (error) {
+                // Quotes that do not delimit a single string belong to the content
+            }
+        }
+        return unescapeJsonString(text);
+    }
+
+    /**
+     * Check whether a range lies between the quotes of a single string
+     * @param document The document
+     * @param range The range to check
+     * @param stringRange The string at the start of the range, if already looked up
+     * @returns True if the range is part of one string's content
+     */
+    private isInsideStringContent(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        stringRange: StringRange | null = this.jsonDetector.getStringRangeAtPosition(document, range.start)
+    ): boolean {
+        if (!stringRange) {
+            return false;
+        }
+
+        const contentStart = document.offsetAt(stringRange.start) + 1;
+        const contentEnd = document.offsetAt(stringRange.end) - 1;
+        return document.offsetAt(range.start) >= contentStart && document.offsetAt(range.end) <= contentEnd;
+    }
+
     /**
      * Handle cursor positioning across transformed content
      * @param document The document
@@ -453,22 +693,6 @@ export class EditSynchronizer {
         }
     }
 
-    /**
-     * Calculate the visual position for a newline decoration
-     * @param document The document
-     * @param newlinePos The detailed newline position
-     * @returns The visual position where the line break appears
-     */
-    private calculateVisualPositionForNewline(document: vscode.TextDocument, newlinePos: DetailedNewlinePosition): vscode.Position {
-        // The visual position is where the line break appears, which is after the \n sequence
-        const visualInfo = this.jsonDetector.calculateVisualPosition(document, newlinePos);
-        
-        return new vscode.Position(
-            newlinePos.position.line + visualInfo.visualLine,
-            visualInfo.visualCharacter
-        );
-    }
-
     /**
      * Handle document save preparation
      * @param document The document being saved
@@ -517,20 +741,21 @@ export class EditSynchronizer {
 
     /**
      * Initialize document state for tracking
+     * The mappings need the whole document indexed, so they are computed on first use rather than
+     * on open, where they would block progressive indexing of large files
      * @param document The document to initialize
      */
     private initializeDocumentState(document: vscode.TextDocument): void {
         const content = document.getText();
-        const mappings = this.calculateInitialMappings(document);
 
         const state: DocumentState = {
-            originalContent: content,
-            visualContent: content, // Will be updated as decorations are applied
-            mappings,
+            visualContent: content,
+            mappings: [],
             version: document.version
         };
 
         this.documentStates.set(document.uri.toString(), state);
+        this.staleMappings.add(document.uri.toString());
     }
 
     /**
@@ -542,9 +767,9 @@ export class EditSynchronizer {
         const existingState = this.documentStates.get(uri);
 
         if (existingState) {
-            existingState.originalContent = document.getText();
+            // Mappings are recomputed on first use rather than on every keystroke
             existingState.version = document.version;
-            existingState.mappings = this.calculateInitialMappings(document);
+            this.staleMappings.add(uri);
         } else {
             this.initializeDocumentState(document);
         }
@@ -553,56 +778,20 @@ export class EditSynchronizer {
     /**
      * Calculate initial position mappings for a document
      * @param document The document to analyze
-     * @returns Array of edit mappings
+     * @returns Array of edit mappings, one per `\n` escape
      */
     private calculateInitialMappings(document: vscode.TextDocument): EditMapping[] {
-        const mappings: EditMapping[] = [];
-        const newlinePositions = this.jsonDetector.getDetailedNewlinePositions(document);
-
-        let cumulativeOffset = 0;
-
-        for (const newlinePos of newlinePositions) {
-            // Each \n sequence (2 characters) becomes a visual line break (0 characters in terms of text)
-            // So the offset increases by 2 for each newline
-            mappings.push({
-                visualPosition: new vscode.Position(
-                    newlinePos.position.line + cumulativeOffset,
-                    newlinePos.position.character
-                ),
-                actualPosition: newlinePos.position,
-                offset: cumulativeOffset
-            });
+        const mapping = this.getPositionMapping(document);
 
-            cumulativeOffset += 2; // \n is 2 characters
-        }
-
-        return mappings;
-    }
-
-    /**
-     * Calculate distance between two positions
-     * @param pos1 First position
-     * @param pos2 Second position
-     * @returns Distance metric
-     */
-    private calculatePositionDistance(pos1: vscode.Position, pos2: vscode.Position): number {
-        const lineDiff = Math.abs(pos1.line - pos2.line);
-        const charDiff = Math.abs(pos1.character - pos2.character);
-        return lineDiff * 1000 + charDiff; // Weight lines more heavily
-    }
-
-    /**
-     * Calculate character offset between two positions
-     * @param pos1 First position
-     * @param pos2 Second position
-     * @returns Character offset
-     */
-    private calculatePositionOffset(pos1: vscode.Position, pos2: vscode.Position): number {
-        // This is a simplified calculation - in a real implementation,
-        // you'd need to account for the actual document content
-        const lineDiff = pos1.line - pos2.line;
-        const charDiff = pos1.character - pos2.character;
-        return lineDiff * 100 + charDiff; // Simplified offset calculation
+        return this.jsonDetector.getDetailedNewlinePositions(document).map(newlinePos => {
+            const visualOffset = mapping.toRenderedOffset(newlinePos.offset);
+            const visualPosition = mapping.positionAt(visualOffset);
+            return {
+                visualPosition: new vscode.Position(visualPosition.line, visualPosition.character),
+                actualPosition: newlinePos.position,
+                offset: newlinePos.offset - visualOffset
+            };
+        });
     }
 
     /**
@@ -611,6 +800,19 @@ export class EditSynchronizer {
      */
     private cleanupDocumentState(document: vscode.TextDocument): void {
         this.documentStates.delete(document.uri.toString());
+        this.staleMappings.delete(document.uri.toString());
+        this.positionMappings.delete(document.uri.toString());
+        this.jsonDetector.forgetDocument(document);
+    }
+
+    /**
+     * Identify a version of a document
+     * @param document The document
+     * @param version The version
+     * @returns A key unique to the document and version
+     */
+    private getVersionKey(document: vscode.TextDocument, version: number): string {
+        return `${document.uri.toString()}@${version}`;
     }
 
     /**
@@ -629,7 +831,16 @@ export class EditSynchronizer {
      */
     public getDocumentState(document: vscode.TextDocument): DocumentState | null {
         this.ensureDocumentState(document);
-        return this.documentStates.get(document.uri.toString()) || null;
+        const uri = document.uri.toString();
+        const state = this.documentStates.get(uri);
+
+        if (state && this.staleMappings.has(uri)) {
+            state.mappings = this.calculateInitialMappings(document);
+            state.visualContent = this.getPositionMapping(document).text;
+            this.staleMappings.delete(uri);
+        }
+
+        return state || null;
     }
 
     /**
@@ -647,7 +858,7 @@ export class EditSynchronizer {
      * @returns True if synchronization is enabled
      */
     public isSynchronizationActive(): boolean {
-        return !this.isProcessingEdit;
+        return this.pendingTransformations === 0;
     }
 
     /**
@@ -656,6 +867,9 @@ export class EditSynchronizer {
      */
     private handleSelectionChange(event: vscode.TextEditorSelectionChangeEvent): void {
         const editor = event.textEditor;
+        if (editor === vscode.window.activeTextEditor) {
+            this.updateCursorContext(editor);
+        }
         
         if (!this.isJsonDocument(editor.document)) {
             return;
@@ -693,7 +907,7 @@ export class EditSynchronizer {
      * @returns True if selection is in decorated area
      */
     private isSelectionInDecoratedArea(document: vscode.TextDocument, selection: vscode.Selection): boolean {
-        const decorationsInRange = this.decorationManager.getDecorationsInRange(selection);
+        const decorationsInRange = this.decorationManager.getDecorationsInRange(selection, document);
         return decorationsInRange.length > 0;
     }
 
@@ -730,15 +944,37 @@ export class EditSynchronizer {
      * Handle copy operation for decorated content
      * @param document The document
      * @param selection The selection being copied
+     * @param format What to copy for a selection inside a string; without it, only the `\n` escapes of decorated content are converted
      * @returns The transformed text for clipboard
      */
-    public handleCopyOperation(document: vscode.TextDocument, selection: vscode.Selection): string {
+    public handleCopyOperation(document: vscode.TextDocument, selection: vscode.Selection, format?: CopyFormat): string {
         const selectedText = document.getText(selection);
+
+        if (format && this.isInsideStringContent(document, selection)) {
+            switch (format) {
+                case 'unescaped':
+                    try {
+                        return unescapeJsonString(selectedText);
+                    } catch (error) {
+                        // The selection cuts an escape sequence, so it is copied as written
+                        return selectedText;
+                    }
+                case 'literal':
+                    try {
+                        // Re-escaping the decoded text always gives a valid literal
+                        return JSON.stringify(unescapeJsonString(selectedText));
+                    } catch (error) {
+                        return selectedText;
+                    }
+                default:
+                    return selectedText;
+            }
+        }
         
         // Check if the selection contains decorated content
         const isInDecoratedArea = this.isSelectionInDecoratedArea(document, selection);
         
-        if (isInDecoratedArea) {
+        if (isInDecoratedArea && !format) {
             // Transform the content for clipboard
             // When copying decorated content, we want to copy the visual representation
             return this.transformActualContentToVisual(document, selectedText, selection);
@@ -752,16 +988,23 @@ export class EditSynchronizer {
      * @param document The document
      * @param position The position where content is being pasted
      * @param clipboardText The text from clipboard
+     * @param escapeAll Whether text pasted into any string is fully escaped, not only line breaks in decorated strings
      * @returns The transformed text for pasting
      */
     public handlePasteOperation(
         document: vscode.TextDocument, 
         position: vscode.Position, 
-        clipboardText: string
+        clipboardText: string,
+        escapeAll: boolean = false
     ): string {
         // Check if we're pasting into a decorated area
         const stringRange = this.jsonDetector.getStringRangeAtPosition(document, position);
         const isInDecoratedArea = stringRange !== null && stringRange.hasNewlines;
+
+        if (escapeAll && stringRange && this.isInsideStringContent(document, new vscode.Range(position, position))) {
+            // Quotes, backslashes, tabs and line breaks are escaped so the string stays valid
+            return this.transformVisualContentToActual(document, clipboardText, new vscode.Range(position, position), true);
+        }
         
         if (isInDecoratedArea) {
             // Transform clipboard content for decorated areas
@@ -772,59 +1015,440 @@ export class EditSynchronizer {
         return clipboardText;
     }
 
+    /**
+     * Copy every selection of an editor in the configured format
+     * @param editor The editor to copy from
+     * @param format What to copy for selections inside strings
+     * @returns The text for the clipboard, or undefined if nothing is selected
+     */
+    public copySelections(editor: vscode.TextEditor, format: CopyFormat): string | undefined {
+        const selections = editor.selections.filter(selection => !selection.isEmpty);
+        if (selections.length === 0) {
+            return undefined;
+        }
+
+        // Multiple selections are copied in document order, one per line, like the built-in copy
+        return [...selections]
+            .sort((a, b) => a.start.compareTo(b.start))
+            .map(selection => this.handleCopyOperation(editor.document, selection, format))
+            .join(editor.document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n');
+    }
+
+    /**
+     * Paste text at every selection of an editor, escaping it for the strings it is pasted into
+     * As with the built-in paste, a text with one line per cursor is spread over the cursors
+     * @param editor The editor to paste into
+     * @param clipboardText The text to paste
+     * @param mode Whether the text is fully escaped or only has its line breaks converted, for all selections or for each one
+     * @returns False if a selection is outside a string, so the built-in paste can run instead
+     */
+    public async pasteIntoStrings(editor: vscode.TextEditor, clipboardText: string, mode: PasteMode | readonly PasteMode[] = 'escaped'): Promise<boolean> {
+        const document = editor.document;
+        if (!this.isJsonDocument(document) ||
+            !editor.selections.every(selection => this.isInsideStringContent(document, selection))) {
+            return false;
+        }
+
+        const pieces = this.splitPasteText(editor.selections, clipboardText);
+
+        await this.replaceSelections(editor, editor.selections.map((selection, index) => ({
+            start: document.offsetAt(selection.start),
+            end: document.offsetAt(selection.end),
+            text: (typeof mode === 'string' ? mode : mode[index]) === 'escaped'
+                ? this.handlePasteOperation(document, selection.start, pieces[index], true)
+                : this.convertLineBreaks(pieces[index])
+        })));
+        return true;
+    }
+
+    /**
+     * Get the text each selection receives from a paste
+     * As with the built-in paste, a text with one line per cursor is spread over the cursors
+     * @param selections The selections pasted into
+     * @param clipboardText The text to paste
+     * @returns The text for each selection, in selection order
+     */
+    private splitPasteText(selections: readonly vscode.Selection[], clipboardText: string): string[] {
+        const lines = clipboardText.split(/\r?\n/);
+        const spread = selections.length > 1 && lines.length === selections.length;
+        return selections.map((_, index) => spread ? lines[index] : clipboardText);
+    }
+
+    /**
+     * Replace the selections of an editor in one undoable edit and place each cursor after its replacement
+     * @param editor The editor to edit
+     * @param replacements The offsets of each selection and the text replacing it, in selection order
+     * @returns True if the edit was applied
+     */
+    private async replaceSelections(editor: vscode.TextEditor, replacements: { start: number; end: number; text: string }[]): Promise<boolean> {
+        const document = editor.document;
+        const applied = await editor.edit(builder => {
+            for (const replacement of replacements) {
+                builder.replace(new vscode.Range(document.positionAt(replacement.start), document.positionAt(replacement.end)), replacement.text);
+            }
+        }, { undoStopBefore: true, undoStopAfter: true });
+        if (!applied) {
+            return false;
+        }
+
+        // Account for the replacements before each one
+        editor.selections = replacements.map(replacement => {
+            let offset = replacement.start + replacement.text.length;
+            for (const other of replacements) {
+                if (other.start < replacement.start) {
+                    offset += other.text.length - (other.end - other.start);
+                }
+            }
+            const position = document.positionAt(offset);
+            return new vscode.Selection(position, position);
+        });
+        return true;
+    }
+
     /**
      * Register clipboard commands for enhanced copy/paste behavior
+     * They can be bound to the usual copy and paste keys inside formatted strings
      * @param context The extension context
      */
     public registerClipboardCommands(context: vscode.ExtensionContext): void {
         // Register enhanced copy command
         const copyCommand = vscode.commands.registerCommand('json-newline-formatter.copy', async () => {
             const editor = vscode.window.activeTextEditor;
-            if (!editor || !this.isJsonDocument(editor.document)) {
-                // Fall back to default copy
-                await vscode.commands.executeCommand('editor.action.clipboardCopyAction');
-                return;
-            }
+            const format = vscode.workspace.getConfiguration('json-newline-formatter').get<CopyFormat>('clipboard.copyFormat', 'unescaped');
+            const text = editor && this.isJsonDocument(editor.document) ? this.copySelections(editor, format) : undefined;
 
-            const selection = editor.selection;
-            if (selection.isEmpty) {
-                // Fall back to default copy
+            if (text === undefined) {
+                // Fall back to default copy, which copies the current line
                 await vscode.commands.executeCommand('editor.action.clipboardCopyAction');
                 return;
             }
 
-            // Handle copy with transformation
-            const transformedText = this.handleCopyOperation(editor.document, selection);
-            await vscode.env.clipboard.writeText(transformedText);
+            await vscode.env.clipboard.writeText(text);
         });
 
         // Register enhanced paste command
         const pasteCommand = vscode.commands.registerCommand('json-newline-formatter.paste', async () => {
             const editor = vscode.window.activeTextEditor;
-            if (!editor || !this.isJsonDocument(editor.document)) {
-                // Fall back to default paste
+            if (!editor) {
                 await vscode.commands.executeCommand('editor.action.clipboardPasteAction');
                 return;
             }
 
             const clipboardText = await vscode.env.clipboard.readText();
-            const position = editor.selection.active;
-            
-            // Handle paste with transformation
-            const transformedText = this.handlePasteOperation(editor.document, position, clipboardText);
-            
-            // Apply the paste operation
+            const modes = await this.choosePasteMode(editor, clipboardText);
+            if (!modes) {
+                return;
+            }
+
+            if (!(await this.pasteIntoStrings(editor, clipboardText, modes))) {
+                // Fall back to default paste
+                await vscode.commands.executeCommand('editor.action.clipboardPasteAction');
+            }
+        });
+
+        context.subscriptions.push(copyCommand, pasteCommand);
+    }
+
+    /**
+     * Register the "Escape as JSON String" and "Unescape JSON String" commands
+     * Both work on every selection and apply a single undoable edit
+     * @param context The extension context
+     */
+    public registerEscapeCommands(context: vscode.ExtensionContext): void {
+        const escapeCommand = vscode.commands.registerCommand('json-newline-formatter.escapeString', async () => {
+            await this.applySelectionEscapes('escape');
+        });
+
+        const unescapeCommand = vscode.commands.registerCommand('json-newline-formatter.unescapeString', async () => {
+            await this.applySelectionEscapes('unescape');
+        });
+
+        context.subscriptions.push(escapeCommand, unescapeCommand);
+    }
+
+    /**
+     * Escape or unescape the selections of the active editor as one edit
+     * @param direction Whether the selections are escaped or unescaped
+     */
+    private async applySelectionEscapes(direction: 'escape' | 'unescape'): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            return;
+        }
+
+        const document = editor.document;
+        const result = direction === 'escape'
+            ? this.escapeSelections(document, editor.selections)
+            : this.unescapeSelections(document, editor.selections);
+
+        if (result.edits.length > 0) {
             const edit = new vscode.WorkspaceEdit();
-            if (editor.selection.isEmpty) {
-                edit.insert(editor.document.uri, position, transformedText);
-            } else {
-                edit.replace(editor.document.uri, editor.selection, transformedText);
+            for (const textEdit of result.edits) {
+                edit.replace(document.uri, textEdit.range, textEdit.newText);
             }
-            
             await vscode.workspace.applyEdit(edit);
+        } else if (result.skipped === 0) {
+            vscode.window.showInformationMessage(direction === 'escape'
+                ? 'JSON Newline Formatter: Select the text to escape.'
+                : 'JSON Newline Formatter: Select escaped text or place the cursor inside a string to unescape it.');
+        }
+
+        if (result.skipped > 0) {
+            vscode.window.showWarningMessage(
+                `JSON Newline Formatter: ${result.skipped} selection(s) contain invalid or incomplete escape sequences and were left unchanged.`
+            );
+        }
+    }
+
+    /**
+     * Register the command bound to Enter inside formatted strings
+     * @param context The extension context
+     */
+    public registerEnterCommand(context: vscode.ExtensionContext): void {
+        const enterCommand = vscode.commands.registerCommand('json-newline-formatter.insertNewline', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                return;
+            }
+
+            const indentMode = vscode.workspace.getConfiguration('json-newline-formatter').get<ContinuationIndent>('continuationIndent', 'none');
+            if (!(await this.insertNewlineEscapes(editor, indentMode))) {
+                // Some cursor is outside a string, so Enter keeps its usual meaning
+                await vscode.commands.executeCommand('default:type', { text: '\n' });
+            }
         });
 
-        context.subscriptions.push(copyCommand, pasteCommand);
+        context.subscriptions.push(enterCommand);
+    }
+
+    /**
+     * Insert a \n escape sequence at every cursor as a single undoable edit
+     * Selections are replaced, and every cursor ends up after its escape
+     * @param editor The editor whose cursors are all inside formatted strings
+     * @param indentMode Whether the indentation of the current line is repeated after the escape
+     * @returns False if some cursor is not inside a formatted string, in which case nothing is inserted
+     */
+    public async insertNewlineEscapes(editor: vscode.TextEditor, indentMode: ContinuationIndent = 'none'): Promise<boolean> {
+        const document = editor.document;
+        if (!this.decorationManager.isEnabledForJsonDocument(document) ||
+            !editor.selections.every(selection => this.isInsideStringContent(document, selection))) {
+            return false;
+        }
+
+        const insertions = editor.selections.map(selection => ({
+            start: document.offsetAt(selection.start),
+            end: document.offsetAt(selection.end),
+            text: '\\n' + (indentMode === 'keep' ? this.getContinuationIndent(document, selection.start) : '')
+        }));
+
+        await this.replaceSelections(editor, insertions);
+        return true;
+    }
+
+    /**
+     * Get the indentation of the rendered line a position is on within its string
+     * @param document The document
+     * @param position A position inside the content of a string
+     * @returns The leading spaces and \t escapes of the rendered line
+     */
+    private getContinuationIndent(document: vscode.TextDocument, position: vscode.Position): string {
+        const stringRange = this.jsonDetector.getStringRangeAtPosition(document, position);
+        if (!stringRange) {
+            return '';
+        }
+
+        const offset = document.offsetAt(position);
+        let lineStart = document.offsetAt(stringRange.start) + 1;
+        for (const newlinePos of this.jsonDetector.getDetailedNewlinePositionsInRange(document, lineStart, offset)) {
+            if (newlinePos.endOffset <= offset) {
+                lineStart = newlinePos.endOffset;
+            }
+        }
+
+        const lineText = document.getText(new vscode.Range(document.positionAt(lineStart), position));
+        return /^(?: |\\t)*/.exec(lineText)![0];
+    }
+
+    /**
+     * Register the Backspace, Delete and cursor movement commands that treat rendered escapes as one character
+     * They are bound to the usual keys while every cursor is inside a formatted string
+     * @param context The extension context
+     */
+    public registerAtomicEscapeCommands(context: vscode.ExtensionContext): void {
+        const deleteLeftCommand = vscode.commands.registerCommand('json-newline-formatter.deleteLeft', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor || !(await this.deleteAtomicEscapes(editor, 'left'))) {
+                await vscode.commands.executeCommand('deleteLeft');
+            }
+        });
+
+        const deleteRightCommand = vscode.commands.registerCommand('json-newline-formatter.deleteRight', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor || !(await this.deleteAtomicEscapes(editor, 'right'))) {
+                await vscode.commands.executeCommand('deleteRight');
+            }
+        });
+
+        // Runs a built-in cursor command, then moves cursors that landed inside an escape past it
+        const cursorMoveCommand = vscode.commands.registerCommand('json-newline-formatter.cursorMove', async (args?: { command?: string }) => {
+            const command = args?.command;
+            if (!command || !ATOMIC_CURSOR_COMMANDS.has(command)) {
+                return;
+            }
+
+            await vscode.commands.executeCommand(command);
+            const editor = vscode.window.activeTextEditor;
+            if (editor) {
+                this.moveCursorsOutOfEscapes(editor, /Left/.test(command) ? 'left' : 'right', /Select$/.test(command));
+            }
+        });
+
+        context.subscriptions.push(deleteLeftCommand, deleteRightCommand, cursorMoveCommand);
+    }
+
+    /**
+     * Delete at every cursor, removing rendered escape sequences as a whole
+     * Empty selections delete the escape or character next to them; selections that cut an escape are widened to cover it
+     * @param editor The editor to edit
+     * @param direction Whether empty selections delete backwards (Backspace) or forwards (Delete)
+     * @returns False if no selection touches a rendered escape, so the built-in command can run instead
+     */
+    public async deleteAtomicEscapes(editor: vscode.TextEditor, direction: 'left' | 'right'): Promise<boolean> {
+        const document = editor.document;
+        const textLength = document.getText().length;
+        let touchesEscape = false;
+
+        const ranges = editor.selections.map(selection => {
+            let start = document.offsetAt(selection.start);
+            let end = document.offsetAt(selection.end);
+            if (start === end) {
+                if (direction === 'left') {
+                    start = Math.max(0, start - this.getCharacterLength(document, start, 'left'));
+                } else {
+                    end = Math.min(textLength, end + this.getCharacterLength(document, end, 'right'));
+                }
+            }
+
+            // Widen the range to whole escapes wherever it ends inside one
+            for (const escapeRange of this.getAtomicEscapeRanges(document, new vscode.Range(document.positionAt(start), document.positionAt(end)))) {
+                const escapeStart = document.offsetAt(escapeRange.start);
+                const escapeEnd = document.offsetAt(escapeRange.end);
+                if ((start > escapeStart && start < escapeEnd) || (end > escapeStart && end < escapeEnd)) {
+                    touchesEscape = true;
+                    start = Math.min(start, escapeStart);
+                    end = Math.max(end, escapeEnd);
+                }
+            }
+            return { start, end };
+        });
+
+        if (!touchesEscape) {
+            return false;
+        }
+
+        // Cursors deleting the same escape produce overlapping ranges, which a single edit cannot hold
+        const merged: { start: number; end: number }[] = [];
+        for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+            const last = merged[merged.length - 1];
+            if (last && range.start <= last.end) {
+                last.end = Math.max(last.end, range.end);
+            } else {
+                merged.push({ ...range });
+            }
+        }
+
+        await editor.edit(builder => {
+            for (const range of merged) {
+                if (range.end > range.start) {
+                    builder.delete(new vscode.Range(document.positionAt(range.start), document.positionAt(range.end)));
+                }
+            }
+        }, { undoStopBefore: false, undoStopAfter: false });
+        return true;
+    }
+
+    /**
+     * Move cursors that sit inside a rendered escape sequence to its edge
+     * @param editor The editor whose cursors just moved
+     * @param direction The direction the cursors moved in, which decides the edge they move to
+     * @param keepAnchor Whether the selections are being extended, so only their active ends move
+     */
+    public moveCursorsOutOfEscapes(editor: vscode.TextEditor, direction: 'left' | 'right', keepAnchor: boolean): void {
+        const document = editor.document;
+        let moved = false;
+
+        const selections = editor.selections.map(selection => {
+            const active = this.getEscapeEdge(document, selection.active, direction);
+            if (active.isEqual(selection.active)) {
+                return selection;
+            }
+            moved = true;
+            return new vscode.Selection(keepAnchor ? selection.anchor : active, active);
+        });
+
+        if (moved) {
+            editor.selections = selections;
+        }
+    }
+
+    /**
+     * Get the edge of the rendered escape sequence a position is strictly inside of
+     * @param document The document
+     * @param position The position to check
+     * @param direction Which edge to return
+     * @returns The edge, or the position itself if it is not inside an escape
+     */
+    private getEscapeEdge(document: vscode.TextDocument, position: vscode.Position, direction: 'left' | 'right'): vscode.Position {
+        for (const escapeRange of this.getAtomicEscapeRanges(document, new vscode.Range(position, position))) {
+            if (escapeRange.start.isBefore(position) && escapeRange.end.isAfter(position)) {
+                return direction === 'left' ? escapeRange.start : escapeRange.end;
+            }
+        }
+        return position;
+    }
+
+    /**
+     * Get the rendered escape sequences touching a range
+     * Only escapes the decorations hide behave as one character; escapes shown as written stay editable text
+     * @param document The document
+     * @param range The range to check
+     * @returns The ranges of the escapes
+     */
+    private getAtomicEscapeRanges(document: vscode.TextDocument, range: vscode.Range): vscode.Range[] {
+        return this.decorationManager.getDecorationsInRange(range, document).map(decoration => decoration.range);
+    }
+
+    /**
+     * Get the length of the character next to an offset, so surrogate pairs are deleted whole
+     * @param document The document
+     * @param offset The offset of the cursor
+     * @param direction Whether the character before or after the cursor is meant
+     * @returns 2 for a surrogate pair, otherwise 1
+     */
+    private getCharacterLength(document: vscode.TextDocument, offset: number, direction: 'left' | 'right'): number {
+        const text = direction === 'left'
+            ? document.getText(new vscode.Range(document.positionAt(Math.max(0, offset - 2)), document.positionAt(offset)))
+            : document.getText(new vscode.Range(document.positionAt(offset), document.positionAt(offset + 2)));
+        return /^[\ud800-\udbff][\udc00-\udfff]$/.test(text) ? 2 : 1;
+    }
+
+    /**
+     * Update the context key that binds Enter to the \n insertion command
+     * @param editor The active editor
+     */
+    private updateCursorContext(editor: vscode.TextEditor | undefined): void {
+        // Selection changes start as soon as a file opens, so the strings come from the partial index
+        const isCursorInString = editor !== undefined && this.decorationManager.isEnabledForJsonDocument(editor.document) &&
+            editor.selections.every(selection => this.isInsideStringContent(
+                editor.document,
+                selection,
+                this.jsonDetector.getPartialStringRangeAtPosition(editor.document, selection.start)
+            ));
+
+        if (isCursorInString !== this.isCursorInString) {
+            this.isCursorInString = isCursorInString;
+            vscode.commands.executeCommand('setContext', CURSOR_IN_STRING_CONTEXT, isCursorInString);
+        }
     }
 
     /**
@@ -853,6 +1477,7 @@ export class EditSynchronizer {
 
     /**
      * Validate clipboard content for JSON compatibility
+     * The text is checked as the content of a JSON string, after its line breaks are converted to `\n` escapes
      * @param text The clipboard text
      * @param targetPosition The position where it will be pasted
      * @param document The target document
@@ -862,45 +1487,133 @@ export class EditSynchronizer {
         text: string, 
         targetPosition: vscode.Position, 
         document: vscode.TextDocument
-    ): {
-        isValid: boolean;
-        needsTransformation: boolean;
-        transformedText: string;
-        errors: string[];
-    } {
-        const errors: string[] = [];
-        let needsTransformation = false;
-        let transformedText = text;
-        
-        // Check if we're pasting into a JSON string
+    ): ClipboardValidation {
+        // Outside strings the text is pasted as it is
         const stringRange = this.jsonDetector.getStringRangeAtPosition(document, targetPosition);
-        
-        if (stringRange) {
-            // We're pasting into a JSON string
-            if (text.includes('\n') && !text.includes('\\n')) {
-                // Text contains actual line breaks, needs transformation
-                needsTransformation = true;
-                transformedText = text.replace(/\n/g, '\\n');
-            }
-            
-            // Validate that the transformed text won't break JSON
-            try {
-                // Create a test JSON with the pasted content
-                const testJson = `{"test": "${transformedText}"}`;
-                JSON.parse(testJson);
-            } catch (error) {
-                errors.push('Pasted content would create invalid JSON');
+        if (!stringRange) {
+            return { isValid: true, needsTransformation: false, transformedText: text, errors: [] };
+        }
+
+        const transformedText = this.transformVisualContentToActual(document, text, new vscode.Range(targetPosition, targetPosition), true);
+        const errors = new Set<string>();
+        const content = this.convertLineBreaks(text);
+
+        for (let i = 0; i < content.length; i++) {
+            const char = content[i];
+            if (char === '\\') {
+                const escape = /^\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4})/.exec(content.substring(i, i + 6));
+                if (!escape) {
+                    errors.add('It contains backslashes that do not start a valid escape sequence.');
+                }
+                i += escape ? escape[0].length - 1 : 0;
+            } else if (char === '"') {
+                errors.add('It contains unescaped quotes that would end the string.');
+            } else if (char.charCodeAt(0) < 0x20) {
+                errors.add('It contains control characters, which JSON strings cannot hold unescaped.');
             }
         }
-        
+
         return {
-            isValid: errors.length === 0,
-            needsTransformation,
+            isValid: errors.size === 0,
+            needsTransformation: transformedText !== text,
             transformedText,
-            errors
+            errors: [...errors]
         };
     }
 
+    /**
+     * Convert the line breaks of a text to `\n` escapes, leaving everything else as written
+     * @param text The text
+     * @returns The converted text
+     */
+    private convertLineBreaks(text: string): string {
+        return text.replace(/\r?\n/g, '\\n');
+    }
+
+    /**
+     * Ask how to paste clipboard text that would break the strings it is pasted into
+     * Every selection is checked against the text it receives, in the string it is in; only the
+     * selections whose text would break their string follow the choice, the others are pasted escaped
+     * @param editor The editor to paste into
+     * @param clipboardText The text to paste
+     * @returns The mode of each selection, or undefined if the paste was cancelled
+     */
+    public async choosePasteMode(editor: vscode.TextEditor, clipboardText: string): Promise<PasteMode[] | undefined> {
+        const document = editor.document;
+        const selections = editor.selections;
+        const modes: PasteMode[] = selections.map(() => 'escaped');
+        const confirm = vscode.workspace.getConfiguration('json-newline-formatter').get<boolean>('clipboard.confirmUnsafePaste', true);
+        if (!confirm) {
+            return modes;
+        }
+
+        const pieces = this.splitPasteText(selections, clipboardText);
+        const unsafe = selections
+            .map((selection, index) => ({
+                index,
+                validation: this.isInsideStringContent(document, selection)
+                    ? this.validateClipboardContent(pieces[index], selection.start, document)
+                    : undefined
+            }))
+            .filter(entry => entry.validation && !entry.validation.isValid);
+        if (unsafe.length === 0) {
+            return modes;
+        }
+
+        // The first affected selection stands for the others in the previews
+        const { index, validation } = unsafe[0];
+        const items: (vscode.QuickPickItem & { mode?: PasteMode })[] = [
+            {
+                label: 'Paste Escaped',
+                description: this.createPastePreview(document, selections[index], validation!.transformedText),
+                detail: 'Escape quotes, backslashes and control characters so the string stays valid',
+                mode: 'escaped'
+            },
+            {
+                label: 'Paste as Raw',
+                description: this.createPastePreview(document, selections[index], this.convertLineBreaks(pieces[index])),
+                detail: [...new Set(unsafe.flatMap(entry => entry.validation!.errors))].join(' '),
+                mode: 'raw'
+            },
+            { label: 'Cancel' }
+        ];
+
+        const target = unsafe.length === 1 ? 'the JSON string' : `${unsafe.length} of the JSON strings`;
+        const choice = await vscode.window.showQuickPick(items, {
+            placeHolder: `JSON Newline Formatter: The clipboard text would break ${target}. How should it be pasted?`
+        });
+        if (!choice?.mode) {
+            return undefined;
+        }
+
+        for (const entry of unsafe) {
+            modes[entry.index] = choice.mode;
+        }
+        return modes;
+    }
+
+    /**
+     * Show the string literal a paste would produce
+     * @param document The document
+     * @param selection The selection the text replaces
+     * @param pastedText The text as it would be pasted
+     * @returns The literal, shortened around the pasted text if it is long
+     */
+    private createPastePreview(document: vscode.TextDocument, selection: vscode.Selection, pastedText: string): string {
+        const stringRange = this.jsonDetector.getStringRangeAtPosition(document, selection.start);
+        if (!stringRange) {
+            return pastedText;
+        }
+
+        const before = document.getText(new vscode.Range(stringRange.start, selection.start));
+        const after = document.getText(new vscode.Range(selection.end, stringRange.end));
+        const shorten = (text: string, keepEnd: boolean) => text.length <= PASTE_PREVIEW_CONTEXT
+            ? text
+            : keepEnd ? '\u2026' + text.slice(-PASTE_PREVIEW_CONTEXT) : text.slice(0, PASTE_PREVIEW_CONTEXT) + '\u2026';
+
+        return shorten(before, true) + pastedText + shorten(after, false);
+    }
+
     /**
      * Dispose of resources
      */
@@ -908,5 +1621,8 @@ export class EditSynchronizer {
         this.disposables.forEach(disposable => disposable.dispose());
         this.disposables = [];
         this.documentStates.clear();
+        this.staleMappings.clear();
+        this.transformedVersions.clear();
+        this.positionMappings.clear();
     }
 }
\ No newline at end of file
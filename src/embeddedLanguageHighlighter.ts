@@ -0,0 +1,176 @@
+import * as vscode from 'vscode';
+import { JsonStringDetector, StructuredStringRange } from './jsonStringDetector';
+import { JSON_DOCUMENT_SELECTOR } from './jsonFeatureIntegration';
+import { EMBEDDED_TOKEN_TYPES, EmbeddedLanguage, EmbeddedTokenType, resolveEmbeddedLanguage, tokenizeEmbedded } from './embeddedLanguages';
+import { JsonPathPattern, matchesPathPattern, parsePathExpression } from './jsonStructure';
+import { decodeJsonStringWithOffsets } from './jsonEscapes';
+
+/**
+ * Property naming the language of the strings beside it
+ */
+const LANGUAGE_KEY = 'lang';
+
+/**
+ * A string value holding text in an embedded language
+ */
+export interface EmbeddedString {
+    stringRange: StructuredStringRange;
+    language: EmbeddedLanguage;
+}
+
+/**
+ * A token of embedded text, expressed as a range of the JSON document
+ */
+export interface EmbeddedSourceToken {
+    range: vscode.Range;
+    type: EmbeddedTokenType;
+}
+
+/**
+ * Colours the content of strings holding SQL, shell commands, Markdown or HTML through semantic tokens
+ * The language of a string comes from a `"lang"` property of the same object, or else from the first
+ * `embeddedLanguages` path pattern matching the string. Content is tokenized unescaped and every token is
+ * mapped back through the escapes to the text it covers in the file
+ */
+export class EmbeddedLanguageHighlighter implements vscode.DocumentSemanticTokensProvider, vscode.Disposable {
+    public static readonly legend = new vscode.SemanticTokensLegend([...EMBEDDED_TOKEN_TYPES]);
+
+    private jsonDetector: JsonStringDetector;
+    private pathLanguages: { pattern: JsonPathPattern; language: EmbeddedLanguage }[] = [];
+    private changeEmitter = new vscode.EventEmitter<void>();
+    private disposables: vscode.Disposable[] = [];
+
+    public readonly onDidChangeSemanticTokens = this.changeEmitter.event;
+
+    constructor() {
+        this.jsonDetector = new JsonStringDetector();
+        this.readConfiguration();
+        this.setupEventHandlers();
+    }
+
+    /**
+     * Register the semantic tokens provider and follow changes to the path patterns
+     */
+    private setupEventHandlers(): void {
+        const provider = vscode.languages.registerDocumentSemanticTokensProvider(
+            JSON_DOCUMENT_SELECTOR,
+            this,
+            EmbeddedLanguageHighlighter.legend
+        );
+
+        const onDidChangeConfiguration = vscode.workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration('json-newline-formatter.embeddedLanguages')) {
+                this.readConfiguration();
+                this.changeEmitter.fire();
+            }
+        });
+
+        this.disposables.push(provider, onDidChangeConfiguration, this.changeEmitter);
+    }
+
+    /**
+     * Read the path patterns of the `embeddedLanguages` setting
+     * Patterns that cannot be parsed and unknown languages are reported and skipped
+     */
+    private readConfiguration(): void {
+        const setting = vscode.workspace.getConfiguration('json-newline-formatter').get<Record<string, string>>('embeddedLanguages', {});
+        this.pathLanguages = [];
+
+        for (const [expression, name] of Object.entries(setting ?? {})) {
+            const pattern = parsePathExpression(expression);
+            const language = typeof name === 'string' ? resolveEmbeddedLanguage(name) : undefined;
+            if (!pattern || !language) {
+                console.warn(`EmbeddedLanguageHighlighter: Ignoring embedded language ${JSON.stringify(name)} for path ${JSON.stringify(expression)}`);
+                continue;
+            }
+            this.pathLanguages.push({ pattern, language });
+        }
+    }
+
+    /**
+     * Find the string values of a document that hold an embedded language
+     * A `"lang"` property names the language of every other string value of its object, and takes precedence
+     * over the path patterns; a `"lang"` naming a language without a tokenizer turns highlighting off there
+     * @param document The JSON document
+     * @returns The strings in document order
+     */
+    public findEmbeddedStrings(document: vscode.TextDocument): EmbeddedString[] {
+        const stringRanges = this.jsonDetector.findStructuredStringRanges(document).filter(stringRange => stringRange.role === 'value');
+        const parentKey = (stringRange: StructuredStringRange) => JSON.stringify(stringRange.path.slice(0, -1));
+        const isLanguageKey = (stringRange: StructuredStringRange) => stringRange.path[stringRange.path.length - 1] === LANGUAGE_KEY;
+
+        const explicit = new Map<string, EmbeddedLanguage | undefined>();
+        for (const stringRange of stringRanges) {
+            if (isLanguageKey(stringRange)) {
+                explicit.set(parentKey(stringRange), resolveEmbeddedLanguage(decodeJsonStringWithOffsets(stringRange.content).text));
+            }
+        }
+
+        const embedded: EmbeddedString[] = [];
+        for (const stringRange of stringRanges) {
+            const isObjectMember = typeof stringRange.path[stringRange.path.length - 1] === 'string';
+            const language = isObjectMember && explicit.has(parentKey(stringRange))
+                ? (isLanguageKey(stringRange) ? undefined : explicit.get(parentKey(stringRange)))
+                : this.pathLanguages.find(entry => matchesPathPattern(stringRange.path, entry.pattern))?.language;
+            if (language) {
+                embedded.push({ stringRange, language });
+            }
+        }
+
+        return embedded;
+    }
+
+    /**
+     * Tokenize the embedded strings of a document
+     * @param document The JSON document
+     * @returns The tokens in document order; a token covers the escapes of the characters it holds
+     */
+    public getEmbeddedTokens(document: vscode.TextDocument): EmbeddedSourceToken[] {
+        const tokens: EmbeddedSourceToken[] = [];
+
+        for (const { stringRange, language } of this.findEmbeddedStrings(document)) {
+            const decoded = decodeJsonStringWithOffsets(stringRange.content);
+            const contentOffset = document.offsetAt(stringRange.start) + 1;
+
+            for (const token of tokenizeEmbedded(language, decoded.text)) {
+                const start = contentOffset + decoded.sourceOffsets[token.offset];
+                const end = contentOffset + decoded.sourceOffsets[token.offset + token.length];
+                tokens.push({ range: new vscode.Range(document.positionAt(start), document.positionAt(end)), type: token.type });
+            }
+        }
+
+        return tokens;
+    }
+
+    /**
+     * Provide the semantic tokens of the embedded strings of a document
+     * The tokens wait for the document to be indexed, which large files are while they open
+     * @param document The JSON document
+     * @param token Cancellation token
+     * @returns The semantic tokens
+     */
+    public async provideDocumentSemanticTokens(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.SemanticTokens> {
+        const builder = new vscode.SemanticTokensBuilder(EmbeddedLanguageHighlighter.legend);
+        if (token.isCancellationRequested || !await this.jsonDetector.indexProgressively(document, token)) {
+            return builder.build();
+        }
+
+        try {
+            for (const embeddedToken of this.getEmbeddedTokens(document)) {
+                builder.push(embeddedToken.range, embeddedToken.type);
+            }
+        } catch (error) {
+            console.warn('EmbeddedLanguageHighlighter: Error providing semantic tokens', error);
+        }
+
+        return builder.build();
+    }
+
+    /**
+     * Dispose of resources
+     */
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+}
@@ -0,0 +1,233 @@
+/**
+ * Languages with a built-in tokenizer
+ */
+export type EmbeddedLanguage = 'sql' | 'shell' | 'markdown' | 'html';
+
+/**
+ * Token types produced by the tokenizers, which are also the semantic token types of the legend
+ */
+export const EMBEDDED_TOKEN_TYPES = [
+    'keyword',
+    'string',
+    'number',
+    'comment',
+    'operator',
+    'variable',
+    'function',
+    'parameter',
+    'type',
+    'property',
+    'macro'
+] as const;
+
+export type EmbeddedTokenType = typeof EMBEDDED_TOKEN_TYPES[number];
+
+/**
+ * A token of embedded text, expressed as offsets in the decoded text
+ */
+export interface EmbeddedToken {
+    offset: number;
+    length: number;
+    type: EmbeddedTokenType;
+}
+
+/**
+ * Names accepted for each language, in `"lang"` keys and settings
+ */
+const LANGUAGE_ALIASES = new Map<string, EmbeddedLanguage>([
+    ['sql', 'sql'],
+    ['mysql', 'sql'],
+    ['postgres', 'sql'],
+    ['postgresql', 'sql'],
+    ['sqlite', 'sql'],
+    ['shell', 'shell'],
+    ['sh', 'shell'],
+    ['bash', 'shell'],
+    ['zsh', 'shell'],
+    ['shellscript', 'shell'],
+    ['markdown', 'markdown'],
+    ['md', 'markdown'],
+    ['html', 'html'],
+    ['htm', 'html']
+]);
+
+/**
+ * A tokenizer rule: a sticky pattern and the type of what it matches; `null` consumes text without a token
+ */
+interface TokenRule {
+    pattern: RegExp;
+    type: EmbeddedTokenType | null;
+}
+
+const SQL_KEYWORDS = [
+    'add', 'all', 'alter', 'and', 'as', 'asc', 'begin', 'between', 'by', 'case', 'cast', 'check', 'column', 'commit',
+    'constraint', 'create', 'cross', 'database', 'default', 'delete', 'desc', 'distinct', 'drop', 'else', 'end',
+    'exists', 'false', 'foreign', 'from', 'full', 'group', 'having', 'if', 'in', 'index', 'inner', 'insert', 'into',
+    'is', 'join', 'key', 'left', 'like', 'limit', 'not', 'null', 'offset', 'on', 'or', 'order', 'outer', 'over',
+    'partition', 'primary', 'references', 'returning', 'right', 'rollback', 'select', 'set', 'table', 'then', 'true',
+    'union', 'unique', 'update', 'using', 'values', 'view', 'when', 'where', 'with'
+];
+
+const SHELL_KEYWORDS = [
+    'case', 'do', 'done', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in', 'local', 'readonly',
+    'return', 'select', 'then', 'until', 'while'
+];
+
+const SQL_RULES: TokenRule[] = [
+    { pattern: /--[^\n]*/y, type: 'comment' },
+    { pattern: /\/\*[\s\S]*?(?:\*\/|$(?![\s\S]))/y, type: 'comment' },
+    { pattern: /'(?:[^']|'')*'?/y, type: 'string' },
+    { pattern: /"(?:[^"]|"")*"?|`[^`]*`?|\[[^\]\n]*\]/y, type: 'variable' },
+    { pattern: /(?:[:@][A-Za-z_]\w*|\$\d+|\?)/y, type: 'parameter' },
+    { pattern: /\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/y, type: 'number' },
+    { pattern: new RegExp(`(?:${SQL_KEYWORDS.join('|')})\\b`, 'iy'), type: 'keyword' },
+    { pattern: /[A-Za-z_]\w*(?=\s*\()/y, type: 'function' },
+    { pattern: /[A-Za-z_]\w*/y, type: null },
+    { pattern: /(?:<>|<=|>=|!=|\|\||::|[-+*/%=<>!~^&|])/y, type: 'operator' }
+];
+
+const SHELL_RULES: TokenRule[] = [
+    { pattern: /(?<=^|[\s;&|(])#[^\n]*/y, type: 'comment' },
+    { pattern: /'[^']*'?/y, type: 'string' },
+    { pattern: /"(?:[^"\\]|\\[\s\S])*"?/y, type: 'string' },
+    { pattern: /\$(?:\{[^}\n]*\}?|[A-Za-z_]\w*|[0-9@*#?$!-])/y, type: 'variable' },
+    { pattern: /(?<=^|\s)--?[A-Za-z][\w-]*/y, type: 'parameter' },
+    { pattern: new RegExp(`(?:${SHELL_KEYWORDS.join('|')})(?![\\w-])`, 'y'), type: 'keyword' },
+    { pattern: /(?<=(?:^|[;&|(`\n]|\$\(|\b(?:then|do|else|elif|if|while|until)\b)[ \t]*)[A-Za-z_./~][\w./~-]*/y, type: 'function' },
+    { pattern: /\d+(?![\w.-])/y, type: 'number' },
+    { pattern: /[A-Za-z_./~][\w./~-]*/y, type: null },
+    { pattern: /(?:&&|\|\||;;|[|;&<>]+)/y, type: 'operator' }
+];
+
+const MARKDOWN_RULES: TokenRule[] = [
+    { pattern: /^(?:```|~~~)[^\n]*\n?[\s\S]*?(?:^(?:```|~~~)[^\n]*|$(?![\s\S]))/my, type: 'string' },
+    { pattern: /^[ \t]*#{1,6}(?:[ \t][^\n]*)?$/my, type: 'keyword' },
+    { pattern: /^[ \t]*>/my, type: 'comment' },
+    { pattern: /^[ \t]*(?:[-*+]|\d+[.)])(?=[ \t])/my, type: 'operator' },
+    { pattern: /`[^`\n]+`/y, type: 'string' },
+    { pattern: /!?\[[^\]\n]*\](?=\()/y, type: 'property' },
+    { pattern: /(?<=\])\([^)\s]*(?:\s+"[^"\n]*")?\)/y, type: 'string' },
+    { pattern: /(?:\*\*|__)(?=\S)[^\n]*?\S(?:\*\*|__)/y, type: 'variable' },
+    { pattern: /https?:\/\/[^\s)>\]]+/y, type: 'string' },
+    { pattern: /\w+/y, type: null }
+];
+
+const HTML_RULES: TokenRule[] = [
+    { pattern: /<!--[\s\S]*?(?:-->|$(?![\s\S]))/y, type: 'comment' },
+    { pattern: /<!DOCTYPE[^>]*>?/iy, type: 'keyword' },
+    { pattern: /&(?:[A-Za-z]+|#\d+|#x[0-9A-Fa-f]+);/y, type: 'macro' },
+    { pattern: /[^<&]+/y, type: null }
+];
+
+/**
+ * Find the language a name stands for
+ * @param name A language name or alias such as `postgres`, `bash` or `md`
+ * @returns The language, or undefined if it has no tokenizer
+ */
+export function resolveEmbeddedLanguage(name: string): EmbeddedLanguage | undefined {
+    return LANGUAGE_ALIASES.get(name.trim().toLowerCase());
+}
+
+/**
+ * Split decoded string content into tokens of an embedded language
+ * The tokenizers are deliberately simple and never fail: text they do not understand gets no token
+ * @param language The language
+ * @param text The decoded content
+ * @returns The tokens in order, without overlaps
+ */
+export function tokenizeEmbedded(language: EmbeddedLanguage, text: string): EmbeddedToken[] {
+    switch (language) {
+        case 'sql':
+            return tokenizeWithRules(text, SQL_RULES);
+        case 'shell':
+            return tokenizeWithRules(text, SHELL_RULES);
+        case 'markdown':
+            return tokenizeWithRules(text, MARKDOWN_RULES);
+        case 'html':
+            return tokenizeHtml(text);
+    }
+}
+
+/**
+ * Tokenize text by trying each rule in order at every position
+ * @param text The text
+ * @param rules The rules
+ * @returns The tokens
+ */
+function tokenizeWithRules(text: string, rules: readonly TokenRule[]): EmbeddedToken[] {
+    const tokens: EmbeddedToken[] = [];
+
+    for (let offset = 0; offset < text.length;) {
+        const match = matchRule(text, rules, offset);
+        if (match?.type) {
+            tokens.push({ offset, length: match.length, type: match.type });
+        }
+        offset += match?.length ?? 1;
+    }
+
+    return tokens;
+}
+
+/**
+ * Find the first rule matching at an offset
+ * @param text The text
+ * @param rules The rules
+ * @param offset The offset
+ * @returns The length and type of the match, or null if no rule matches
+ */
+function matchRule(text: string, rules: readonly TokenRule[], offset: number): { length: number; type: EmbeddedTokenType | null } | null {
+    for (const rule of rules) {
+        rule.pattern.lastIndex = offset;
+        const match = rule.pattern.exec(text);
+        if (match && match[0].length > 0) {
+            return { length: match[0].length, type: rule.type };
+        }
+    }
+    return null;
+}
+
+/**
+ * Tokenize HTML: tags with their attributes, comments, doctypes and character references
+ * @param text The text
+ * @returns The tokens
+ */
+function tokenizeHtml(text: string): EmbeddedToken[] {
+    const tokens: EmbeddedToken[] = [];
+    const tag = /<\/?([A-Za-z][\w:-]*)([^>]*)>?/y;
+    const attribute = /([^\s"'<>/=]+)(?:(\s*=\s*)("[^"]*"?|'[^']*'?|[^\s"'=<>`]+))?/g;
+
+    for (let offset = 0; offset < text.length;) {
+        tag.lastIndex = offset;
+        const match = text[offset] === '<' ? tag.exec(text) : null;
+        if (!match) {
+            const other = matchRule(text, HTML_RULES, offset);
+            if (other?.type) {
+                tokens.push({ offset, length: other.length, type: other.type });
+            }
+            offset += other?.length ?? 1;
+            continue;
+        }
+
+        const nameOffset = offset + match[0].indexOf(match[1]);
+        tokens.push({ offset, length: nameOffset - offset, type: 'operator' });
+        tokens.push({ offset: nameOffset, length: match[1].length, type: 'type' });
+
+        const attributesOffset = nameOffset + match[1].length;
+        for (const attributeMatch of match[2].matchAll(attribute)) {
+            const attributeOffset = attributesOffset + attributeMatch.index!;
+            tokens.push({ offset: attributeOffset, length: attributeMatch[1].length, type: 'property' });
+            if (attributeMatch[3] !== undefined) {
+                const valueOffset = attributeOffset + attributeMatch[1].length + attributeMatch[2].length;
+                tokens.push({ offset: valueOffset, length: attributeMatch[3].length, type: 'string' });
+            }
+        }
+
+        const closeLength = match[0].endsWith('/>') ? 2 : match[0].endsWith('>') ? 1 : 0;
+        if (closeLength > 0) {
+            tokens.push({ offset: offset + match[0].length - closeLength, length: closeLength, type: 'operator' });
+        }
+        offset += match[0].length;
+    }
+
+    return tokens;
+}
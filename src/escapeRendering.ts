@@ -0,0 +1,93 @@
+import { EscapeKind, isLineBreakEscape, isUnprintableCharacter } from './jsonEscapes';
+
+/**
+ * How each kind of escape sequence is displayed
+ * `raw` leaves the escape as it is written in the file
+ */
+export interface EscapeRenderingOptions {
+    newline: 'break' | 'raw';
+    carriageReturn: 'symbol' | 'break' | 'raw';
+    /** Show `\r\n` as one line break instead of a carriage return followed by a line break */
+    collapseCrlf: boolean;
+    /** `arrow` shows a tab marker, `space` the tab's real width */
+    tab: 'arrow' | 'space' | 'raw';
+    tabSize: number;
+    /** Applies to `\"` and `\/` */
+    quote: 'decoded' | 'raw';
+    backslash: 'decoded' | 'raw';
+    unicode: 'decoded' | 'raw';
+}
+
+/**
+ * Rendering used when nothing is configured
+ */
+export const DEFAULT_ESCAPE_RENDERING: EscapeRenderingOptions = {
+    newline: 'break',
+    carriageReturn: 'symbol',
+    collapseCrlf: true,
+    tab: 'arrow',
+    tabSize: 4,
+    quote: 'decoded',
+    backslash: 'decoded',
+    unicode: 'decoded'
+};
+
+/**
+ * The text shown in place of a hidden escape sequence
+ */
+export interface EscapeRendering {
+    text: string;
+    isLineBreak: boolean;
+}
+
+/**
+ * Marker shown for a tab
+ */
+const TAB_ARROW = '\u2192';
+
+/**
+ * Symbol shown for a carriage return that does not start a `\r\n` pair
+ */
+const CARRIAGE_RETURN_SYMBOL = '\u240d';
+
+/**
+ * Decide how an escape sequence is displayed
+ * @param escape The kind of the escape and the text it stands for
+ * @param options How each kind of escape is displayed
+ * @returns The rendering, or null if the escape is shown raw
+ */
+export function renderEscape(escape: { kind: EscapeKind; decoded: string }, options: EscapeRenderingOptions): EscapeRendering | null {
+    if (isLineBreakEscape(escape.kind)) {
+        return options.newline === 'break' ? { text: '\n', isLineBreak: true } : null;
+    }
+
+    switch (escape.kind) {
+        case 'carriageReturn':
+            if (options.carriageReturn === 'raw') {
+                return null;
+            }
+            return options.carriageReturn === 'break'
+                ? { text: '\n', isLineBreak: true }
+                : { text: CARRIAGE_RETURN_SYMBOL, isLineBreak: false };
+        case 'tab':
+            if (options.tab === 'raw') {
+                return null;
+            }
+            return {
+                text: options.tab === 'arrow' ? TAB_ARROW : '\u00a0'.repeat(Math.max(1, options.tabSize)),
+                isLineBreak: false
+            };
+        case 'quote':
+        case 'slash':
+            return options.quote === 'decoded' ? { text: escape.decoded, isLineBreak: false } : null;
+        case 'backslash':
+            return options.backslash === 'decoded' ? { text: escape.decoded, isLineBreak: false } : null;
+        case 'unicode':
+            return options.unicode === 'decoded' && !isUnprintableCharacter(escape.decoded, false)
+                ? { text: escape.decoded, isLineBreak: false }
+                : null;
+        default:
+            // Backspace and form feed have nothing to show
+            return null;
+    }
+}
@@ -1,15 +1,35 @@
 import * as vscode from 'vscode';
 import { DecorationManager } from './decorationManager';
+import { EmbeddedLanguageHighlighter } from './embeddedLanguageHighlighter';
 import { EditSynchronizer } from './editSynchronizer';
 import { SearchHandler } from './searchHandler';
 import { JsonFeatureIntegration } from './jsonFeatureIntegration';
+import { MultilineStringEditor } from './multilineStringEditor';
+import { RenderedStringsView } from './renderedStringsView';
+import { StringFoldingManager } from './stringFolding';
+import { ToggleScope, ToggleStateSource, ToggleStateStore, isToggleScope } from './toggleState';
 
 // Global instances
 let decorationManager: DecorationManager;
 let editSynchronizer: EditSynchronizer;
 let searchHandler: SearchHandler;
 let jsonFeatureIntegration: JsonFeatureIntegration;
+let renderedStringsView: RenderedStringsView;
+let multilineStringEditor: MultilineStringEditor;
+let stringFoldingManager: StringFoldingManager;
+let embeddedLanguageHighlighter: EmbeddedLanguageHighlighter;
 let statusBarItem: vscode.StatusBarItem;
+let toggleStateStore: ToggleStateStore;
+
+/**
+ * How each toggle scope is described to the user
+ */
+const SCOPE_LABELS: Record<ToggleStateSource, string> = {
+    file: 'this file',
+    workspace: 'this workspace',
+    global: 'all workspaces',
+    setting: 'the enableOnStartup setting'
+};
 
 /**
  * This method is called when the extension is activated
@@ -19,54 +39,53 @@ export function activate(context: vscode.ExtensionContext) {
     console.log('JSON Newline Formatter extension is now active');
 
     // Initialize core components
-    decorationManager = new DecorationManager();
+    toggleStateStore = new ToggleStateStore(context.workspaceState, context.globalState);
+    decorationManager = new DecorationManager(document => toggleStateStore.getEffectiveState(document).enabled);
     editSynchronizer = new EditSynchronizer(decorationManager);
     searchHandler = new SearchHandler(decorationManager, editSynchronizer);
     jsonFeatureIntegration = new JsonFeatureIntegration(decorationManager);
+    renderedStringsView = new RenderedStringsView();
+    multilineStringEditor = new MultilineStringEditor();
+    stringFoldingManager = new StringFoldingManager(decorationManager);
+    embeddedLanguageHighlighter = new EmbeddedLanguageHighlighter();
 
     // Create status bar item
     statusBarItem = createStatusBarItem();
     
-    // Register the toggle command
-    const toggleCommand = vscode.commands.registerCommand('json-newline-formatter.toggle', () => {
-        const wasEnabled = decorationManager.isDecorationEnabled();
-        const newState = !wasEnabled;
-        
-        decorationManager.setEnabled(newState);
-        updateStatusBarItem(newState);
-        
-        const status = newState ? 'enabled' : 'disabled';
-        const message = `JSON Newline Formatting ${status}`;
-        
-        // Show user feedback with appropriate icon
-        if (newState) {
-            vscode.window.showInformationMessage(`✅ ${message}`);
-        } else {
-            vscode.window.showInformationMessage(`❌ ${message}`);
-        }
-        
-        console.log(`JSON Newline Formatter toggled: ${status}`);
-    });
+    // Register the toggle commands; the plain toggle flips the scope the current state comes from
+    // and ignores the document URI the editor context menu passes
+    const toggleCommand = vscode.commands.registerCommand('json-newline-formatter.toggle', (scope?: unknown) => toggleFormatting(isToggleScope(scope) ? scope : undefined));
+    const toggleForFileCommand = vscode.commands.registerCommand('json-newline-formatter.toggleForFile', () => toggleFormatting('file'));
+    const toggleForWorkspaceCommand = vscode.commands.registerCommand('json-newline-formatter.toggleForWorkspace', () => toggleFormatting('workspace'));
+    const toggleGloballyCommand = vscode.commands.registerCommand('json-newline-formatter.toggleGlobally', () => toggleFormatting('global'));
 
-    // Add command to subscriptions for proper cleanup
-    context.subscriptions.push(toggleCommand);
+    // Add commands to subscriptions for proper cleanup
+    context.subscriptions.push(toggleCommand, toggleForFileCommand, toggleForWorkspaceCommand, toggleGloballyCommand);
 
     // Listen for JSON file activations
     const onDidChangeActiveEditor = vscode.window.onDidChangeActiveTextEditor((editor) => {
         if (editor && isJsonFile(editor.document)) {
             console.log('JSON file activated:', editor.document.fileName);
-            // Apply decorations to the newly activated JSON file
+            // Apply decorations to the newly activated JSON file if formatting is enabled for it
             decorationManager.applyDecorations(editor.document);
             // Show status bar for JSON files
             statusBarItem.show();
-            updateStatusBarItem(decorationManager.isDecorationEnabled());
+            updateStatusBarItem();
         } else {
             // Hide status bar for non-JSON files
             statusBarItem.hide();
         }
     });
 
-    context.subscriptions.push(onDidChangeActiveEditor);
+    // The default state of files that were never toggled follows enableOnStartup
+    const onDidChangeConfiguration = vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('json-newline-formatter.enableOnStartup')) {
+            decorationManager.refresh();
+            updateStatusBarItem();
+        }
+    });
+
+    context.subscriptions.push(onDidChangeActiveEditor, onDidChangeConfiguration);
 
     // Handle already open JSON files
     if (vscode.window.activeTextEditor && isJsonFile(vscode.window.activeTextEditor.document)) {
@@ -75,17 +94,46 @@ export function activate(context: vscode.ExtensionContext) {
         decorationManager.applyDecorations(vscode.window.activeTextEditor.document);
         // Show and update status bar
         statusBarItem.show();
-        updateStatusBarItem(decorationManager.isDecorationEnabled());
+        updateStatusBarItem();
     }
 
     // Register clipboard commands for enhanced copy/paste behavior
     editSynchronizer.registerClipboardCommands(context);
 
+    // Register the escape and unescape selection commands
+    editSynchronizer.registerEscapeCommands(context);
+
+    // Register the command bound to Enter inside formatted strings
+    editSynchronizer.registerEnterCommand(context);
+
+    // Register the commands that treat rendered escapes as one character
+    editSynchronizer.registerAtomicEscapeCommands(context);
+
+    // Register the commands behind the links of the string hover
+    jsonFeatureIntegration.registerCommands(context);
+
+    // Register the rendered strings view commands
+    renderedStringsView.registerCommands(context);
+
+    // Register the multiline string editor command and the file system its editors are served from
+    multilineStringEditor.registerFileSystemProvider(context);
+    multilineStringEditor.registerCommands(context);
+
+    // Register the Find and Replace in Rendered Strings commands
+    searchHandler.registerCommands(context);
+
+    // Register the commands that collapse multiline strings
+    stringFoldingManager.registerCommands(context);
+
     // Add components to subscriptions for proper cleanup
     context.subscriptions.push(decorationManager);
     context.subscriptions.push(editSynchronizer);
     context.subscriptions.push(searchHandler);
     context.subscriptions.push(jsonFeatureIntegration);
+    context.subscriptions.push(renderedStringsView);
+    context.subscriptions.push(multilineStringEditor);
+    context.subscriptions.push(stringFoldingManager);
+    context.subscriptions.push(embeddedLanguageHighlighter);
     context.subscriptions.push(statusBarItem);
 }
 
@@ -108,6 +156,18 @@ export function deactivate() {
     if (jsonFeatureIntegration) {
         jsonFeatureIntegration.dispose();
     }
+    if (renderedStringsView) {
+        renderedStringsView.dispose();
+    }
+    if (multilineStringEditor) {
+        multilineStringEditor.dispose();
+    }
+    if (stringFoldingManager) {
+        stringFoldingManager.dispose();
+    }
+    if (embeddedLanguageHighlighter) {
+        embeddedLanguageHighlighter.dispose();
+    }
     if (statusBarItem) {
         statusBarItem.dispose();
     }
@@ -122,25 +182,90 @@ function isJsonFile(document: vscode.TextDocument): boolean {
 
 /**
  * Get the current formatting state
- * @returns True if formatting is currently enabled
+ * @returns True if formatting is currently enabled for the active JSON file
  */
 export function isFormattingEnabled(): boolean {
-    return decorationManager ? decorationManager.isDecorationEnabled() : false;
+    if (!decorationManager || !decorationManager.isDecorationEnabled()) {
+        return false;
+    }
+    return toggleStateStore.getEffectiveState(getActiveJsonDocument()).enabled;
 }
 
 /**
  * Toggle the formatting state programmatically
  * @param enabled Optional specific state to set, if not provided will toggle current state
+ * @param scope The scope to store the state at, defaults to all workspaces; the file scope needs an active JSON file
  */
-export function setFormattingEnabled(enabled?: boolean): void {
+export async function setFormattingEnabled(enabled?: boolean, scope: ToggleScope = 'global'): Promise<void> {
     if (decorationManager) {
-        const newState = enabled !== undefined ? enabled : !decorationManager.isDecorationEnabled();
-        decorationManager.setEnabled(newState);
-        updateStatusBarItem(newState);
+        const document = getActiveJsonDocument();
+        if (scope === 'file' && !document) {
+            vscode.window.showWarningMessage('JSON Newline Formatter: Open a JSON file to set formatting for it.');
+            return;
+        }
+
+        const newState = enabled !== undefined ? enabled : !toggleStateStore.getEffectiveState(document).enabled;
+        await toggleStateStore.setState(scope, newState, document);
+        decorationManager.refresh();
+        updateStatusBarItem();
         
         const status = newState ? 'enabled' : 'disabled';
-        console.log(`JSON Newline Formatter programmatically ${status}`);
+        console.log(`JSON Newline Formatter programmatically ${status} for ${SCOPE_LABELS[scope]}`);
+    }
+}
+
+/**
+ * Flip the formatting state of the active JSON file at a scope and persist it
+ * @param scope The scope to toggle, defaults to the scope the current state comes from
+ */
+async function toggleFormatting(scope?: ToggleScope): Promise<void> {
+    const document = getActiveJsonDocument();
+    const current = toggleStateStore.getEffectiveState(document);
+    const targetScope = scope ?? (current.source === 'setting' ? 'global' : current.source);
+
+    if (targetScope === 'file' && !document) {
+        vscode.window.showWarningMessage('JSON Newline Formatter: Open a JSON file to toggle formatting for it.');
+        return;
+    }
+
+    const newState = !current.enabled;
+    try {
+        await toggleStateStore.setState(targetScope, newState, document);
+    } catch (error) {
+        console.error('JSON Newline Formatter: Failed to store the toggle state', error);
+        vscode.window.showErrorMessage('JSON Newline Formatter: Unable to save the formatting state.');
+        return;
+    }
+
+    decorationManager.refresh();
+    updateStatusBarItem();
+
+    const status = newState ? 'enabled' : 'disabled';
+    let message = `JSON Newline Formatting ${status} for ${SCOPE_LABELS[targetScope]}`;
+
+    // A more specific scope still decides the active file
+    const effective = toggleStateStore.getEffectiveState(document);
+    if (document && effective.source !== targetScope) {
+        message += ` (this file follows ${SCOPE_LABELS[effective.source]})`;
     }
+    
+    // Show user feedback with appropriate icon
+    if (newState) {
+        vscode.window.showInformationMessage(`✅ ${message}`);
+    } else {
+        vscode.window.showInformationMessage(`❌ ${message}`);
+    }
+    
+    console.log(`JSON Newline Formatter toggled: ${status} for ${SCOPE_LABELS[targetScope]}`);
+}
+
+/**
+ * Get the document of the active editor if it is a JSON file
+ * @returns The active JSON document, or undefined
+ */
+function getActiveJsonDocument(): vscode.TextDocument | undefined {
+    const editor = vscode.window.activeTextEditor;
+    return editor && isJsonFile(editor.document) ? editor.document : undefined;
 }
 
 /**
@@ -161,21 +286,25 @@ function createStatusBarItem(): vscode.StatusBarItem {
 }
 
 /**
- * Update the status bar item based on the current formatting state
- * @param isEnabled Whether formatting is currently enabled
+ * Update the status bar item based on the effective formatting state of the active file
  */
-function updateStatusBarItem(isEnabled: boolean): void {
-    if (!statusBarItem) {
+function updateStatusBarItem(): void {
+    if (!statusBarItem || !toggleStateStore) {
         return;
     }
     
-    if (isEnabled) {
-        statusBarItem.text = '$(symbol-string) JSON \\n';
-        statusBarItem.tooltip = 'JSON Newline Formatting: Enabled (click to disable)';
+    const state = toggleStateStore.getEffectiveState(getActiveJsonDocument());
+    const source = state.source === 'setting' ? 'by default' : `for ${SCOPE_LABELS[state.source]}`;
+    // Mark states that only apply to this file or workspace, so they are not mistaken for the global one
+    const scopeIcon = state.source === 'file' ? ' $(file)' : state.source === 'workspace' ? ' $(root-folder)' : '';
+    
+    if (state.enabled) {
+        statusBarItem.text = `$(symbol-string) JSON \\n${scopeIcon}`;
+        statusBarItem.tooltip = `JSON Newline Formatting: Enabled ${source} (click to disable)`;
         statusBarItem.backgroundColor = undefined; // Default background
     } else {
-        statusBarItem.text = '$(symbol-string) JSON';
-        statusBarItem.tooltip = 'JSON Newline Formatting: Disabled (click to enable)';
+        statusBarItem.text = `$(symbol-string) JSON${scopeIcon}`;
+        statusBarItem.tooltip = `JSON Newline Formatting: Disabled ${source} (click to enable)`;
         statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,198 @@
+/**
+ * Options for escaping text as the content of a JSON string
+ */
+export interface JsonEscapeOptions {
+    /** Write every non-ASCII character as a `\uXXXX` escape */
+    escapeNonAscii?: boolean;
+}
+
+/**
+ * Decode the content of a JSON string (the text between its quotes)
+ * @param content The escaped content
+ * @returns The decoded text
+ * @throws SyntaxError if the content contains an invalid escape or a raw control character
+ */
+export function unescapeJsonString(content: string): string {
+    return JSON.parse(`"${content}"`);
+}
+
+/**
+ * Escape text so it can be written between the quotes of a JSON string
+ * Quotes, backslashes and control characters are always escaped; `\n`, `\t` and friends use their short forms
+ * @param text The decoded text
+ * @param options How to treat non-ASCII characters
+ * @returns The escaped content
+ */
+export function escapeJsonString(text: string, options: JsonEscapeOptions = {}): string {
+    const escaped = JSON.stringify(text).slice(1, -1);
+    if (!options.escapeNonAscii) {
+        return escaped;
+    }
+
+    return escaped.replace(/[\u0080-\uffff]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+}
+
+/**
+ * Check whether the content of a JSON string writes non-ASCII characters as `\uXXXX` escapes
+ * Used to keep the original style when the content is escaped again
+ * @param content The escaped content
+ * @returns True if a non-ASCII character is escaped and none is written raw
+ */
+export function usesUnicodeEscapes(content: string): boolean {
+    return /\\u(?:00[89a-fA-F][0-9a-fA-F]|0[1-9a-fA-F][0-9a-fA-F]{2}|[1-9a-fA-F][0-9a-fA-F]{3})/.test(content) &&
+        !/[\u0080-\uffff]/.test(content);
+}
+
+/**
+ * Kinds of escape sequences in JSON strings
+ * A `\r\n` pair can be read as a single `crlf` escape, and a surrogate pair of `\u` escapes as a single `unicode` escape
+ */
+export type EscapeKind =
+    | 'newline'
+    | 'crlf'
+    | 'carriageReturn'
+    | 'tab'
+    | 'quote'
+    | 'backslash'
+    | 'slash'
+    | 'backspace'
+    | 'formFeed'
+    | 'unicode';
+
+/**
+ * An escape sequence in a JSON string, expressed as character offsets
+ */
+export interface EscapeSequence {
+    kind: EscapeKind;
+    /** Offset of the backslash */
+    offset: number;
+    length: number;
+    /** The text the escape stands for */
+    decoded: string;
+}
+
+/**
+ * Kinds and decoded text of the single character escapes
+ */
+const SIMPLE_ESCAPES = new Map<string, { kind: EscapeKind; decoded: string }>([
+    ['n', { kind: 'newline', decoded: '\n' }],
+    ['r', { kind: 'carriageReturn', decoded: '\r' }],
+    ['t', { kind: 'tab', decoded: '\t' }],
+    ['"', { kind: 'quote', decoded: '"' }],
+    ['\\', { kind: 'backslash', decoded: '\\' }],
+    ['/', { kind: 'slash', decoded: '/' }],
+    ['b', { kind: 'backspace', decoded: '\b' }],
+    ['f', { kind: 'formFeed', decoded: '\f' }]
+]);
+
+/**
+ * Read the escape sequences of a string token from the offsets recorded by the scanner
+ * @param text The text the token was scanned from
+ * @param tokenOffset Offset of the token in the text
+ * @param escapeOffsets Offsets of the valid escapes, relative to the token start
+ * @param collapseCrlf Whether a `\r\n` pair is read as a single `crlf` escape
+ * @returns The escape sequences in order
+ */
+export function readEscapeSequences(
+    text: string,
+    tokenOffset: number,
+    escapeOffsets: readonly number[],
+    collapseCrlf: boolean = true
+): EscapeSequence[] {
+    const escapes: EscapeSequence[] = [];
+
+    for (let i = 0; i < escapeOffsets.length; i++) {
+        const offset = tokenOffset + escapeOffsets[i];
+        const letter = text[offset + 1];
+        const isFollowedBy = (length: number, nextLetter: string): boolean =>
+            tokenOffset + escapeOffsets[i + 1] === offset + length && text[offset + length + 1] === nextLetter;
+
+        if (letter === 'u') {
+            const code = parseInt(text.substring(offset + 2, offset + 6), 16);
+            if (code >= 0xd800 && code <= 0xdbff && isFollowedBy(6, 'u')) {
+                const low = parseInt(text.substring(offset + 8, offset + 12), 16);
+                if (low >= 0xdc00 && low <= 0xdfff) {
+                    escapes.push({ kind: 'unicode', offset, length: 12, decoded: String.fromCharCode(code, low) });
+                    i++;
+                    continue;
+                }
+            }
+            escapes.push({ kind: 'unicode', offset, length: 6, decoded: String.fromCharCode(code) });
+        } else if (letter === 'r' && collapseCrlf && isFollowedBy(2, 'n')) {
+            escapes.push({ kind: 'crlf', offset, length: 4, decoded: '\r\n' });
+            i++;
+        } else {
+            const simple = SIMPLE_ESCAPES.get(letter);
+            if (simple) {
+                escapes.push({ ...simple, offset, length: 2 });
+            }
+        }
+    }
+
+    return escapes;
+}
+
+/**
+ * Check whether an escape ends a line of the decoded text
+ * @param kind The kind of the escape
+ * @returns True for `\n` and `\r\n`
+ */
+export function isLineBreakEscape(kind: EscapeKind): boolean {
+    return kind === 'newline' || kind === 'crlf';
+}
+
+/**
+ * Check whether decoded text is a single character that has to stay escaped to be seen:
+ * control characters, line and paragraph separators and lone surrogates
+ * @param decoded The decoded text of an escape
+ * @param allowTab Whether a tab counts as printable, for views that lay tabs out
+ * @returns True if the character would be invisible or break the line
+ */
+export function isUnprintableCharacter(decoded: string, allowTab: boolean): boolean {
+    if (decoded === '\t') {
+        return !allowTab;
+    }
+    return /^(?:[\u0000-\u001f\u007f-\u009f\u2028\u2029]|[\ud800-\udfff])$/.test(decoded);
+}
+
+/**
+ * The decoded text of a JSON string and where each of its characters comes from
+ */
+export interface DecodedString {
+    text: string;
+    /** Offset in the escaped content where each decoded character starts, followed by the content length */
+    sourceOffsets: number[];
+}
+
+/**
+ * Decode the content of a JSON string, keeping track of the escaped text behind every character
+ * Unlike unescapeJsonString this never throws: invalid escapes are kept as written
+ * @param content The escaped content
+ * @returns The decoded text and its offsets in the content
+ */
+export function decodeJsonStringWithOffsets(content: string): DecodedString {
+    let text = '';
+    const sourceOffsets: number[] = [];
+
+    for (let i = 0; i < content.length;) {
+        const simple = content[i] === '\\' ? SIMPLE_ESCAPES.get(content[i + 1]) : undefined;
+        const unicode = content[i] === '\\' && /^u[0-9a-fA-F]{4}$/.test(content.substring(i + 1, i + 6));
+
+        if (simple) {
+            text += simple.decoded;
+            sourceOffsets.push(i);
+            i += 2;
+        } else if (unicode) {
+            text += String.fromCharCode(parseInt(content.substring(i + 2, i + 6), 16));
+            sourceOffsets.push(i);
+            i += 6;
+        } else {
+            text += content[i];
+            sourceOffsets.push(i);
+            i++;
+        }
+    }
+
+    sourceOffsets.push(content.length);
+    return { text, sourceOffsets };
+}
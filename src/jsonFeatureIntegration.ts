@@ -1,6 +1,9 @@
 import * as vscode from 'vscode';
 import { DecorationManager } from './decorationManager';
-import { JsonStringDetector } from './jsonStringDetector';
+import { JsonStringDetector, StructuredStringRange } from './jsonStringDetector';
+import { JsonSchema, JsonSchemaStore, getSchemaProperties, getSchemaValues, getSchemasAtPath } from './jsonSchema';
+import { JsonLocation, formatJsonPath } from './jsonStructure';
+import { decodeJsonStringWithOffsets } from './jsonEscapes';
 
 /**
  * Interface for folding range information
@@ -20,6 +23,40 @@ export interface CompletionItemInfo {
     needsTransformation: boolean;
 }
 
+/**
+ * The documents every provider is registered for
+ */
+export const JSON_DOCUMENT_SELECTOR: vscode.DocumentSelector = [{ language: 'json' }, { language: 'jsonc' }];
+
+/**
+ * How much of a string the hover shows before "Show more", and after it
+ */
+const HOVER_PREVIEW_LINES = 12;
+const HOVER_PREVIEW_CHARACTERS = 1500;
+const HOVER_EXPANDED_CHARACTERS = 50000;
+
+/**
+ * Commands the links of the string hover run
+ */
+const HOVER_COMMANDS = [
+    'json-newline-formatter.copyStringContent',
+    'json-newline-formatter.showMoreOfString',
+    'json-newline-formatter.editStringAsMultiline',
+    'json-newline-formatter.openRenderedView'
+];
+
+/**
+ * Size of a string as it renders
+ */
+export interface RenderedStringMetrics {
+    lineCount: number;
+    /** Characters in the longest line */
+    longestLine: number;
+    /** Characters, counting a character outside the Basic Multilingual Plane once */
+    characters: number;
+    utf8Bytes: number;
+}
+
 /**
  * Handles integration with VSCode's built-in JSON features
  * Ensures decorations don't interfere with folding, auto-completion, and validation
@@ -27,11 +64,15 @@ export interface CompletionItemInfo {
 export class JsonFeatureIntegration {
     private decorationManager: DecorationManager;
     private jsonDetector: JsonStringDetector;
+    private schemaStore: JsonSchemaStore;
+    /** The string whose hover shows its whole content, by document URI and offset */
+    private expandedString: { uri: string; offset: number } | null = null;
     private disposables: vscode.Disposable[] = [];
 
     constructor(decorationManager: DecorationManager) {
         this.decorationManager = decorationManager;
         this.jsonDetector = new JsonStringDetector();
+        this.schemaStore = new JsonSchemaStore();
         this.setupFeatureIntegration();
     }
 
@@ -41,13 +82,13 @@ export class JsonFeatureIntegration {
     private setupFeatureIntegration(): void {
         // Register folding range provider to ensure our decorations work with folding
         const foldingProvider = vscode.languages.registerFoldingRangeProvider(
-            { language: 'json' },
+            JSON_DOCUMENT_SELECTOR,
             this
         );
 
         // Register completion item provider to enhance auto-completion
         const completionProvider = vscode.languages.registerCompletionItemProvider(
-            { language: 'json' },
+            JSON_DOCUMENT_SELECTOR,
             this,
             '"', // Trigger on quote character
             ':', // Trigger on colon
@@ -59,7 +100,7 @@ export class JsonFeatureIntegration {
 
         // Register hover provider to show information about decorated content
         const hoverProvider = vscode.languages.registerHoverProvider(
-            { language: 'json' },
+            JSON_DOCUMENT_SELECTOR,
             this
         );
 
@@ -68,28 +109,24 @@ export class JsonFeatureIntegration {
 
     /**
      * Provide folding ranges that work correctly with decorations
+     * Large files are requested as soon as they open, so the ranges wait for the document to be indexed
      * @param document The document to provide folding ranges for
      * @param context The folding context
      * @param token Cancellation token
      * @returns Array of folding ranges
      */
-    public provideFoldingRanges(
+    public async provideFoldingRanges(
         document: vscode.TextDocument,
         context: vscode.FoldingContext,
         token: vscode.CancellationToken
-    ): vscode.ProviderResult<vscode.FoldingRange[]> {
-        if (token.isCancellationRequested) {
+    ): Promise<vscode.FoldingRange[]> {
+        if (token.isCancellationRequested || !await this.jsonDetector.indexProgressively(document, token)) {
             return [];
         }
 
         try {
-            // Get the default JSON folding ranges
-            const defaultRanges = this.getDefaultJsonFoldingRanges(document);
-            
-            // Enhance ranges with decoration awareness
-            const enhancedRanges = this.enhanceFoldingRanges(document, defaultRanges);
-            
-            return enhancedRanges;
+            // Decorations never change the document structure, so the structural ranges fold as they are
+            return this.getDefaultJsonFoldingRanges(document);
         } catch (error) {
             console.warn('JsonFeatureIntegration: Error providing folding ranges', error);
             return [];
@@ -97,114 +134,29 @@ export class JsonFeatureIntegration {
     }
 
     /**
-     * Get default JSON folding ranges by parsing the structure
+     * Get the folding ranges of the document structure: objects, arrays, comment blocks and `#region` markers
+     * The regions come from the shared scanner, so brackets inside strings and comments are ignored and
+     * broken documents still fold everywhere their brackets balance
      * @param document The document to analyze
      * @returns Array of folding ranges
      */
     private getDefaultJsonFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
         const ranges: vscode.FoldingRange[] = [];
-        const text = document.getText();
 
-        try {
-            // Parse JSON to understand structure
-            JSON.parse(text);
-            
-            // Find object and array boundaries for folding
-            let braceStack: { char: string; line: number; isInString: boolean }[] = [];
-            let inString = false;
-            let escapeNext = false;
-
-            const lines = text.split('\n');
-            
-            for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
-                const line = lines[lineIndex];
-                
-                for (let charIndex = 0; charIndex < line.length; charIndex++) {
-                    const char = line[charIndex];
-                    
-                    if (escapeNext) {
-                        escapeNext = false;
-                        continue;
-                    }
-                    
-                    if (char === '\\') {
-                        escapeNext = true;
-                        continue;
-                    }
-                    
-                    if (char === '"') {
-                        inString = !inString;
-                        continue;
-                    }
-                    
-                    if (inString) {
-                        continue;
-                    }
-                    
-                    if (char === '{' || char === '[') {
-                        braceStack.push({
-                            char,
-                            line: lineIndex,
-                            isInString: false
-                        });
-                    } else if (char === '}' || char === ']') {
-                        const opening = braceStack.pop();
-                        if (opening && lineIndex > opening.line) {
-                            // Create folding range
-                            const kind = opening.char === '{' ? 
-                                vscode.FoldingRangeKind.Region : 
-                                vscode.FoldingRangeKind.Region;
-                            
-                            ranges.push(new vscode.FoldingRange(
-                                opening.line,
-                                lineIndex,
-                                kind
-                            ));
-                        }
-                    }
-                }
+        for (const region of this.jsonDetector.findFoldingRegions(document)) {
+            const startLine = document.positionAt(region.start).line;
+            const endLine = document.positionAt(region.end).line;
+            if (endLine <= startLine) {
+                continue;
             }
-        } catch (error) {
-            // JSON is malformed, return empty ranges
-            console.warn('JsonFeatureIntegration: Malformed JSON, no folding ranges provided');
-        }
-
-        return ranges;
-    }
 
-    /**
-     * Enhance folding ranges to work correctly with decorations
-     * @param document The document
-     * @param defaultRanges The default folding ranges
-     * @returns Enhanced folding ranges
-     */
-    private enhanceFoldingRanges(
-        document: vscode.TextDocument, 
-        defaultRanges: vscode.FoldingRange[]
-    ): vscode.FoldingRange[] {
-        const enhancedRanges: vscode.FoldingRange[] = [];
-        const decorationState = this.decorationManager.getDecorationState();
-
-        for (const range of defaultRanges) {
-            // Check if this folding range contains any decorations
-            const rangeStart = new vscode.Position(range.start, 0);
-            const rangeEnd = new vscode.Position(range.end, Number.MAX_SAFE_INTEGER);
-            const vscodeRange = new vscode.Range(rangeStart, rangeEnd);
-            
-            const decorationsInRange = this.decorationManager.getDecorationsInRange(vscodeRange);
-            
-            // Create enhanced range info
-            const enhancedRange = new vscode.FoldingRange(
-                range.start,
-                range.end,
-                range.kind
-            );
-
-            // Folding should work normally even with decorations
-            enhancedRanges.push(enhancedRange);
+            const kind = region.kind === 'comment' ? vscode.FoldingRangeKind.Comment
+                : region.kind === 'region' ? vscode.FoldingRangeKind.Region
+                    : undefined;
+            ranges.push(new vscode.FoldingRange(startLine, endLine, kind));
         }
 
-        return enhancedRanges;
+        return ranges;
     }
 
     /**
@@ -215,32 +167,27 @@ export class JsonFeatureIntegration {
      * @param context Completion context
      * @returns Completion items
      */
-    public provideCompletionItems(
+    public async provideCompletionItems(
         document: vscode.TextDocument,
         position: vscode.Position,
         token: vscode.CancellationToken,
         context: vscode.CompletionContext
-    ): vscode.ProviderResult<vscode.CompletionItem[] | vscode.CompletionList> {
-        if (token.isCancellationRequested) {
+    ): Promise<vscode.CompletionItem[] | vscode.CompletionList> {
+        if (token.isCancellationRequested || !await this.jsonDetector.indexProgressively(document, token)) {
             return [];
         }
 
         try {
-            // Check if we're in a decorated string area
-            const stringRange = this.jsonDetector.getStringRangeAtPosition(document, position);
-            const isInDecoratedArea = stringRange !== null && stringRange.hasNewlines;
-
             // Get basic JSON completion items
-            const completionItems = this.getJsonCompletionItems(document, position, context);
+            const completionItems = await this.getJsonCompletionItems(document, position, context);
+            if (token.isCancellationRequested) {
+                return [];
+            }
 
             // Enhance completion items for decorated areas
-            if (isInDecoratedArea) {
-                return this.enhanceCompletionItemsForDecoratedArea(
-                    completionItems, 
-                    document, 
-                    position, 
-                    stringRange
-                );
+            const stringRange = this.jsonDetector.getStructuredStringRangeAtPosition(document, position);
+            if (stringRange && stringRange.hasNewlines) {
+                return this.enhanceCompletionItemsForDecoratedArea(completionItems, stringRange);
             }
 
             return completionItems;
@@ -251,85 +198,194 @@ export class JsonFeatureIntegration {
     }
 
     /**
-     * Get basic JSON completion items
+     * Get the completion items at a position: escape sequences right after a backslash in a string, and
+     * otherwise the property names or values the document's schema allows at the cursor's JSON path
      * @param document The document
      * @param position The position
      * @param context The completion context
-     * @returns Basic completion items
+     * @returns Completion items; empty when the document has no schema
      */
-    private getJsonCompletionItems(
+    private async getJsonCompletionItems(
         document: vscode.TextDocument,
         position: vscode.Position,
         context: vscode.CompletionContext
-    ): vscode.CompletionItem[] {
-        const items: vscode.CompletionItem[] = [];
-        
-        // Analyze the current context to provide appropriate completions
-        const lineText = document.lineAt(position.line).text;
-        const beforeCursor = lineText.substring(0, position.character);
-        const afterCursor = lineText.substring(position.character);
-
-        // Provide string value completions
-        if (this.isInStringValue(beforeCursor, afterCursor)) {
-            // Add escape sequence completions
-            items.push(
-                this.createCompletionItem('\\n', 'Newline escape sequence', vscode.CompletionItemKind.Snippet),
-                this.createCompletionItem('\\t', 'Tab escape sequence', vscode.CompletionItemKind.Snippet),
-                this.createCompletionItem('\\r', 'Carriage return escape sequence', vscode.CompletionItemKind.Snippet),
-                this.createCompletionItem('\\"', 'Quote escape sequence', vscode.CompletionItemKind.Snippet),
-                this.createCompletionItem('\\\\', 'Backslash escape sequence', vscode.CompletionItemKind.Snippet)
-            );
+    ): Promise<vscode.CompletionItem[]> {
+        const location = this.jsonDetector.findLocation(document, position);
+        if (!location) {
+            return [];
+        }
+
+        // An odd run of backslashes before the cursor is an escape being typed
+        const beforeCursor = document.lineAt(position.line).text.substring(0, position.character);
+        if (location.token?.kind === 'string' && /(?:^|[^\\])(?:\\\\)*\\$/.test(beforeCursor)) {
+            return this.createEscapeCompletionItems(new vscode.Range(position.translate(0, -1), position));
         }
 
-        // Provide property name completions
-        if (this.isInPropertyName(beforeCursor, afterCursor)) {
-            items.push(
-                this.createCompletionItem('"message"', 'Message property', vscode.CompletionItemKind.Property),
-                this.createCompletionItem('"description"', 'Description property', vscode.CompletionItemKind.Property),
-                this.createCompletionItem('"name"', 'Name property', vscode.CompletionItemKind.Property),
-                this.createCompletionItem('"value"', 'Value property', vscode.CompletionItemKind.Property)
-            );
+        const schema = await this.schemaStore.getSchema(document);
+        if (!schema) {
+            return [];
         }
 
-        return items;
+        const range = location.token
+            ? new vscode.Range(document.positionAt(location.token.offset), document.positionAt(location.token.offset + location.token.length))
+            : new vscode.Range(position, position);
+
+        return location.role === 'key'
+            ? this.createPropertyCompletionItems(document, schema, location, range)
+            : this.createValueCompletionItems(schema, location, range);
+    }
+
+    /**
+     * Create the completion items for the escape sequences of JSON strings
+     * @param range The backslash that was typed, which each item replaces
+     * @returns The items
+     */
+    private createEscapeCompletionItems(range: vscode.Range): vscode.CompletionItem[] {
+        const escapes: [string, string][] = [
+            ['\\n', 'Newline escape sequence'],
+            ['\\t', 'Tab escape sequence'],
+            ['\\r', 'Carriage return escape sequence'],
+            ['\\"', 'Quote escape sequence'],
+            ['\\\\', 'Backslash escape sequence']
+        ];
+
+        return escapes.map(([text, label]) => {
+            const item = this.createCompletionItem(text, label, vscode.CompletionItemKind.Snippet);
+            item.filterText = text;
+            item.range = range;
+            return item;
+        });
+    }
+
+    /**
+     * Create the completion items for the properties the schema allows in the object at a location
+     * Properties the object already has are left out
+     * @param document The document
+     * @param schema The schema of the document
+     * @param location The property name location
+     * @param range The text each item replaces
+     * @returns The items, in schema order
+     */
+    private createPropertyCompletionItems(
+        document: vscode.TextDocument,
+        schema: JsonSchema,
+        location: JsonLocation,
+        range: vscode.Range
+    ): vscode.CompletionItem[] {
+        const lineText = document.lineAt(range.end.line).text;
+        const hasColon = /^\s*:/.test(lineText.substring(range.end.character));
+
+        return getSchemaProperties(getSchemasAtPath(schema, location.path))
+            .filter(property => !location.siblingKeys.includes(property.name))
+            .map((property, index) => {
+                const name = JSON.stringify(property.name);
+                const item = new vscode.CompletionItem(property.name, vscode.CompletionItemKind.Property);
+                const valueSchemas = getSchemasAtPath(schema, [...location.path, property.name]);
+
+                item.insertText = hasColon ? name : `${name}: `;
+                item.filterText = name;
+                item.range = range;
+                item.sortText = String(index).padStart(4, '0');
+                item.detail = this.describeSchemaTypes(valueSchemas);
+                item.documentation = this.getSchemaDocumentation(valueSchemas);
+                if (!hasColon) {
+                    // Go straight on to the values of the new property
+                    item.command = { title: 'Suggest values', command: 'editor.action.triggerSuggest' };
+                }
+                return item;
+            });
+    }
+
+    /**
+     * Create the completion items for the values the schema suggests at a location: defaults, enum members,
+     * constants and booleans
+     * Values are inserted as JSON literals, so strings holding line breaks are written with `\n` escapes
+     * @param schema The schema of the document
+     * @param location The value location
+     * @param range The text each item replaces
+     * @returns The items, defaults first
+     */
+    private createValueCompletionItems(schema: JsonSchema, location: JsonLocation, range: vscode.Range): vscode.CompletionItem[] {
+        return getSchemaValues(getSchemasAtPath(schema, location.path)).map((value, index) => {
+            const literal = JSON.stringify(value.value);
+            const isEnumMember = value.source === 'enum' || value.source === 'const';
+            const item = new vscode.CompletionItem(literal, isEnumMember ? vscode.CompletionItemKind.EnumMember : vscode.CompletionItemKind.Value);
+
+            item.insertText = literal;
+            item.filterText = literal;
+            item.range = range;
+            item.sortText = String(index).padStart(4, '0');
+            if (value.source === 'default') {
+                item.detail = 'Default value';
+                item.preselect = true;
+            }
+
+            const documentation = new vscode.MarkdownString(value.description ?? '');
+            if (typeof value.value === 'string' && /[\r\n]/.test(value.value)) {
+                // The label shows escapes; show the text as it renders too
+                documentation.appendCodeblock(value.value, 'text');
+            }
+            if (documentation.value) {
+                item.documentation = documentation;
+            }
+            return item;
+        });
+    }
+
+    /**
+     * Describe the types a value may have according to its schemas
+     * @param schemas The schemas of the value
+     * @returns The types joined with `|`, or undefined if the schemas name none
+     */
+    private describeSchemaTypes(schemas: readonly JsonSchema[]): string | undefined {
+        const types = new Set(schemas.flatMap(schema => schema.type === undefined ? [] : ([] as string[]).concat(schema.type)));
+        return types.size > 0 ? Array.from(types).join(' | ') : undefined;
+    }
+
+    /**
+     * Get the documentation of a value from the first of its schemas that describes it
+     * @param schemas The schemas of the value
+     * @returns The description, or undefined if none has one
+     */
+    private getSchemaDocumentation(schemas: readonly JsonSchema[]): vscode.MarkdownString | undefined {
+        const described = schemas.find(schema => schema.markdownDescription !== undefined || schema.description !== undefined);
+        if (!described) {
+            return undefined;
+        }
+
+        const documentation = described.markdownDescription !== undefined
+            ? new vscode.MarkdownString(described.markdownDescription)
+            : new vscode.MarkdownString().appendText(described.description!);
+        if (described.deprecationMessage) {
+            documentation.appendMarkdown('\n\n').appendText(`Deprecated: ${described.deprecationMessage}`);
+        }
+        return documentation;
     }
 
     /**
      * Enhance completion items for decorated areas
+     * A string value already broken into lines is offered a line break when there is nothing more specific:
+     * escape and schema completions are left as they are
      * @param items The basic completion items
-     * @param document The document
-     * @param position The position
      * @param stringRange The string range containing the position
      * @returns Enhanced completion items
      */
     private enhanceCompletionItemsForDecoratedArea(
         items: vscode.CompletionItem[],
-        document: vscode.TextDocument,
-        position: vscode.Position,
-        stringRange: any
+        stringRange: StructuredStringRange
     ): vscode.CompletionItem[] {
-        const enhancedItems = [...items];
+        if (items.length > 0 || stringRange.role !== 'value') {
+            return items;
+        }
 
-        // Add special completions for decorated string areas
-        enhancedItems.push(
+        return [
             this.createCompletionItem(
                 '\\n',
                 'Visual line break (will be displayed as actual line break)',
                 vscode.CompletionItemKind.Snippet,
                 'Creates a visual line break in the formatted display'
             )
-        );
-
-        // Mark items that need transformation
-        enhancedItems.forEach(item => {
-            if (item.insertText && typeof item.insertText === 'string' && item.insertText.includes('\n')) {
-                // Transform actual line breaks to escape sequences
-                item.insertText = item.insertText.replace(/\n/g, '\\n');
-                item.detail = (item.detail || '') + ' (transformed for JSON)';
-            }
-        });
-
-        return enhancedItems;
+        ];
     }
 
     /**
@@ -358,81 +414,198 @@ export class JsonFeatureIntegration {
     }
 
     /**
-     * Check if the cursor is in a string value
-     * @param beforeCursor Text before cursor
-     * @param afterCursor Text after cursor
-     * @returns True if in string value
+     * Register the commands behind the links of the string hover
+     * @param context The extension context
      */
-    private isInStringValue(beforeCursor: string, afterCursor: string): boolean {
-        // Simple heuristic: check if we're between quotes and after a colon
-        const hasOpenQuote = beforeCursor.lastIndexOf('"') > beforeCursor.lastIndexOf(':');
-        const hasCloseQuote = afterCursor.indexOf('"') !== -1;
-        return hasOpenQuote && hasCloseQuote;
+    public registerCommands(context: vscode.ExtensionContext): void {
+        const copyCommand = vscode.commands.registerCommand('json-newline-formatter.copyStringContent', async (uri?: string, offset?: number) => {
+            const target = this.findStringTarget(uri, offset);
+            if (!target) {
+                vscode.window.showWarningMessage('JSON Newline Formatter: Place the cursor inside a string to copy its content.');
+                return;
+            }
+            await vscode.env.clipboard.writeText(decodeJsonStringWithOffsets(target.stringRange.content).text);
+        });
+
+        const showMoreCommand = vscode.commands.registerCommand('json-newline-formatter.showMoreOfString', async (uri: string, offset: number) => {
+            await this.showMoreOfString(uri, offset);
+        });
+
+        context.subscriptions.push(copyCommand, showMoreCommand);
     }
 
     /**
-     * Check if the cursor is in a property name
-     * @param beforeCursor Text before cursor
-     * @param afterCursor Text after cursor
-     * @returns True if in property name
+     * Show the hover of a string again with its whole content
+     * @param uri The URI of the document
+     * @param offset Offset of the string
      */
-    private isInPropertyName(beforeCursor: string, afterCursor: string): boolean {
-        // Simple heuristic: check if we're between quotes and before a colon
-        const hasOpenQuote = beforeCursor.lastIndexOf('"') > beforeCursor.lastIndexOf(',');
-        const hasColonAfter = afterCursor.includes(':');
-        return hasOpenQuote && hasColonAfter;
+    public async showMoreOfString(uri: string, offset: number): Promise<void> {
+        this.expandedString = { uri, offset };
+        await vscode.commands.executeCommand('editor.action.showHover');
     }
 
     /**
-     * Provide hover information for decorated content
+     * Provide a hover for strings holding escape sequences, showing their content as it renders
+     * The hover lists the rendered size and JSON path of the string and links to copy it unescaped, edit it
+     * as multiline text or show it in the rendered strings view
      * @param document The document
      * @param position The position
      * @param token Cancellation token
      * @returns Hover information
      */
-    public provideHover(
+    public async provideHover(
         document: vscode.TextDocument,
         position: vscode.Position,
         token: vscode.CancellationToken
-    ): vscode.ProviderResult<vscode.Hover> {
-        if (token.isCancellationRequested) {
+    ): Promise<vscode.Hover | null> {
+        if (token.isCancellationRequested || !await this.jsonDetector.indexProgressively(document, token)) {
             return null;
         }
 
         try {
-            // Check if we're hovering over a decoration
-            const decoration = this.decorationManager.getDecorationAtPosition(position);
-            
-            if (decoration) {
-                const hoverText = new vscode.MarkdownString();
-                hoverText.appendMarkdown('**JSON Newline Formatter**\n\n');
-                hoverText.appendMarkdown('This `\\n` escape sequence is displayed as a visual line break.\n\n');
-                hoverText.appendMarkdown('- **Actual content**: `\\n` escape sequence\n');
-                hoverText.appendMarkdown('- **Visual display**: Line break\n');
-                hoverText.appendMarkdown('- **Editing**: Type normally, line breaks will be converted to `\\n`');
-
-                return new vscode.Hover(hoverText, decoration.range);
+            const stringRange = this.jsonDetector.getStructuredStringRangeAtPosition(document, position);
+            if (!stringRange || !stringRange.content.includes('\\')) {
+                return null;
             }
 
-            // Check if we're in a decorated string area
-            const stringRange = this.jsonDetector.getStringRangeAtPosition(document, position);
-            if (stringRange && stringRange.hasNewlines) {
-                const hoverText = new vscode.MarkdownString();
-                hoverText.appendMarkdown('**Formatted JSON String**\n\n');
-                hoverText.appendMarkdown('This string contains `\\n` escape sequences that are displayed as visual line breaks.\n\n');
-                hoverText.appendMarkdown('You can edit this content naturally - line breaks will be automatically converted to escape sequences.');
+            const offset = document.offsetAt(stringRange.start);
+            const isExpanded = this.expandedString?.uri === document.uri.toString() && this.expandedString.offset === offset;
+            if (!isExpanded) {
+                this.expandedString = null;
+            }
 
-                const range = new vscode.Range(stringRange.start, stringRange.end);
-                return new vscode.Hover(hoverText, range);
+            const hoverText = this.createStringHover(document, stringRange, isExpanded);
+
+            // Say how the escape under the pointer is displayed
+            const decoration = this.decorationManager.getDecorationAtPosition(position, document);
+            if (decoration && !decoration.isLineBreak) {
+                hoverText.appendMarkdown(`\n\n---\n\n\`${document.getText(decoration.range)}\` is displayed as \`${decoration.renderText}\`; the file keeps the escape sequence.`);
             }
 
-            return null;
+            return new vscode.Hover(hoverText, decoration?.range ?? new vscode.Range(stringRange.start, stringRange.end));
         } catch (error) {
             console.warn('JsonFeatureIntegration: Error providing hover information', error);
             return null;
         }
     }
 
+    /**
+     * Measure a string as it renders: line breaks are `\n` and `\r\n`
+     * @param text The decoded content of the string
+     * @returns The metrics
+     */
+    public measureRenderedString(text: string): RenderedStringMetrics {
+        const lines = text.split(/\r\n|\n/);
+        return {
+            lineCount: lines.length,
+            longestLine: lines.reduce((longest, line) => Math.max(longest, this.countCharacters(line)), 0),
+            characters: this.countCharacters(text),
+            utf8Bytes: Buffer.byteLength(text, 'utf8')
+        };
+    }
+
+    /**
+     * Build the hover of a string
+     * @param document The document
+     * @param stringRange The string
+     * @param isExpanded Whether to show the whole content instead of its first lines
+     * @returns The hover text
+     */
+    private createStringHover(document: vscode.TextDocument, stringRange: StructuredStringRange, isExpanded: boolean): vscode.MarkdownString {
+        const text = decodeJsonStringWithOffsets(stringRange.content).text;
+        const metrics = this.measureRenderedString(text);
+        const preview = this.truncateRenderedString(text, isExpanded);
+        const args = [document.uri.toString(), document.offsetAt(stringRange.start)];
+        const link = (label: string, command: string) => `[${label}](command:${command}?${encodeURIComponent(JSON.stringify(args))})`;
+        const plural = (count: number, noun: string) => `${count.toLocaleString()} ${noun}${count === 1 ? '' : 's'}`;
+
+        const hoverText = new vscode.MarkdownString();
+        hoverText.isTrusted = { enabledCommands: HOVER_COMMANDS };
+        hoverText.appendMarkdown(`**JSON Newline Formatter** \u00b7 ${stringRange.role === 'key' ? 'property name' : 'string'} at `);
+        hoverText.appendMarkdown(this.toInlineCode(formatJsonPath(stringRange.path)) + '\n\n');
+
+        const fence = '`'.repeat(Math.max(3, ...Array.from(preview.text.matchAll(/`+/g), match => match[0].length + 1)));
+        hoverText.appendMarkdown(`${fence}text\n${preview.text}\n${fence}\n\n`);
+        if (preview.isTruncated) {
+            hoverText.appendMarkdown(isExpanded
+                ? `Showing the first ${plural(HOVER_EXPANDED_CHARACTERS, 'character')}; ${link('open in side panel', 'json-newline-formatter.openRenderedView')} to see the rest\n\n`
+                : `${link('Show more', 'json-newline-formatter.showMoreOfString')}\n\n`);
+        }
+
+        hoverText.appendMarkdown([
+            plural(metrics.lineCount, 'line'),
+            `longest line ${plural(metrics.longestLine, 'character')}`,
+            plural(metrics.characters, 'character'),
+            `${plural(metrics.utf8Bytes, 'byte')} in UTF-8`
+        ].join(' \u00b7 ') + '\n\n');
+
+        hoverText.appendMarkdown([
+            link('Copy unescaped', 'json-newline-formatter.copyStringContent'),
+            link('Edit as multiline', 'json-newline-formatter.editStringAsMultiline'),
+            link('Open in side panel', 'json-newline-formatter.openRenderedView')
+        ].join(' \u00b7 '));
+
+        return hoverText;
+    }
+
+    /**
+     * Cut the content of a string down to what the hover shows
+     * @param text The decoded content
+     * @param isExpanded Whether the whole content was asked for
+     * @returns The text to show, and whether anything was left out
+     */
+    private truncateRenderedString(text: string, isExpanded: boolean): { text: string; isTruncated: boolean } {
+        const maxCharacters = isExpanded ? HOVER_EXPANDED_CHARACTERS : HOVER_PREVIEW_CHARACTERS;
+        let shown = text.split(/\r\n|\n/).slice(0, isExpanded ? undefined : HOVER_PREVIEW_LINES).join('\n');
+        if (shown.length > maxCharacters) {
+            // Don't cut a surrogate pair in half
+            const end = /[\ud800-\udbff]/.test(shown[maxCharacters - 1]) ? maxCharacters - 1 : maxCharacters;
+            shown = shown.substring(0, end);
+        }
+
+        const isTruncated = shown.length < text.replace(/\r\n/g, '\n').length;
+        return { text: isTruncated ? shown + '\u2026' : shown, isTruncated };
+    }
+
+    /**
+     * Count characters, reading a surrogate pair as one character
+     * @param text The text
+     * @returns The number of characters
+     */
+    private countCharacters(text: string): number {
+        return text.length - (text.match(/[\ud800-\udbff][\udc00-\udfff]/g)?.length ?? 0);
+    }
+
+    /**
+     * Write text as inline code, fenced with enough backticks for the text it holds
+     * @param text The text
+     * @returns The Markdown
+     */
+    private toInlineCode(text: string): string {
+        const fence = '`'.repeat(Math.max(1, ...Array.from(text.matchAll(/`+/g), match => match[0].length + 1)));
+        return `${fence} ${text} ${fence}`;
+    }
+
+    /**
+     * Find the string a hover link or the cursor points at
+     * @param uri The URI of the document passed by a hover link, or undefined to use the active editor
+     * @param offset Offset of the string in that document
+     * @returns The document and the string, or null if there is none
+     */
+    private findStringTarget(uri?: string, offset?: number): { document: vscode.TextDocument; stringRange: StructuredStringRange } | null {
+        const editor = vscode.window.activeTextEditor;
+        const document = uri !== undefined
+            ? vscode.workspace.textDocuments.find(candidate => candidate.uri.toString() === uri)
+            : editor?.document;
+        if (!document) {
+            return null;
+        }
+
+        const position = offset !== undefined ? document.positionAt(offset) : editor?.document === document ? editor.selection.active : undefined;
+        const stringRange = position && this.jsonDetector.getStructuredStringRangeAtPosition(document, position);
+        return stringRange ? { document, stringRange } : null;
+    }
+
     /**
      * Validate that JSON schema validation still works with decorations
      * @param document The document to validate
@@ -448,10 +621,6 @@ export class JsonFeatureIntegration {
             const content = document.getText();
             JSON.parse(content);
 
-            // Check if decorations might interfere with schema validation
-            const decorationState = this.decorationManager.getDecorationState();
-            const hasActiveDecorations = decorationState.decorations.some(d => d.isActive);
-
             return {
                 isValid: true,
                 errors: [],
@@ -477,29 +646,13 @@ export class JsonFeatureIntegration {
         interferenceDetected: boolean;
     } {
         const foldingRanges = this.getDefaultJsonFoldingRanges(document);
-        const decorationState = this.decorationManager.getDecorationState();
-        
-        // Check for interference between folding and decorations
-        let interferenceDetected = false;
-        
-        for (const range of foldingRanges) {
-            const rangeStart = new vscode.Position(range.start, 0);
-            const rangeEnd = new vscode.Position(range.end, Number.MAX_SAFE_INTEGER);
-            const vscodeRange = new vscode.Range(rangeStart, rangeEnd);
-            
-            const decorationsInRange = this.decorationManager.getDecorationsInRange(vscodeRange);
-            
-            // Decorations shouldn't interfere with folding since they don't modify structure
-            // This is more of a sanity check
-            if (decorationsInRange.length > 0) {
-                // This is expected and not interference
-            }
-        }
+        const decorationState = this.decorationManager.getDecorationState(document);
 
         return {
             foldingRangesCount: foldingRanges.length,
             decoratedRangesCount: decorationState.decorations.length,
-            interferenceDetected
+            // Decorations cover single escape sequences and never change the text, so no fold can split one
+            interferenceDetected: false
         };
     }
 
@@ -507,6 +660,7 @@ export class JsonFeatureIntegration {
      * Dispose of resources
      */
     public dispose(): void {
+        this.schemaStore.dispose();
         this.disposables.forEach(disposable => disposable.dispose());
         this.disposables = [];
     }
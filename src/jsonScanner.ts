@@ -0,0 +1,731 @@
+/**
+ * Error types for JSON parsing failures
+ */
+export enum JsonParsingError {
+    SYNTAX_ERROR = 'syntax_error',
+    UNEXPECTED_TOKEN = 'unexpected_token',
+    UNEXPECTED_END = 'unexpected_end',
+    UNTERMINATED_STRING = 'unterminated_string',
+    INVALID_ESCAPE_SEQUENCE = 'invalid_escape_sequence',
+    UNKNOWN_ERROR = 'unknown_error'
+}
+
+/**
+ * Kinds of tokens produced by the scanner
+ */
+export type JsonTokenKind =
+    | 'openBrace'
+    | 'closeBrace'
+    | 'openBracket'
+    | 'closeBracket'
+    | 'colon'
+    | 'comma'
+    | 'string'
+    | 'number'
+    | 'literal'
+    | 'lineComment'
+    | 'blockComment'
+    | 'invalid';
+
+/**
+ * A single token of JSON or JSONC text, expressed as character offsets
+ */
+export interface JsonToken {
+    kind: JsonTokenKind;
+    offset: number;
+    length: number;
+    unterminated?: boolean;
+    /** Offsets of real \n escape sequences in a string token, relative to the token start */
+    newlineOffsets?: number[];
+    /** Offsets of every valid escape sequence in a string token, relative to the token start */
+    escapeOffsets?: number[];
+}
+
+/**
+ * A syntax error found while scanning, with the exact offset it applies to
+ */
+export interface JsonScanError {
+    kind: JsonParsingError;
+    message: string;
+    offset: number;
+    length: number;
+}
+
+/**
+ * Dialect options for the scanner
+ */
+export interface JsonScanOptions {
+    allowComments: boolean;
+    allowTrailingCommas: boolean;
+}
+
+/**
+ * A span of text, expressed as character offsets
+ */
+export interface JsonTextRegion {
+    offset: number;
+    length: number;
+}
+
+/**
+ * Result of scanning a whole document
+ */
+export interface JsonScanResult {
+    tokens: JsonToken[];
+    errors: JsonScanError[];
+    errorRegions: JsonTextRegion[];
+}
+
+/**
+ * Scanner options for strict JSON
+ */
+export const STRICT_JSON_OPTIONS: JsonScanOptions = {
+    allowComments: false,
+    allowTrailingCommas: false
+};
+
+/**
+ * Scanner options for JSON with comments (tsconfig, VS Code settings, devcontainer.json)
+ */
+export const JSONC_OPTIONS: JsonScanOptions = {
+    allowComments: true,
+    allowTrailingCommas: true
+};
+
+/**
+ * Number of tokens between validator checkpoints
+ */
+export const VALIDATOR_CHECKPOINT_INTERVAL = 1024;
+
+const VALID_ESCAPE_CHARACTERS = '"\\/bfnrtu';
+const LITERALS = ['true', 'false', 'null'];
+
+/**
+ * Tolerant tokenizer for JSON and JSONC text
+ * Never throws: every problem is reported as a JsonScanError with a precise offset,
+ * and comments are recognized before strings so quotes inside them are never treated as strings.
+ * Strings cannot span lines, so a broken literal only disturbs tokenization up to the end of its
+ * line and everything after it is scanned normally (recovery mode)
+ */
+export class JsonScanner {
+    private options: JsonScanOptions;
+
+    constructor(options: Partial<JsonScanOptions> = {}) {
+        this.options = { ...STRICT_JSON_OPTIONS, ...options };
+    }
+
+    /**
+     * Tokenize the text and validate its structure
+     * @param text The JSON or JSONC text
+     * @returns The tokens, all syntax errors ordered by offset, and the regions they make untrustworthy
+     */
+    public scan(text: string): JsonScanResult {
+        const errors: JsonScanError[] = [];
+        const tokens = this.tokenize(text, errors);
+        return this.validate(text, tokens, errors);
+    }
+
+    /**
+     * Validate the structure of an already tokenized text
+     * @param text The text the tokens were produced from
+     * @param tokens The tokens to validate
+     * @param lexicalErrors Errors already reported while tokenizing
+     * @param checkpoints Collector for the validator state at regular token intervals, so later
+     * changes can be re-validated from the nearest checkpoint
+     * @returns The scan result combining lexical and structural errors
+     */
+    public validate(text: string, tokens: JsonToken[], lexicalErrors: JsonScanError[], checkpoints?: ValidatorCheckpoint[]): JsonScanResult {
+        const errors = [...lexicalErrors];
+
+        const validator = this.createValidator(text, errors);
+        for (let i = 0; i < tokens.length; i++) {
+            if (checkpoints && i % VALIDATOR_CHECKPOINT_INTERVAL === 0) {
+                checkpoints.push({ tokenIndex: i, state: validator.saveState() });
+            }
+            validator.feed(tokens[i]);
+        }
+        validator.finish();
+
+        errors.sort((a, b) => a.offset - b.offset);
+        return { tokens, errors, errorRegions: this.computeErrorRegions(text, tokens, errors) };
+    }
+
+    /**
+     * Create a structure validator using the scanner's dialect
+     * @param text The text the validated tokens come from
+     * @param errors Collector for structural errors
+     * @returns A validator in its initial state
+     */
+    public createValidator(text: string, errors: JsonScanError[]): JsonStructureValidator {
+        return new JsonStructureValidator(text, this.options, errors);
+    }
+
+    /**
+     * Compute the regions of text affected by errors
+     * A malformed token may have flipped which quotes open and close strings, so the whole
+     * line it sits on is untrustworthy; other errors only cover their own span
+     * @param text The scanned text
+     * @param tokens The tokens produced for the text
+     * @param errors The errors reported for the text
+     * @returns Sorted, non-overlapping error regions
+     */
+    private computeErrorRegions(text: string, tokens: JsonToken[], errors: JsonScanError[]): JsonTextRegion[] {
+        if (errors.length === 0) {
+            return [];
+        }
+
+        const regions: JsonTextRegion[] = errors.map(error => ({ offset: error.offset, length: error.length }));
+
+        for (const token of tokens) {
+            if (token.kind === 'invalid' || (token.kind === 'string' && token.unterminated)) {
+                const lineStart = Math.max(text.lastIndexOf('\n', token.offset - 1), text.lastIndexOf('\r', token.offset - 1)) + 1;
+                let lineEnd = token.offset + token.length;
+                while (lineEnd < text.length && text[lineEnd] !== '\n' && text[lineEnd] !== '\r') {
+                    lineEnd++;
+                }
+                regions.push({ offset: lineStart, length: lineEnd - lineStart });
+            }
+        }
+
+        regions.sort((a, b) => a.offset - b.offset);
+
+        const merged: JsonTextRegion[] = [];
+        for (const region of regions) {
+            const last = merged[merged.length - 1];
+            if (last && region.offset <= last.offset + last.length) {
+                last.length = Math.max(last.length, region.offset + region.length - last.offset);
+            } else {
+                merged.push({ ...region });
+            }
+        }
+
+        return merged;
+    }
+
+    /**
+     * Split the text into tokens
+     * @param text The JSON or JSONC text
+     * @param errors Collector for lexical errors
+     * @returns Array of tokens, including comments
+     */
+    public tokenize(text: string, errors: JsonScanError[]): JsonToken[] {
+        return this.tokenizeFrom(text, 0, errors, () => false).tokens;
+    }
+
+    /**
+     * Move a lexical error to a new offset, keeping its message in sync
+     * @param error The error to move
+     * @param offset The new offset of the error
+     */
+    public relocateError(error: JsonScanError, offset: number): void {
+        error.message = error.message.replace(/position \d+(\)?)$/, `position ${offset}$1`);
+        error.offset = offset;
+    }
+
+    /**
+     * Tokenize from an offset until a token boundary accepted by the sync predicate is reached
+     * The lexer carries no state between tokens, so resuming at any token boundary is safe
+     * @param text The JSON or JSONC text
+     * @param start The offset to resume at (must not be inside a token)
+     * @param errors Collector for lexical errors
+     * @param isSyncPoint Predicate telling whether scanning can stop at a token start
+     * @returns The tokens scanned and the offset scanning stopped at
+     */
+    public tokenizeFrom(
+        text: string,
+        start: number,
+        errors: JsonScanError[],
+        isSyncPoint: (offset: number) => boolean
+    ): { tokens: JsonToken[]; end: number } {
+        const tokens: JsonToken[] = [];
+        let i = this.skipWhitespace(text, start);
+
+        while (i < text.length && !isSyncPoint(i)) {
+            const token = this.scanToken(text, i, errors);
+            if (!token) {
+                i = this.skipWhitespace(text, i);
+                continue;
+            }
+            tokens.push(token);
+            i = this.skipWhitespace(text, token.offset + token.length);
+        }
+
+        return { tokens, end: i };
+    }
+
+    /**
+     * Scan the token starting at the given offset
+     * @param text The text being scanned
+     * @param start The offset to start scanning at
+     * @param errors Collector for lexical errors
+     * @returns The token, or null if the offset is whitespace
+     */
+    public scanToken(text: string, start: number, errors: JsonScanError[]): JsonToken | null {
+        const char = text[start];
+
+        switch (char) {
+            case ' ':
+            case '\t':
+            case '\n':
+            case '\r':
+            case '\uFEFF':
+                return null;
+            case '{':
+                return { kind: 'openBrace', offset: start, length: 1 };
+            case '}':
+                return { kind: 'closeBrace', offset: start, length: 1 };
+            case '[':
+                return { kind: 'openBracket', offset: start, length: 1 };
+            case ']':
+                return { kind: 'closeBracket', offset: start, length: 1 };
+            case ':':
+                return { kind: 'colon', offset: start, length: 1 };
+            case ',':
+                return { kind: 'comma', offset: start, length: 1 };
+            case '"':
+                return this.scanString(text, start, errors);
+            case '/':
+                return this.scanComment(text, start, errors);
+        }
+
+        if (char === '-' || (char >= '0' && char <= '9')) {
+            return this.scanNumber(text, start, errors);
+        }
+
+        return this.scanWord(text, start, errors);
+    }
+
+    /**
+     * Skip over whitespace
+     * @param text The text being scanned
+     * @param start The offset of the first whitespace character
+     * @returns The offset of the next non-whitespace character
+     */
+    private skipWhitespace(text: string, start: number): number {
+        let i = start;
+        while (i < text.length && ' \t\n\r\uFEFF'.includes(text[i])) {
+            i++;
+        }
+        return i;
+    }
+
+    /**
+     * Scan a string literal, stopping at the closing quote or the end of the line
+     * @param text The text being scanned
+     * @param start The offset of the opening quote
+     * @param errors Collector for lexical errors
+     * @returns The string token
+     */
+    private scanString(text: string, start: number, errors: JsonScanError[]): JsonToken {
+        const newlineOffsets: number[] = [];
+        const escapeOffsets: number[] = [];
+        let i = start + 1;
+
+        while (i < text.length) {
+            const char = text[i];
+
+            if (char === '"') {
+                const token: JsonToken = { kind: 'string', offset: start, length: i + 1 - start };
+                if (newlineOffsets.length > 0) {
+                    token.newlineOffsets = newlineOffsets;
+                }
+                if (escapeOffsets.length > 0) {
+                    token.escapeOffsets = escapeOffsets;
+                }
+                return token;
+            }
+
+            if (char === '\n' || char === '\r') {
+                break;
+            }
+
+            if (char === '\\') {
+                const next = text[i + 1];
+                if (next === undefined || next === '\n' || next === '\r') {
+                    i++;
+                    break;
+                }
+                if (!VALID_ESCAPE_CHARACTERS.includes(next)) {
+                    errors.push({
+                        kind: JsonParsingError.INVALID_ESCAPE_SEQUENCE,
+                        message: `Invalid escape sequence '\\${next}' at position ${i}`,
+                        offset: i,
+                        length: 2
+                    });
+                    i += 2;
+                } else if (next === 'u') {
+                    const hex = text.substring(i + 2, i + 6);
+                    if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+                        errors.push({
+                            kind: JsonParsingError.INVALID_ESCAPE_SEQUENCE,
+                            message: `Invalid unicode escape sequence at position ${i}`,
+                            offset: i,
+                            length: 2
+                        });
+                        i += 2;
+                    } else {
+                        escapeOffsets.push(i - start);
+                        i += 6;
+                    }
+                } else {
+                    if (next === 'n') {
+                        newlineOffsets.push(i - start);
+                    }
+                    escapeOffsets.push(i - start);
+                    i += 2;
+                }
+                continue;
+            }
+
+            if (char < ' ') {
+                errors.push({
+                    kind: JsonParsingError.SYNTAX_ERROR,
+                    message: `Bad control character in string literal at position ${i}`,
+                    offset: i,
+                    length: 1
+                });
+            }
+            i++;
+        }
+
+        errors.push({
+            kind: JsonParsingError.UNTERMINATED_STRING,
+            message: `Unterminated string at position ${start}`,
+            offset: start,
+            length: i - start
+        });
+        return { kind: 'string', offset: start, length: i - start, unterminated: true };
+    }
+
+    /**
+     * Scan a line or block comment
+     * @param text The text being scanned
+     * @param start The offset of the leading slash
+     * @param errors Collector for lexical errors
+     * @returns The comment token, or an invalid token for a stray slash
+     */
+    private scanComment(text: string, start: number, errors: JsonScanError[]): JsonToken {
+        const next = text[start + 1];
+        let token: JsonToken;
+
+        if (next === '/') {
+            let end = start + 2;
+            while (end < text.length && text[end] !== '\n' && text[end] !== '\r') {
+                end++;
+            }
+            token = { kind: 'lineComment', offset: start, length: end - start };
+        } else if (next === '*') {
+            const close = text.indexOf('*/', start + 2);
+            if (close === -1) {
+                errors.push({
+                    kind: JsonParsingError.SYNTAX_ERROR,
+                    message: `Unterminated comment at position ${start}`,
+                    offset: start,
+                    length: text.length - start
+                });
+                token = { kind: 'blockComment', offset: start, length: text.length - start, unterminated: true };
+            } else {
+                token = { kind: 'blockComment', offset: start, length: close + 2 - start };
+            }
+        } else {
+            return this.scanWord(text, start, errors);
+        }
+
+        if (!this.options.allowComments) {
+            errors.push({
+                kind: JsonParsingError.SYNTAX_ERROR,
+                message: `Comments are not permitted in JSON (position ${start})`,
+                offset: start,
+                length: token.length
+            });
+        }
+
+        return token;
+    }
+
+    /**
+     * Scan a number literal following the JSON number grammar
+     * @param text The text being scanned
+     * @param start The offset of the first character
+     * @param errors Collector for lexical errors
+     * @returns The number token, or an invalid token if the grammar is not matched
+     */
+    private scanNumber(text: string, start: number, errors: JsonScanError[]): JsonToken {
+        const match = /-?(?:0|[1-9][0-9]*)(?:\.[0-9]+)?(?:[eE][+-]?[0-9]+)?/y;
+        match.lastIndex = start;
+        const result = match.exec(text);
+        const end = result ? start + result[0].length : start;
+        const wordEnd = this.findWordEnd(text, start);
+
+        if (!result || result[0].length === 0 || wordEnd > end) {
+            return this.createInvalidToken(text, start, wordEnd, errors);
+        }
+
+        return { kind: 'number', offset: start, length: end - start };
+    }
+
+    /**
+     * Scan a bare word, which must be one of the JSON literals
+     * @param text The text being scanned
+     * @param start The offset of the first character
+     * @param errors Collector for lexical errors
+     * @returns The literal token, or an invalid token
+     */
+    private scanWord(text: string, start: number, errors: JsonScanError[]): JsonToken {
+        const end = this.findWordEnd(text, start);
+        const word = text.substring(start, end);
+
+        if (LITERALS.includes(word)) {
+            return { kind: 'literal', offset: start, length: end - start };
+        }
+
+        return this.createInvalidToken(text, start, end, errors);
+    }
+
+    /**
+     * Find where a bare word ends
+     * @param text The text being scanned
+     * @param start The offset of the first character
+     * @returns The offset just past the word (always at least start + 1)
+     */
+    private findWordEnd(text: string, start: number): number {
+        let end = start + 1;
+        while (end < text.length && !' \t\n\r\uFEFF{}[]:,"/'.includes(text[end])) {
+            end++;
+        }
+        return end;
+    }
+
+    /**
+     * Create an invalid token and record the matching error
+     */
+    private createInvalidToken(text: string, start: number, end: number, errors: JsonScanError[]): JsonToken {
+        errors.push({
+            kind: JsonParsingError.UNEXPECTED_TOKEN,
+            message: `Unexpected token '${text.substring(start, Math.min(end, start + 20))}' at position ${start}`,
+            offset: start,
+            length: end - start
+        });
+        return { kind: 'invalid', offset: start, length: end - start };
+    }
+}
+
+/**
+ * Parser states for the structure validator
+ */
+type ValidatorState = 'root' | 'firstValue' | 'value' | 'firstKey' | 'key' | 'colon' | 'afterValue' | 'end';
+
+/**
+ * Saved state of a structure validator that has not failed
+ */
+export interface ValidatorSnapshot {
+    state: ValidatorState;
+    stack: ('object' | 'array')[];
+}
+
+/**
+ * Validator state before a given token
+ */
+export interface ValidatorCheckpoint {
+    tokenIndex: number;
+    state: ValidatorSnapshot;
+}
+
+/**
+ * Incremental validator for the token stream
+ * Consumes one token at a time using an explicit container stack, so arbitrarily deep
+ * documents never overflow the call stack
+ */
+export class JsonStructureValidator {
+    private state: ValidatorState = 'root';
+    private stack: ('object' | 'array')[] = [];
+    private failed = false;
+
+    constructor(
+        private text: string,
+        private options: JsonScanOptions,
+        private errors: JsonScanError[]
+    ) {}
+
+    /**
+     * Consume the next token
+     * @param token The token to validate
+     */
+    public feed(token: JsonToken): void {
+        if (this.failed || token.kind === 'lineComment' || token.kind === 'blockComment') {
+            return;
+        }
+
+        // Lexical errors have already been reported for invalid tokens and unterminated strings
+        if (token.kind === 'invalid' || token.unterminated) {
+            this.failed = true;
+            return;
+        }
+
+        switch (this.state) {
+            case 'root':
+            case 'firstValue':
+            case 'value':
+                this.expectValue(token);
+                break;
+            case 'firstKey':
+            case 'key':
+                this.expectKey(token);
+                break;
+            case 'colon':
+                if (token.kind === 'colon') {
+                    this.state = 'value';
+                } else {
+                    this.fail(token, `Expected ':'`);
+                }
+                break;
+            case 'afterValue':
+                this.expectSeparator(token);
+                break;
+            case 'end':
+                this.fail(token);
+                break;
+        }
+    }
+
+    /**
+     * Whether an error has been reported; later tokens are ignored once it has
+     */
+    public get hasFailed(): boolean {
+        return this.failed;
+    }
+
+    /**
+     * Save the current state so validation can later resume from this point
+     * @returns A copy of the state
+     */
+    public saveState(): ValidatorSnapshot {
+        return { state: this.state, stack: [...this.stack] };
+    }
+
+    /**
+     * Resume from a saved state
+     * @param snapshot The state to resume from
+     */
+    public restoreState(snapshot: ValidatorSnapshot): void {
+        this.state = snapshot.state;
+        this.stack = [...snapshot.stack];
+        this.failed = false;
+    }
+
+    /**
+     * Check whether the validator is in a saved state, in which case the same tokens lead to the same outcome
+     * @param snapshot The saved state
+     * @returns True if the states are equal
+     */
+    public isInState(snapshot: ValidatorSnapshot): boolean {
+        return !this.failed && this.state === snapshot.state && this.stack.length === snapshot.stack.length &&
+            this.stack.every((container, i) => container === snapshot.stack[i]);
+    }
+
+    /**
+     * Signal the end of input, reporting an error if the document is incomplete
+     */
+    public finish(): void {
+        if (this.failed || this.state === 'end') {
+            return;
+        }
+
+        this.failed = true;
+        this.errors.push({
+            kind: JsonParsingError.UNEXPECTED_END,
+            message: 'Unexpected end of JSON input',
+            offset: this.text.length,
+            length: 0
+        });
+    }
+
+    private expectValue(token: JsonToken): void {
+        switch (token.kind) {
+            case 'openBrace':
+                this.stack.push('object');
+                this.state = 'firstKey';
+                return;
+            case 'openBracket':
+                this.stack.push('array');
+                this.state = 'firstValue';
+                return;
+            case 'string':
+            case 'number':
+            case 'literal':
+                this.completeValue();
+                return;
+            case 'closeBracket':
+                if (this.state === 'firstValue') {
+                    this.closeContainer();
+                    return;
+                }
+                if (this.state === 'value' && this.isTopOfStack('array')) {
+                    this.closeAfterTrailingComma(token);
+                    return;
+                }
+                break;
+        }
+
+        this.fail(token);
+    }
+
+    private expectKey(token: JsonToken): void {
+        if (token.kind === 'string') {
+            this.state = 'colon';
+        } else if (token.kind === 'closeBrace' && this.state === 'firstKey') {
+            this.closeContainer();
+        } else if (token.kind === 'closeBrace') {
+            this.closeAfterTrailingComma(token);
+        } else {
+            this.fail(token, 'Expected property name');
+        }
+    }
+
+    private expectSeparator(token: JsonToken): void {
+        const container = this.stack[this.stack.length - 1];
+
+        if (token.kind === 'comma') {
+            this.state = container === 'object' ? 'key' : 'value';
+        } else if ((token.kind === 'closeBrace' && container === 'object') ||
+            (token.kind === 'closeBracket' && container === 'array')) {
+            this.closeContainer();
+        } else {
+            this.fail(token);
+        }
+    }
+
+    private closeAfterTrailingComma(token: JsonToken): void {
+        if (!this.options.allowTrailingCommas) {
+            this.fail(token, 'Trailing comma');
+            return;
+        }
+        this.closeContainer();
+    }
+
+    private closeContainer(): void {
+        this.stack.pop();
+        this.completeValue();
+    }
+
+    private completeValue(): void {
+        this.state = this.stack.length === 0 ? 'end' : 'afterValue';
+    }
+
+    private isTopOfStack(container: 'object' | 'array'): boolean {
+        return this.stack[this.stack.length - 1] === container;
+    }
+
+    private fail(token: JsonToken, reason?: string): void {
+        const tokenText = this.text.substring(token.offset, token.offset + Math.min(token.length, 20));
+        const message = `Unexpected token '${tokenText}' at position ${token.offset}`;
+
+        this.failed = true;
+        this.errors.push({
+            kind: JsonParsingError.UNEXPECTED_TOKEN,
+            message: reason ? `${message}: ${reason}` : message,
+            offset: token.offset,
+            length: token.length
+        });
+    }
+}
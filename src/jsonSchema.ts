@@ -0,0 +1,459 @@
+import * as vscode from 'vscode';
+import { JsonPathSegment } from './jsonStructure';
+import { JsonStringDetector } from './jsonStringDetector';
+import { unescapeJsonString } from './jsonEscapes';
+import { JsonScanner, JSONC_OPTIONS } from './jsonScanner';
+
+/**
+ * The parts of a JSON schema used for completion
+ */
+export interface JsonSchema {
+    $ref?: string;
+    type?: string | string[];
+    description?: string;
+    markdownDescription?: string;
+    properties?: { [name: string]: JsonSchemaDefinition };
+    patternProperties?: { [pattern: string]: JsonSchemaDefinition };
+    additionalProperties?: JsonSchemaDefinition;
+    items?: JsonSchemaDefinition | JsonSchemaDefinition[];
+    prefixItems?: JsonSchemaDefinition[];
+    additionalItems?: JsonSchemaDefinition;
+    enum?: unknown[];
+    /** Descriptions of the enum values, in the same order (a VS Code extension to JSON schema) */
+    enumDescriptions?: string[];
+    const?: unknown;
+    default?: unknown;
+    allOf?: JsonSchemaDefinition[];
+    anyOf?: JsonSchemaDefinition[];
+    oneOf?: JsonSchemaDefinition[];
+    definitions?: { [name: string]: JsonSchemaDefinition };
+    $defs?: { [name: string]: JsonSchemaDefinition };
+    deprecationMessage?: string;
+}
+
+/**
+ * A schema, or `true` / `false` for a schema accepting anything / nothing
+ */
+export type JsonSchemaDefinition = JsonSchema | boolean;
+
+/**
+ * A property a schema allows, with the schema of its value
+ */
+export interface SchemaProperty {
+    name: string;
+    schema: JsonSchema;
+}
+
+/**
+ * A value a schema suggests
+ */
+export interface SchemaValue {
+    value: unknown;
+    /** Where the suggestion comes from; a value that is both an enum member and the default is `default` */
+    source: 'enum' | 'const' | 'default' | 'boolean';
+    description?: string;
+}
+
+/**
+ * An entry of the `json.schemas` setting
+ */
+interface SchemaAssociation {
+    fileMatch?: string[];
+    url?: string;
+    schema?: JsonSchema;
+}
+
+/**
+ * Find the schemas that apply to the value at a path
+ * `$ref`s into the same schema are followed and `allOf`, `anyOf` and `oneOf` branches are all included,
+ * since completion cannot tell yet which branch the value will match
+ * @param root The schema of the whole document
+ * @param path The path of the value
+ * @returns The schemas, without duplicates; empty if the path leaves the schema
+ */
+export function getSchemasAtPath(root: JsonSchema, path: readonly JsonPathSegment[]): JsonSchema[] {
+    let schemas = expandSchema(root, root);
+
+    for (const segment of path) {
+        const children: JsonSchemaDefinition[] = [];
+        for (const schema of schemas) {
+            children.push(...getChildSchemas(schema, segment));
+        }
+        schemas = dedupe(children.flatMap(child => expandSchema(child, root)));
+    }
+
+    return schemas;
+}
+
+/**
+ * List the properties the schemas of an object declare
+ * @param schemas The schemas of the object
+ * @returns The properties in declaration order; a name declared twice keeps its first schema
+ */
+export function getSchemaProperties(schemas: readonly JsonSchema[]): SchemaProperty[] {
+    const properties = new Map<string, JsonSchema>();
+
+    for (const schema of schemas) {
+        for (const [name, definition] of Object.entries(schema.properties ?? {})) {
+            if (!properties.has(name) && definition !== false) {
+                properties.set(name, definition === true ? {} : definition);
+            }
+        }
+    }
+
+    return Array.from(properties, ([name, schema]) => ({ name, schema }));
+}
+
+/**
+ * List the values the schemas of a value suggest: enum members, constants, defaults and the two booleans
+ * @param schemas The schemas of the value
+ * @returns The values without duplicates, defaults first
+ */
+export function getSchemaValues(schemas: readonly JsonSchema[]): SchemaValue[] {
+    const values = new Map<string, SchemaValue>();
+    const add = (value: unknown, source: SchemaValue['source'], description?: string) => {
+        const key = JSON.stringify(value);
+        if (key !== undefined && !values.has(key)) {
+            values.set(key, { value, source, description });
+        }
+    };
+
+    for (const schema of schemas) {
+        if (schema.default !== undefined) {
+            const index = schema.enum?.findIndex(value => JSON.stringify(value) === JSON.stringify(schema.default)) ?? -1;
+            add(schema.default, 'default', index >= 0 ? schema.enumDescriptions?.[index] : undefined);
+        }
+    }
+    for (const schema of schemas) {
+        if (schema.const !== undefined) {
+            add(schema.const, 'const', schema.description);
+        }
+        schema.enum?.forEach((value, index) => add(value, 'enum', schema.enumDescriptions?.[index]));
+        if (schema.type === 'boolean' || (Array.isArray(schema.type) && schema.type.includes('boolean'))) {
+            add(true, 'boolean');
+            add(false, 'boolean');
+        }
+    }
+
+    return Array.from(values.values());
+}
+
+/**
+ * Check whether a file path matches the `fileMatch` patterns of a schema association
+ * Patterns are globs where `*` stays within a path segment and `**` crosses segments; patterns not starting
+ * with `/` may match at any depth, and patterns starting with `!` exclude
+ * @param patterns The patterns
+ * @param path The path of the file, with forward slashes
+ * @returns True if a pattern matches and no exclusion does
+ */
+export function matchesFileMatch(patterns: readonly string[], path: string): boolean {
+    const matches = (pattern: string) => globToRegExp(pattern.startsWith('/') ? pattern : `**/${pattern}`).test(path);
+    const included = patterns.filter(pattern => !pattern.startsWith('!'));
+    const excluded = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => pattern.substring(1));
+
+    return included.some(matches) && !excluded.some(matches);
+}
+
+/**
+ * Get the schemas a property name or array index leads to
+ * @param schema A schema with its `$ref`s followed
+ * @param segment The property name or index
+ * @returns The schemas of the child value
+ */
+function getChildSchemas(schema: JsonSchema, segment: JsonPathSegment): JsonSchemaDefinition[] {
+    if (typeof segment === 'number') {
+        const prefixItems = schema.prefixItems ?? (Array.isArray(schema.items) ? schema.items : undefined);
+        if (prefixItems && segment < prefixItems.length) {
+            return [prefixItems[segment]];
+        }
+        const rest = schema.prefixItems ? schema.items : Array.isArray(schema.items) ? schema.additionalItems : schema.items;
+        return rest !== undefined && !Array.isArray(rest) ? [rest] : [];
+    }
+
+    const declared = schema.properties?.[segment];
+    if (declared !== undefined) {
+        return [declared];
+    }
+
+    const patterned = Object.entries(schema.patternProperties ?? {})
+        .filter(([pattern]) => testPattern(pattern, segment))
+        .map(([, definition]) => definition);
+    if (patterned.length > 0) {
+        return patterned;
+    }
+
+    return schema.additionalProperties !== undefined ? [schema.additionalProperties] : [];
+}
+
+/**
+ * Follow the `$ref` of a schema and collect the branches of its `allOf`, `anyOf` and `oneOf`
+ * @param definition The schema
+ * @param root The schema `$ref`s are resolved against
+ * @param seen Schemas already expanded, so recursive schemas terminate
+ * @returns The schema and every branch, with `true` read as an empty schema and `false` dropped
+ */
+function expandSchema(definition: JsonSchemaDefinition, root: JsonSchema, seen: Set<JsonSchema> = new Set()): JsonSchema[] {
+    if (definition === false) {
+        return [];
+    }
+    const schema = definition === true ? {} : definition;
+    if (seen.has(schema)) {
+        return [];
+    }
+    seen.add(schema);
+
+    const expanded: JsonSchema[] = [schema];
+    if (schema.$ref !== undefined) {
+        const target = resolveReference(root, schema.$ref);
+        if (target !== undefined) {
+            expanded.push(...expandSchema(target, root, seen));
+        }
+    }
+    for (const branch of [...schema.allOf ?? [], ...schema.anyOf ?? [], ...schema.oneOf ?? []]) {
+        expanded.push(...expandSchema(branch, root, seen));
+    }
+
+    return expanded;
+}
+
+/**
+ * Resolve a `$ref` pointing into the same schema, such as `#/definitions/message`
+ * References to other files are not followed
+ * @param root The schema holding the reference
+ * @param reference The reference
+ * @returns The schema referred to, or undefined if it cannot be resolved
+ */
+function resolveReference(root: JsonSchema, reference: string): JsonSchemaDefinition | undefined {
+    if (!reference.startsWith('#')) {
+        return undefined;
+    }
+
+    let target: unknown = root;
+    const pointer = decodeURIComponent(reference.substring(1));
+    for (const segment of pointer.split('/').slice(1)) {
+        if (typeof target !== 'object' || target === null) {
+            return undefined;
+        }
+        target = (target as { [key: string]: unknown })[segment.replace(/~1/g, '/').replace(/~0/g, '~')];
+    }
+
+    return typeof target === 'object' && target !== null || typeof target === 'boolean'
+        ? target as JsonSchemaDefinition
+        : undefined;
+}
+
+/**
+ * Test a `patternProperties` pattern, treating an invalid pattern as matching nothing
+ * @param pattern The regular expression source
+ * @param name The property name
+ * @returns True if the pattern matches the name
+ */
+function testPattern(pattern: string, name: string): boolean {
+    try {
+        return new RegExp(pattern, 'u').test(name);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Convert a `fileMatch` glob to a regular expression matching a whole path
+ * @param glob The glob
+ * @returns The regular expression
+ */
+function globToRegExp(glob: string): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            // `**/` also matches no directory at all
+            source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+            i += glob[i + 2] === '/' ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Drop repeated schemas, keeping the first occurrence
+ * @param schemas The schemas
+ * @returns The schemas without duplicates
+ */
+function dedupe(schemas: JsonSchema[]): JsonSchema[] {
+    return Array.from(new Set(schemas));
+}
+
+/**
+ * Finds and loads the JSON schema of a document
+ * The document's own `$schema` property wins; otherwise the first `json.schemas` entry whose `fileMatch`
+ * matches the document applies. Only local schemas are loaded: relative paths are resolved against the
+ * document for `$schema` and against the workspace folder for `json.schemas`
+ */
+export class JsonSchemaStore implements vscode.Disposable {
+    private jsonDetector: JsonStringDetector;
+    private scanner: JsonScanner;
+    private cache: Map<string, Promise<JsonSchema | null>> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.jsonDetector = new JsonStringDetector();
+        // Schema files often carry comments and trailing commas, as VS Code's own schema support allows
+        this.scanner = new JsonScanner(JSONC_OPTIONS);
+
+        // A schema file edited and saved in the workspace is read again on next use
+        const onDidSaveTextDocument = vscode.workspace.onDidSaveTextDocument((document) => {
+            this.cache.delete(document.uri.toString());
+        });
+        this.disposables.push(onDidSaveTextDocument);
+    }
+
+    /**
+     * Get the schema of a document
+     * @param document The JSON document
+     * @returns The schema, or null if none is associated or it cannot be loaded
+     */
+    public async getSchema(document: vscode.TextDocument): Promise<JsonSchema | null> {
+        const reference = this.getSchemaReference(document);
+        if (reference) {
+            const uri = this.resolveSchemaUri(reference, vscode.Uri.joinPath(document.uri, '..'));
+            return uri ? this.loadSchema(uri) : null;
+        }
+
+        const association = this.findAssociation(document);
+        if (!association) {
+            return null;
+        }
+        if (association.schema) {
+            return association.schema;
+        }
+
+        const folder = vscode.workspace.getWorkspaceFolder(document.uri) ?? vscode.workspace.workspaceFolders?.[0];
+        const uri = association.url ? this.resolveSchemaUri(association.url, folder?.uri) : null;
+        return uri ? this.loadSchema(uri) : null;
+    }
+
+    /**
+     * Read the `$schema` property of the root object
+     * @param document The JSON document
+     * @returns The reference, or null if the document has none
+     */
+    private getSchemaReference(document: vscode.TextDocument): string | null {
+        const property = this.jsonDetector.findStructuredStringRanges(document)
+            .find(stringRange => stringRange.role === 'value' && stringRange.path.length === 1 && stringRange.path[0] === '$schema');
+        if (!property) {
+            return null;
+        }
+
+        try {
+            return unescapeJsonString(document.getText(new vscode.Range(property.start, property.end)).slice(1, -1));
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Find the first `json.schemas` entry that applies to a document
+     * @param document The JSON document
+     * @returns The entry, or null if none matches
+     */
+    private findAssociation(document: vscode.TextDocument): SchemaAssociation | null {
+        const associations = vscode.workspace.getConfiguration('json', document).get<SchemaAssociation[]>('schemas', []);
+        const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+
+        for (const association of Array.isArray(associations) ? associations : []) {
+            const patterns = association.fileMatch ?? [];
+            const paths = [document.uri.path];
+            if (folder && document.uri.path.startsWith(folder.uri.path + '/')) {
+                // Patterns starting with `/` are relative to the workspace folder
+                paths.push(document.uri.path.substring(folder.uri.path.length));
+            }
+            if (paths.some(path => matchesFileMatch(patterns, path))) {
+                return association;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Turn a schema location into the URI of a local file
+     * @param location A `file:` URI, an absolute path or a relative path
+     * @param base The folder relative paths start from
+     * @returns The URI, or null for remote schemas and relative paths without a base
+     */
+    private resolveSchemaUri(location: string, base: vscode.Uri | undefined): vscode.Uri | null {
+        if (/^file:/i.test(location)) {
+            return vscode.Uri.parse(location);
+        }
+        if (/^[a-z][a-z0-9+.-]+:/i.test(location) && !/^[a-z]:[\\/]/i.test(location)) {
+            return null;
+        }
+        if (location.startsWith('/') || /^[a-z]:[\\/]/i.test(location)) {
+            return vscode.Uri.file(location);
+        }
+        return base && base.scheme === 'file' ? vscode.Uri.joinPath(base, location) : null;
+    }
+
+    /**
+     * Load a schema file, reading each file once until it is saved again
+     * Failures are not kept, so a schema that is missing or broken is tried again on next use
+     * @param uri The schema file
+     * @returns The schema, or null if it cannot be read or parsed
+     */
+    private loadSchema(uri: vscode.Uri): Promise<JsonSchema | null> {
+        const key = uri.toString();
+        let schema = this.cache.get(key);
+        if (!schema) {
+            const loading = Promise.resolve(vscode.workspace.fs.readFile(uri)).then(
+                bytes => this.parseSchema(Buffer.from(bytes).toString('utf8'))
+            ).catch(error => {
+                console.warn(`JsonSchemaStore: Could not load schema ${key}`, error);
+                if (this.cache.get(key) === loading) {
+                    this.cache.delete(key);
+                }
+                return null;
+            });
+            schema = loading;
+            this.cache.set(key, schema);
+        }
+        return schema;
+    }
+
+    /**
+     * Parse the text of a schema file as JSON with comments
+     * @param text The schema text
+     * @returns The schema, or null if the file does not hold an object
+     * @throws SyntaxError if the text is not valid JSONC
+     */
+    private parseSchema(text: string): JsonSchema | null {
+        const { tokens, errors } = this.scanner.scan(text);
+        if (errors.length > 0) {
+            throw new SyntaxError(errors[0].message);
+        }
+
+        // Without comments and trailing commas the tokens spell out strict JSON
+        const values = tokens.filter(token => token.kind !== 'lineComment' && token.kind !== 'blockComment');
+        const strict = values
+            .filter((token, i) => token.kind !== 'comma' || (values[i + 1]?.kind !== 'closeBrace' && values[i + 1]?.kind !== 'closeBracket'))
+            .map(token => text.substr(token.offset, token.length))
+            .join('');
+
+        const parsed = JSON.parse(strict);
+        return typeof parsed === 'object' && parsed !== null ? parsed as JsonSchema : null;
+    }
+
+    /**
+     * Dispose of resources
+     */
+    public dispose(): void {
+        this.cache.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+}
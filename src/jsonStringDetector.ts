@@ -1,4 +1,10 @@
 import * as vscode from 'vscode';
+import { DocumentIndex, IndexChange, documentIndexStore } from './documentIndex';
+import { JsonScanner, JsonScanError, JsonParsingError, JsonTextRegion, JsonToken, JSONC_OPTIONS, STRICT_JSON_OPTIONS } from './jsonScanner';
+import { EscapeKind, isLineBreakEscape, readEscapeSequences } from './jsonEscapes';
+import { FoldingRegion, JsonLocation, StringStructure, findFoldingRegions, findLocation, readStringStructure } from './jsonStructure';
+
+export { JsonParsingError } from './jsonScanner';
 
 /**
  * Represents a string range within a JSON document
@@ -10,27 +16,25 @@ export interface StringRange {
     hasNewlines: boolean;
 }
 
+/**
+ * A string range with its place in the document structure
+ */
+export interface StructuredStringRange extends StringRange, StringStructure {}
+
 /**
  * Represents the result of JSON parsing operations
+ * Invalid documents still report the well-formed strings outside their error ranges
  */
 export interface JsonParsingResult {
     isValid: boolean;
     error?: string;
+    errorKind?: JsonParsingError;
     errorPosition?: vscode.Position;
+    errorOffset?: number;
+    errorRanges?: vscode.Range[];
     stringRanges: StringRange[];
 }
 
-/**
- * Error types for JSON parsing failures
- */
-export enum JsonParsingError {
-    SYNTAX_ERROR = 'syntax_error',
-    UNEXPECTED_TOKEN = 'unexpected_token',
-    UNTERMINATED_STRING = 'unterminated_string',
-    INVALID_ESCAPE_SEQUENCE = 'invalid_escape_sequence',
-    UNKNOWN_ERROR = 'unknown_error'
-}
-
 /**
  * Represents a position of a newline escape sequence within a string
  */
@@ -50,6 +54,22 @@ export interface PerformanceMetrics {
     isLargeFile: boolean;
 }
 
+/**
+ * Documents whose current parsing error has already been shown to the user
+ * Shared by all detector instances so a broken document is reported once, not on every keystroke
+ */
+const notifiedDocuments = new Set<string>();
+
+/**
+ * Number of characters indexed per chunk when a document is indexed progressively
+ */
+const INDEX_CHUNK_SIZE = 256 * 1024;
+
+/**
+ * Parsing results keyed by the shared document index, reused until the document changes
+ */
+const parseCache = new WeakMap<DocumentIndex, ParsedDocument>();
+
 /**
  * Utility class for detecting JSON string ranges and newline escape sequences
  */
@@ -65,318 +85,545 @@ export class JsonStringDetector {
         return result.stringRanges;
     }
 
+    /**
+     * Find all string ranges in a JSON document, telling property names from values
+     * @param document The VSCode text document to analyze
+     * @returns The string ranges in document order, each with its role and path
+     */
+    public findStructuredStringRanges(document: vscode.TextDocument): StructuredStringRange[] {
+        const parsed = this.getParsedDocument(document);
+
+        if (!parsed.structuredRanges) {
+            const structure = readStringStructure(parsed.text, parsed.tokens);
+            parsed.structuredRanges = this.getStringTokens(parsed).map(token => ({
+                ...this.getStringRange(document, parsed, token),
+                ...(structure.get(token.offset) ?? { role: 'value', path: [] })
+            }));
+        }
+
+        return parsed.structuredRanges;
+    }
+
+    /**
+     * Find the foldable regions of a document from its tokens
+     * Works on broken documents too; brackets inside strings and comments are never counted
+     * @param document The VSCode text document to analyze
+     * @returns The regions, ordered by start offset
+     */
+    public findFoldingRegions(document: vscode.TextDocument): FoldingRegion[] {
+        const parsed = this.getParsedDocument(document);
+        return findFoldingRegions(parsed.text, parsed.tokens);
+    }
+
+    /**
+     * Work out whether a property name or a value can be written at a position, and at which path
+     * @param document The VSCode text document to analyze
+     * @param position The position, typically the cursor
+     * @returns The location, or null inside a comment or where neither fits
+     */
+    public findLocation(document: vscode.TextDocument, position: vscode.Position): JsonLocation | null {
+        const parsed = this.getParsedDocument(document);
+        return findLocation(parsed.text, parsed.tokens, document.offsetAt(position));
+    }
+
     /**
      * Safely parse JSON document and extract string ranges with comprehensive error handling
+     * JSONC documents are scanned with comments and trailing commas allowed.
+     * Results come from the shared incremental index and are cached per document version,
+     * so they must be treated as read-only
      * @param document The VSCode text document to analyze
      * @returns JsonParsingResult with validation status and string ranges
      */
     public parseJsonSafely(document: vscode.TextDocument): JsonParsingResult {
-        const startTime = Date.now();
-        const text = document.getText();
-        const fileSize = text.length;
-        const isLargeFile = fileSize > 100 * 1024; // 100KB threshold
-        
+        return this.getParsingResult(document, this.getParsedDocument(document));
+    }
+
+    /**
+     * Check whether a document is valid JSON (or JSONC) without building its string ranges
+     * Cheap to call on every change: valid documents are re-validated incrementally
+     * @param document The VSCode text document to check
+     * @returns True if the document has no syntax errors
+     */
+    public isValidJson(document: vscode.TextDocument): boolean {
+        return this.getParsedDocument(document).errorInfo === undefined;
+    }
+
+    /**
+     * Patch the shared index of a document with the changes from a change event
+     * Only the regions touched by the changes are re-scanned
+     * @param event The text document change event
+     */
+    public applyContentChanges(event: vscode.TextDocumentChangeEvent): void {
+        documentIndexStore.applyChanges(event);
+    }
+
+    /**
+     * Get the regions re-scanned since a version of a document
+     * @param document The VSCode text document
+     * @param version The version the caller last saw
+     * @returns The changes in order, or null if they are no longer known
+     */
+    public getChangesSince(document: vscode.TextDocument, version: number): IndexChange[] | null {
+        const index = documentIndexStore.peek(document);
+        return index ? index.getChangesSince(version) : null;
+    }
+
+    /**
+     * Report how much of a document has been indexed so far
+     * @param document The VSCode text document
+     * @returns The length of the indexed prefix and of the whole text
+     */
+    public getIndexingProgress(document: vscode.TextDocument): { scannedLength: number; totalLength: number } {
+        const index = documentIndexStore.get(document);
+        return { scannedLength: index.scannedEnd, totalLength: index.text.length };
+    }
+
+    /**
+     * Index a document in chunks, yielding to the event loop between chunks
+     * Edits made meanwhile are picked up: the index keeps the unchanged prefix and rescans the rest
+     * @param document The VSCode text document
+     * @param token Cancellation token to stop indexing early
+     * @param onProgress Called after each chunk with the length of the indexed prefix
+     * @returns True if the document was fully indexed, false if indexing was cancelled
+     */
+    public async indexProgressively(
+        document: vscode.TextDocument,
+        token?: vscode.CancellationToken,
+        onProgress?: (scannedLength: number) => void
+    ): Promise<boolean> {
         try {
-            // First, validate the JSON structure
-            JSON.parse(text);
-            
-            // If JSON is valid, proceed with string detection
-            const stringRanges = this.extractStringRangesFromValidJson(document, text);
-            
-            // Calculate performance metrics
-            const parseTime = Date.now() - startTime;
-            const newlineCount = stringRanges.reduce((count, range) => 
-                count + (range.hasNewlines ? this.countNewlinesInString(range.content) : 0), 0
-            );
-            
-            this.performanceMetrics = {
-                parseTime,
-                stringCount: stringRanges.length,
-                newlineCount,
-                fileSize,
-                isLargeFile
-            };
-            
-            // Log performance warning for slow operations
-            if (parseTime > 1000) { // 1 second threshold
-                console.warn('JsonStringDetector: Slow JSON parsing detected', {
-                    parseTime,
-                    fileSize,
-                    stringCount: stringRanges.length,
-                    fileName: document.fileName
-                });
+            while (!document.isClosed && !token?.isCancellationRequested) {
+                const index = documentIndexStore.get(document);
+                if (index.scanChunk(INDEX_CHUNK_SIZE)) {
+                    return true;
+                }
+                
+                onProgress?.(index.scannedEnd);
+                await new Promise(resolve => setImmediate(resolve));
             }
-            
-            return {
-                isValid: true,
-                stringRanges
-            };
-            
         } catch (error) {
-            // Handle different types of JSON parsing errors
-            const errorInfo = this.categorizeJsonError(error, text);
-            
-            // Calculate basic performance metrics even for failed parsing
-            const parseTime = Date.now() - startTime;
-            this.performanceMetrics = {
-                parseTime,
-                stringCount: 0,
-                newlineCount: 0,
-                fileSize,
-                isLargeFile
-            };
-            
-            // Log the error for debugging
-            console.warn('JsonStringDetector: JSON parsing failed', {
-                error: errorInfo.error,
-                position: errorInfo.errorPosition,
-                fileName: document.fileName,
-                parseTime
-            });
-            
-            // Show user notification for parsing errors
-            this.notifyUserOfJsonError(errorInfo, document);
-            
-            return {
-                isValid: false,
-                error: errorInfo.error,
-                errorPosition: errorInfo.errorPosition,
-                stringRanges: [] // Return empty array for malformed JSON
-            };
+            console.warn('JsonStringDetector: Error indexing document', error);
         }
+        
+        return false;
     }
 
     /**
-     * Extract string ranges from valid JSON text with performance optimizations
+     * Get the newline positions in an offset range before a document is fully indexed
+     * Strings in the indexed prefix come from the index; strings beyond it are scanned on their own
+     * so they can be shown immediately. Both are provisional: syntax errors are only known once the
+     * whole document has been indexed
      * @param document The VSCode text document
-     * @param text The JSON text content
-     * @returns Array of string ranges
+     * @param startOffset Start of the range, usually the visible part of the editor
+     * @param endOffset End of the range (exclusive)
+     * @returns Array of detailed newline position information, in document order
      */
-    private extractStringRangesFromValidJson(document: vscode.TextDocument, text: string): StringRange[] {
-        const ranges: StringRange[] = [];
-        
+    public getPartialNewlinePositions(document: vscode.TextDocument, startOffset: number, endOffset: number): DetailedNewlinePosition[] {
+        return this.collectPartialEscapePositions(document, startOffset, endOffset, true, true);
+    }
+
+    /**
+     * Get every escape sequence around a range of a document that may not be fully indexed yet
+     * Like the line breaks, the escapes beyond the indexed prefix are provisional
+     * @param document The VSCode text document
+     * @param startOffset Start of the range, usually the visible part of the editor
+     * @param endOffset End of the range (exclusive)
+     * @param collapseCrlf Whether a `\r\n` pair is reported as a single escape
+     * @returns Array of escape positions, in document order
+     */
+    public getPartialEscapePositions(document: vscode.TextDocument, startOffset: number, endOffset: number, collapseCrlf: boolean = true): EscapePosition[] {
+        return this.collectPartialEscapePositions(document, startOffset, endOffset, collapseCrlf, false);
+    }
+
+    /**
+     * Get the string containing a position without forcing the rest of the document to be indexed
+     * A position beyond the indexed prefix is looked up by scanning its line on its own, so the result is
+     * provisional like the partial escape positions
+     * @param document The VSCode text document
+     * @param position The position to check
+     * @returns The string range, or null if the position is outside every string or too far ahead of the index
+     */
+    public getPartialStringRangeAtPosition(document: vscode.TextDocument, position: vscode.Position): StringRange | null {
         try {
-            // Performance optimization: For very large files, limit processing
-            const maxFileSize = 1024 * 1024; // 1MB limit
-            if (text.length > maxFileSize) {
-                console.warn('JsonStringDetector: File too large, applying performance limits');
-                return this.extractStringRangesWithLimits(document, text, maxFileSize);
+            const index = documentIndexStore.get(document);
+            if (index.isComplete) {
+                return this.getStringRangeAtPosition(document, position);
             }
             
-            // Find string literals in the JSON with enhanced escape sequence handling
-            let i = 0;
-            let stringCount = 0;
-            const maxStrings = 10000; // Limit number of strings processed for performance
-            
-            while (i < text.length && stringCount < maxStrings) {
-                if (text[i] === '"') {
-                    const stringResult = this.extractSingleStringRange(document, text, i);
-                    if (stringResult) {
-                        ranges.push(stringResult.range);
-                        i = stringResult.nextIndex;
-                        stringCount++;
-                    } else {
-                        // Failed to extract string, skip to next character
-                        i++;
-                    }
-                } else {
-                    i++;
+            const offset = document.offsetAt(position);
+            let token: JsonToken | undefined;
+            if (offset < index.scannedEnd) {
+                const tokens = index.getScannedTokens();
+                token = tokens[this.findTokenIndex(tokens, offset)];
+            } else {
+                // A line start is always a token boundary outside block comments, since strings cannot span lines
+                const scanStart = Math.max(index.scannedEnd, document.offsetAt(new vscode.Position(position.line, 0)));
+                if (offset - scanStart > INDEX_CHUNK_SIZE) {
+                    return null;
                 }
+                
+                const scanner = new JsonScanner(index.isJsonc ? JSONC_OPTIONS : STRICT_JSON_OPTIONS);
+                const scanned = scanner.tokenizeFrom(index.text, scanStart, [], next => next > offset).tokens;
+                token = scanned[this.findTokenIndex(scanned, offset)];
             }
             
-            if (stringCount >= maxStrings) {
-                console.warn('JsonStringDetector: Reached maximum string limit for performance');
+            if (token && token.kind === 'string' && !token.unterminated) {
+                return this.createStringRange(document, index.text, token);
             }
-            
         } catch (error) {
-            console.warn('JsonStringDetector: Error during string extraction from valid JSON', error);
-            // Return partial results if we encountered an error during string extraction
+            console.warn('JsonStringDetector: Error checking partial string range at position', error);
         }
         
-        return ranges;
+        return null;
     }
 
     /**
-     * Extract string ranges with performance limits for large files
+     * Collect the escapes of the strings around a range from the index and, beyond it, from a quick scan
      * @param document The VSCode text document
-     * @param text The JSON text content
-     * @param limit The character limit to process
-     * @returns Array of string ranges
+     * @param startOffset Start of the range
+     * @param endOffset End of the range (exclusive)
+     * @param collapseCrlf Whether a `\r\n` pair is reported as a single escape
+     * @param lineBreaksOnly Whether only line break escapes are collected
+     * @returns Array of escape positions, in document order
      */
-    private extractStringRangesWithLimits(document: vscode.TextDocument, text: string, limit: number): StringRange[] {
-        const ranges: StringRange[] = [];
-        const limitedText = text.substring(0, limit);
+    private collectPartialEscapePositions(
+        document: vscode.TextDocument,
+        startOffset: number,
+        endOffset: number,
+        collapseCrlf: boolean,
+        lineBreaksOnly: boolean
+    ): EscapePosition[] {
+        const positions: EscapePosition[] = [];
         
         try {
-            // Process only the limited portion of the text
-            let i = 0;
-            while (i < limitedText.length) {
-                if (limitedText[i] === '"') {
-                    const stringResult = this.extractSingleStringRange(document, limitedText, i);
-                    if (stringResult) {
-                        ranges.push(stringResult.range);
-                        i = stringResult.nextIndex;
-                    } else {
-                        i++;
+            const index = documentIndexStore.get(document);
+            const text = index.text;
+            const tokens = index.getScannedTokens();
+            
+            for (let i = this.findFirstTokenEndingAfter(tokens, startOffset); i < tokens.length && tokens[i].offset < endOffset; i++) {
+                const token = tokens[i];
+                if (token.kind === 'string' && !token.unterminated && this.hasEscapes(token, lineBreaksOnly)) {
+                    positions.push(...this.createEscapePositions(document, text, token, this.createStringRange(document, text, token), collapseCrlf, lineBreaksOnly));
+                }
+            }
+            
+            const scanStart = Math.max(startOffset, index.scannedEnd);
+            if (scanStart < endOffset) {
+                // A line start is always a token boundary outside block comments, since strings cannot span lines
+                const sliceStart = document.offsetAt(new vscode.Position(document.positionAt(scanStart).line, 0));
+                // Very long lines (minified files) are only scanned ahead by one chunk
+                const sliceEnd = Math.min(endOffset, sliceStart + INDEX_CHUNK_SIZE);
+                const scanner = new JsonScanner(index.isJsonc ? JSONC_OPTIONS : STRICT_JSON_OPTIONS);
+                
+                for (const token of scanner.tokenize(text.substring(sliceStart, sliceEnd), [])) {
+                    token.offset += sliceStart;
+                    if (token.offset >= index.scannedEnd && token.kind === 'string' && !token.unterminated && this.hasEscapes(token, lineBreaksOnly)) {
+                        positions.push(...this.createEscapePositions(document, text, token, this.createStringRange(document, text, token), collapseCrlf, lineBreaksOnly));
                     }
-                } else {
-                    i++;
                 }
             }
         } catch (error) {
-            console.warn('JsonStringDetector: Error during limited string extraction', error);
+            console.warn('JsonStringDetector: Error getting partial escape positions', error);
+            // Return partial results if we encountered an error
         }
         
-        return ranges;
+        return positions;
     }
 
     /**
-     * Extract a single string range from JSON text
-     * @param document The VSCode text document
-     * @param text The JSON text content
-     * @param startIndex The starting index of the string (at the opening quote)
-     * @returns Object with the string range and next index, or null if extraction failed
-     */
-    private extractSingleStringRange(document: vscode.TextDocument, text: string, startIndex: number): {
-        range: StringRange;
-        nextIndex: number;
-    } | null {
-        if (text[startIndex] !== '"') {
-            return null;
-        }
-        
-        const stringStart = startIndex;
-        let i = startIndex + 1; // Skip opening quote
-        
-        // Find the end of the string, handling complex escape sequences
-        let stringEnd = -1;
-        while (i < text.length) {
-            if (text[i] === '\\') {
-                // Handle escape sequences with enhanced validation
-                if (i + 1 < text.length) {
-                    const nextChar = text[i + 1];
-                    if (nextChar === 'u') {
-                        // Unicode escape sequence: \uXXXX
-                        if (i + 5 < text.length && this.isValidUnicodeEscape(text.substring(i + 2, i + 6))) {
-                            i += 6; // Skip \uXXXX
-                        } else {
-                            // Invalid unicode escape, but continue parsing
-                            i += 2;
-                        }
-                    } else if (this.isValidEscapeSequence(nextChar)) {
-                        i += 2; // Skip valid escape sequence
-                    } else {
-                        // Invalid escape sequence, but continue parsing
-                        i += 2;
-                    }
-                } else {
-                    // Incomplete escape at end of file
-                    break;
-                }
-            } else if (text[i] === '"') {
-                stringEnd = i;
-                break;
-            } else if (text[i] < ' ' && text[i] !== '\t') {
-                // Control characters (except tab) are not allowed in JSON strings
-                // This shouldn't happen with valid JSON, but handle gracefully
-                i++;
-            } else {
-                i++;
-            }
-        }
-        
-        if (stringEnd === -1) {
-            // Unterminated string
-            return null;
-        }
+     * Drop the shared index of a document that is no longer open
+     * @param document The document being closed
+     */
+    public forgetDocument(document: vscode.TextDocument): void {
+        documentIndexStore.delete(document);
+        notifiedDocuments.delete(document.uri.toString());
+    }
+
+    /**
+     * Get the parsed form of a document, reusing the cached result for its current version
+     * Only the tokens are validated here; string ranges and the parsing result are built on first use
+     * @param document The VSCode text document to analyze
+     * @returns The parsed document
+     */
+    private getParsedDocument(document: vscode.TextDocument): ParsedDocument {
+        const startTime = Date.now();
+        let index: DocumentIndex | undefined;
         
         try {
-            // Extract the string content (without quotes)
-            const stringContent = text.substring(stringStart + 1, stringEnd);
-            const hasNewlines = this.containsNewlines(stringContent);
+            index = documentIndexStore.get(document);
             
-            // Convert character positions to VSCode positions
-            const startPos = document.positionAt(stringStart);
-            const endPos = document.positionAt(stringEnd + 1);
+            const cached = parseCache.get(index);
+            if (cached && cached.version === index.version) {
+                return cached;
+            }
             
+            const parsed = this.parseIndex(document, index, startTime);
+            parseCache.set(index, parsed);
+            return parsed;
+        } catch (error) {
+            // The scanner reports syntax problems as errors, so anything thrown here is unexpected
+            const errorInfo: JsonErrorInfo = {
+                error: `JSON parsing error: ${error instanceof Error ? error.message : String(error)}`,
+                errorKind: JsonParsingError.UNKNOWN_ERROR
+            };
+            this.reportJsonError(document, errorInfo, Date.now() - startTime);
             return {
-                range: {
-                    start: startPos,
-                    end: endPos,
-                    content: stringContent,
-                    hasNewlines
-                },
-                nextIndex: stringEnd + 1
+                version: document.version,
+                text: index?.text ?? '',
+                tokens: [],
+                errorRegions: [],
+                errorInfo,
+                parseTime: Date.now() - startTime,
+                stringTokens: [],
+                stringRanges: new Map()
             };
-        } catch (error) {
-            console.warn('JsonStringDetector: Error creating string range', error);
-            return null;
         }
     }
 
     /**
-     * Check if a 4-character string is a valid Unicode escape sequence
-     * @param hexChars The 4 hex characters after \u
-     * @returns True if valid hex characters
+     * Validate the current version of an index
+     * Valid documents are re-validated incrementally by the index, so this stays cheap while typing
+     * @param document The VSCode text document
+     * @param index The document's index
+     * @param startTime The time parsing started
+     * @returns The parsed document
      */
-    private isValidUnicodeEscape(hexChars: string): boolean {
-        if (hexChars.length !== 4) {
-            return false;
+    private parseIndex(document: vscode.TextDocument, index: DocumentIndex, startTime: number): ParsedDocument {
+        const scanResult = index.getScanResult();
+        const parsed: ParsedDocument = {
+            version: index.version,
+            text: index.text,
+            tokens: scanResult.tokens,
+            errorRegions: scanResult.errorRegions,
+            parseTime: 0,
+            stringRanges: new Map()
+        };
+        
+        if (scanResult.errors.length > 0) {
+            // Recovery mode: the strings that lie outside the damaged regions are still reported
+            parsed.errorInfo = this.categorizeJsonError(scanResult.errors[0], document);
+            parsed.parseTime = Date.now() - startTime;
+            this.reportJsonError(document, parsed.errorInfo, parsed.parseTime);
+            return parsed;
         }
         
-        return /^[0-9a-fA-F]{4}$/.test(hexChars);
+        notifiedDocuments.delete(document.uri.toString());
+        parsed.parseTime = Date.now() - startTime;
+        return parsed;
     }
 
     /**
-     * Categorize JSON parsing errors for better user feedback
-     * @param error The caught error object
-     * @param text The JSON text that failed to parse
-     * @returns Categorized error information
+     * Get the parsing result of a parsed document, building every string range on first use
+     * @param document The VSCode text document
+     * @param parsed The parsed document
+     * @returns The parsing result
      */
-    private categorizeJsonError(error: any, text: string): { error: string; errorPosition?: vscode.Position } {
-        const errorMessage = error.message || error.toString();
+    private getParsingResult(document: vscode.TextDocument, parsed: ParsedDocument): JsonParsingResult {
+        if (parsed.result && parsed.metrics) {
+            this.performanceMetrics = parsed.metrics;
+            return parsed.result;
+        }
         
-        // Try to extract position information from error message
-        let errorPosition: vscode.Position | undefined;
+        const startTime = Date.now();
+        const text = parsed.text;
+        const fileSize = text.length;
+        const stringTokens = this.getStringTokens(parsed);
+        const stringRanges = stringTokens.map(token => this.getStringRange(document, parsed, token));
+        const parseTime = parsed.parseTime + Date.now() - startTime;
         
-        // Common JSON error patterns
-        if (errorMessage.includes('Unexpected token')) {
-            const positionMatch = errorMessage.match(/position (\d+)/);
-            if (positionMatch) {
-                const position = parseInt(positionMatch[1], 10);
-                errorPosition = this.offsetToPositionInText(text, position);
-            }
-            return {
-                error: `Invalid JSON syntax: ${errorMessage}`,
-                errorPosition
-            };
-        } else if (errorMessage.includes('Unterminated string')) {
-            return {
-                error: 'Unterminated string in JSON',
-                errorPosition
-            };
-        } else if (errorMessage.includes('Unexpected end of JSON input')) {
-            return {
-                error: 'Incomplete JSON structure',
-                errorPosition
-            };
-        } else {
-            return {
-                error: `JSON parsing error: ${errorMessage}`,
-                errorPosition
+        // Calculate performance metrics, for failed parsing too
+        this.performanceMetrics = {
+            parseTime,
+            stringCount: stringRanges.length,
+            newlineCount: stringTokens.reduce((count, token) => count + (token.newlineOffsets?.length ?? 0), 0),
+            fileSize,
+            isLargeFile: fileSize > 100 * 1024 // 100KB threshold
+        };
+        parsed.metrics = this.performanceMetrics;
+        
+        if (parsed.errorInfo) {
+            parsed.result = {
+                isValid: false,
+                error: parsed.errorInfo.error,
+                errorKind: parsed.errorInfo.errorKind,
+                errorPosition: parsed.errorInfo.errorPosition,
+                errorOffset: parsed.errorInfo.errorOffset,
+                errorRanges: parsed.errorRegions.map(region => new vscode.Range(
+                    document.positionAt(region.offset),
+                    document.positionAt(region.offset + region.length)
+                )),
+                stringRanges
             };
+            return parsed.result;
+        }
+        
+        // Log performance warning for slow operations
+        if (parseTime > 1000) { // 1 second threshold
+            console.warn('JsonStringDetector: Slow JSON parsing detected', {
+                parseTime,
+                fileSize,
+                stringCount: stringRanges.length,
+                fileName: document.fileName
+            });
+        }
+        
+        parsed.result = {
+            isValid: true,
+            stringRanges
+        };
+        return parsed.result;
+    }
+
+    /**
+     * Log a parsing failure and notify the user, once until the document becomes valid again
+     * @param document The document that failed to parse
+     * @param errorInfo The categorized error information
+     * @param parseTime How long parsing took
+     */
+    private reportJsonError(document: vscode.TextDocument, errorInfo: JsonErrorInfo, parseTime: number): void {
+        // Log the error for debugging
+        console.warn('JsonStringDetector: JSON parsing failed', {
+            error: errorInfo.error,
+            position: errorInfo.errorPosition,
+            fileName: document.fileName,
+            parseTime
+        });
+        
+        // Show user notification for parsing errors, once until the document becomes valid again
+        const uri = document.uri.toString();
+        if (!notifiedDocuments.has(uri)) {
+            notifiedDocuments.add(uri);
+            this.notifyUserOfJsonError(errorInfo, document);
         }
     }
 
+    /**
+     * Get the string tokens of a parsed document, selecting them on first use
+     * @param parsed The parsed document
+     * @returns The reported string tokens, in document order
+     */
+    private getStringTokens(parsed: ParsedDocument): JsonToken[] {
+        parsed.stringTokens ??= this.selectStringTokens(parsed.tokens, parsed.errorRegions);
+        return parsed.stringTokens;
+    }
 
+    /**
+     * Get the string range of a string token, creating it on first use
+     * The same token always yields the same range object within a version
+     * @param document The VSCode text document
+     * @param parsed The parsed document the token belongs to
+     * @param token The string token
+     * @returns The string range
+     */
+    private getStringRange(document: vscode.TextDocument, parsed: ParsedDocument, token: JsonToken): StringRange {
+        let stringRange = parsed.stringRanges.get(token);
+        if (!stringRange) {
+            stringRange = this.createStringRange(document, parsed.text, token);
+            parsed.stringRanges.set(token, stringRange);
+        }
+        return stringRange;
+    }
 
     /**
-     * Check if a character represents a valid JSON escape sequence
-     * @param char The character following the backslash
-     * @returns True if it's a valid escape sequence
+     * Check whether a token is a string that is reported, i.e. terminated and outside every error region
+     * @param parsed The parsed document
+     * @param token The token to check
+     * @returns True if the token is a reported string
      */
-    private isValidEscapeSequence(char: string): boolean {
-        return ['"', '\\', '/', 'b', 'f', 'n', 'r', 't', 'u'].includes(char);
+    private isReportedString(parsed: ParsedDocument, token: JsonToken): boolean {
+        if (token.kind !== 'string' || token.unterminated) {
+            return false;
+        }
+        
+        const regions = parsed.errorRegions;
+        let low = 0;
+        let high = regions.length;
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            if (regions[mid].offset + regions[mid].length > token.offset) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+        
+        return low === regions.length || regions[low].offset >= token.offset + token.length;
+    }
+
+    /**
+     * Select the string tokens to report
+     * @param tokens The tokens produced by the scanner
+     * @param errorRegions Sorted regions whose strings cannot be trusted
+     * @returns The terminated string tokens outside the error regions, in document order
+     */
+    private selectStringTokens(tokens: JsonToken[], errorRegions: JsonTextRegion[]): JsonToken[] {
+        const selected: JsonToken[] = [];
+        let regionIndex = 0;
+        
+        try {
+            for (const token of tokens) {
+                if (token.kind !== 'string' || token.unterminated) {
+                    continue;
+                }
+                
+                // Skip strings that overlap a damaged region
+                while (regionIndex < errorRegions.length &&
+                    errorRegions[regionIndex].offset + errorRegions[regionIndex].length <= token.offset) {
+                    regionIndex++;
+                }
+                const region = errorRegions[regionIndex];
+                if (region && region.offset < token.offset + token.length) {
+                    continue;
+                }
+                
+                selected.push(token);
+            }
+        } catch (error) {
+            console.warn('JsonStringDetector: Error during string extraction', error);
+            // Return partial results if we encountered an error during string extraction
+        }
+        
+        return selected;
+    }
+
+    /**
+     * Create a string range for a terminated string token
+     * @param document The VSCode text document
+     * @param text The JSON text content
+     * @param token The string token, including both quotes
+     * @returns The string range
+     */
+    private createStringRange(document: vscode.TextDocument, text: string, token: JsonToken): StringRange {
+        return {
+            start: document.positionAt(token.offset),
+            end: document.positionAt(token.offset + token.length),
+            // Extract the string content (without quotes)
+            content: text.substring(token.offset + 1, token.offset + token.length - 1),
+            hasNewlines: token.newlineOffsets !== undefined
+        };
+    }
+
+    /**
+     * Categorize scanner errors for better user feedback
+     * @param scanError The first error reported by the scanner
+     * @param document The document that failed to parse
+     * @returns Categorized error information
+     */
+    private categorizeJsonError(scanError: JsonScanError, document: vscode.TextDocument): JsonErrorInfo {
+        const location = {
+            errorKind: scanError.kind,
+            errorPosition: document.positionAt(scanError.offset),
+            errorOffset: scanError.offset
+        };
+        
+        switch (scanError.kind) {
+            case JsonParsingError.UNTERMINATED_STRING:
+                return { error: 'Unterminated string in JSON', ...location };
+            case JsonParsingError.UNEXPECTED_END:
+                return { error: 'Incomplete JSON structure', ...location };
+            default:
+                return { error: `Invalid JSON syntax: ${scanError.message}`, ...location };
+        }
     }
 
     /**
@@ -384,7 +631,7 @@ export class JsonStringDetector {
      * @param errorInfo The categorized error information
      * @param document The document that failed to parse
      */
-    private notifyUserOfJsonError(errorInfo: { error: string; errorPosition?: vscode.Position }, document: vscode.TextDocument): void {
+    private notifyUserOfJsonError(errorInfo: JsonErrorInfo, document: vscode.TextDocument): void {
         const fileName = document.fileName.split('/').pop() || 'JSON file';
         
         // Create user-friendly error message
@@ -458,20 +705,18 @@ export class JsonStringDetector {
      * @returns Array of positions where \n sequences are found
      */
     public extractNewlinePositions(document: vscode.TextDocument): NewlinePosition[] {
-        const result = this.parseJsonSafely(document);
-        
-        // If JSON is invalid, return empty array
-        if (!result.isValid) {
-            return [];
-        }
+        // Invalid documents still report the strings recovered outside their error ranges
+        const parsed = this.getParsedDocument(document);
         
         const positions: NewlinePosition[] = [];
         
         try {
-            for (const stringRange of result.stringRanges) {
-                if (stringRange.hasNewlines) {
-                    const newlinePositions = this.findNewlinePositionsInString(document, stringRange);
-                    positions.push(...newlinePositions);
+            for (const token of this.getStringTokens(parsed)) {
+                for (const newlineOffset of token.newlineOffsets ?? []) {
+                    positions.push({
+                        position: document.positionAt(token.offset + newlineOffset),
+                        stringRange: this.getStringRange(document, parsed, token)
+                    });
                 }
             }
         } catch (error) {
@@ -482,40 +727,6 @@ export class JsonStringDetector {
         return positions;
     }
 
-    /**
-     * Find all newline positions within a specific string range
-     * @param document The VSCode text document
-     * @param stringRange The string range to search within
-     * @returns Array of newline positions within the string
-     */
-    private findNewlinePositionsInString(document: vscode.TextDocument, stringRange: StringRange): NewlinePosition[] {
-        const positions: NewlinePosition[] = [];
-        const text = document.getText();
-        
-        // Get the absolute start position of the string content (after opening quote)
-        const stringStartOffset = document.offsetAt(stringRange.start) + 1;
-        const stringEndOffset = document.offsetAt(stringRange.end) - 1;
-        
-        let i = stringStartOffset;
-        while (i < stringEndOffset - 1) { // -1 because we need to check i+1
-            if (text[i] === '\\' && text[i + 1] === 'n') {
-                const position = document.positionAt(i);
-                positions.push({
-                    position,
-                    stringRange
-                });
-                i += 2; // Skip both characters of the escape sequence
-            } else if (text[i] === '\\') {
-                // Skip other escape sequences
-                i += 2;
-            } else {
-                i++;
-            }
-        }
-        
-        return positions;
-    }
-
     /**
      * Check if a position is within a JSON string
      * @param document The VSCode text document
@@ -523,18 +734,13 @@ export class JsonStringDetector {
      * @returns The string range if position is within a string, null otherwise
      */
     public getStringRangeAtPosition(document: vscode.TextDocument, position: vscode.Position): StringRange | null {
-        const result = this.parseJsonSafely(document);
-        
-        // If JSON is invalid, return null
-        if (!result.isValid) {
-            return null;
-        }
+        const parsed = this.getParsedDocument(document);
         
         try {
-            for (const range of result.stringRanges) {
-                if (this.isPositionInRange(position, range)) {
-                    return range;
-                }
+            const offset = document.offsetAt(position);
+            const index = this.findTokenIndex(parsed.tokens, offset);
+            if (index !== -1 && this.isReportedString(parsed, parsed.tokens[index])) {
+                return this.getStringRange(document, parsed, parsed.tokens[index]);
             }
         } catch (error) {
             console.warn('JsonStringDetector: Error checking string range at position', error);
@@ -544,10 +750,40 @@ export class JsonStringDetector {
     }
 
     /**
-     * Helper method to check if a position is within a range
+     * Get the string containing a position, with its role and path
+     * @param document The VSCode text document
+     * @param position The position to check
+     * @returns The string, or null if the position is outside every string
+     */
+    public getStructuredStringRangeAtPosition(document: vscode.TextDocument, position: vscode.Position): StructuredStringRange | null {
+        const parsed = this.getParsedDocument(document);
+        const index = this.findTokenIndex(this.getStringTokens(parsed), document.offsetAt(position));
+        return index === -1 ? null : this.findStructuredStringRanges(document)[index];
+    }
+
+    /**
+     * Binary search for the token containing an offset
+     * @param tokens Tokens in document order
+     * @param offset The offset to look up
+     * @returns The index of the containing token, or -1 if the offset is outside every token
      */
-    private isPositionInRange(position: vscode.Position, range: StringRange): boolean {
-        return position.isAfterOrEqual(range.start) && position.isBefore(range.end);
+    private findTokenIndex(tokens: readonly JsonToken[], offset: number): number {
+        let low = 0;
+        let high = tokens.length - 1;
+        
+        while (low <= high) {
+            const mid = (low + high) >>> 1;
+            const token = tokens[mid];
+            if (offset < token.offset) {
+                high = mid - 1;
+            } else if (offset >= token.offset + token.length) {
+                low = mid + 1;
+            } else {
+                return mid;
+            }
+        }
+        
+        return -1;
     }
 
     /**
@@ -571,51 +807,70 @@ export class JsonStringDetector {
     }
 
     /**
-     * Convert character offset to VSCode Position for text content
-     * @param text The text content
-     * @param offset The character offset
-     * @returns VSCode Position object
+     * Get detailed information about newline positions including their context
+     * @param document The VSCode text document
+     * @returns Array of detailed newline position information
      */
-    private offsetToPositionInText(text: string, offset: number): vscode.Position {
-        let line = 0;
-        let character = 0;
-        
-        for (let i = 0; i < Math.min(offset, text.length); i++) {
-            if (text[i] === '\n') {
-                line++;
-                character = 0;
-            } else {
-                character++;
-            }
-        }
-        
-        return new vscode.Position(line, character);
+    public getDetailedNewlinePositions(document: vscode.TextDocument): DetailedNewlinePosition[] {
+        return this.getDetailedNewlinePositionsInRange(document, 0, Number.MAX_SAFE_INTEGER);
     }
 
     /**
-     * Get detailed information about newline positions including their context
+     * Get detailed newline positions for the strings overlapping an offset range
+     * Used to refresh only the part of a document that was re-scanned after an edit
+     * `\r\n` pairs are reported as a single line break
      * @param document The VSCode text document
-     * @returns Array of detailed newline position information
+     * @param startOffset Start of the range
+     * @param endOffset End of the range (exclusive)
+     * @returns Array of detailed newline position information, in document order
      */
-    public getDetailedNewlinePositions(document: vscode.TextDocument): DetailedNewlinePosition[] {
-        const result = this.parseJsonSafely(document);
-        
-        // If JSON is invalid, return empty array
-        if (!result.isValid) {
-            return [];
-        }
+    public getDetailedNewlinePositionsInRange(document: vscode.TextDocument, startOffset: number, endOffset: number): DetailedNewlinePosition[] {
+        return this.collectEscapePositionsInRange(document, startOffset, endOffset, true, true);
+    }
+
+    /**
+     * Get every escape sequence of the strings overlapping an offset range
+     * @param document The VSCode text document
+     * @param startOffset Start of the range
+     * @param endOffset End of the range (exclusive)
+     * @param collapseCrlf Whether a `\r\n` pair is reported as a single escape
+     * @returns Array of escape positions, in document order
+     */
+    public getEscapePositionsInRange(document: vscode.TextDocument, startOffset: number, endOffset: number, collapseCrlf: boolean = true): EscapePosition[] {
+        return this.collectEscapePositionsInRange(document, startOffset, endOffset, collapseCrlf, false);
+    }
+
+    /**
+     * Collect the escapes of the parsed strings overlapping an offset range
+     * @param document The VSCode text document
+     * @param startOffset Start of the range
+     * @param endOffset End of the range (exclusive)
+     * @param collapseCrlf Whether a `\r\n` pair is reported as a single escape
+     * @param lineBreaksOnly Whether only line break escapes are collected
+     * @returns Array of escape positions, in document order
+     */
+    private collectEscapePositionsInRange(
+        document: vscode.TextDocument,
+        startOffset: number,
+        endOffset: number,
+        collapseCrlf: boolean,
+        lineBreaksOnly: boolean
+    ): EscapePosition[] {
+        // Invalid documents still report the strings recovered outside their error ranges
+        const parsed = this.getParsedDocument(document);
+        const tokens = parsed.tokens;
         
-        const positions: DetailedNewlinePosition[] = [];
+        const positions: EscapePosition[] = [];
         
         try {
-            for (const stringRange of result.stringRanges) {
-                if (stringRange.hasNewlines) {
-                    const newlinePositions = this.findDetailedNewlinePositionsInString(document, stringRange);
-                    positions.push(...newlinePositions);
+            for (let i = this.findFirstTokenEndingAfter(tokens, startOffset); i < tokens.length && tokens[i].offset < endOffset; i++) {
+                const token = tokens[i];
+                if (this.hasEscapes(token, lineBreaksOnly) && this.isReportedString(parsed, token)) {
+                    positions.push(...this.createEscapePositions(document, parsed.text, token, this.getStringRange(document, parsed, token), collapseCrlf, lineBreaksOnly));
                 }
             }
         } catch (error) {
-            console.warn('JsonStringDetector: Error getting detailed newline positions', error);
+            console.warn('JsonStringDetector: Error getting escape positions', error);
             // Return partial results if we encountered an error
         }
         
@@ -623,90 +878,77 @@ export class JsonStringDetector {
     }
 
     /**
-     * Find detailed newline positions within a specific string range with enhanced escape handling
-     * @param document The VSCode text document
-     * @param stringRange The string range to search within
-     * @returns Array of detailed newline positions within the string
-     */
-    private findDetailedNewlinePositionsInString(document: vscode.TextDocument, stringRange: StringRange): DetailedNewlinePosition[] {
-        const positions: DetailedNewlinePosition[] = [];
-        const text = document.getText();
-        
-        // Get the absolute start position of the string content (after opening quote)
-        const stringStartOffset = document.offsetAt(stringRange.start) + 1;
-        const stringEndOffset = document.offsetAt(stringRange.end) - 1;
-        
-        let i = stringStartOffset;
-        let newlineIndex = 0;
-        
-        while (i < stringEndOffset - 1) { // -1 because we need to check i+1
-            if (text[i] === '\\') {
-                if (i + 1 < stringEndOffset) {
-                    const nextChar = text[i + 1];
-                    
-                    if (nextChar === 'n') {
-                        // Potential newline escape sequence
-                        if (this.isRealNewlineEscape(text, i, stringStartOffset)) {
-                            const position = document.positionAt(i);
-                            const endPosition = document.positionAt(i + 2);
-                            
-                            positions.push({
-                                position,
-                                endPosition,
-                                stringRange,
-                                offset: i,
-                                endOffset: i + 2,
-                                indexInString: newlineIndex,
-                                beforeText: text.substring(stringStartOffset, i),
-                                afterText: text.substring(i + 2, stringEndOffset)
-                            });
-                            
-                            newlineIndex++;
-                        }
-                        i += 2; // Skip \n sequence
-                    } else if (nextChar === 'u') {
-                        // Unicode escape sequence: \uXXXX
-                        if (i + 5 < stringEndOffset && this.isValidUnicodeEscape(text.substring(i + 2, i + 6))) {
-                            i += 6; // Skip \uXXXX
-                        } else {
-                            i += 2; // Skip invalid unicode escape
-                        }
-                    } else {
-                        // Other escape sequences (\t, \", \\, etc.)
-                        i += 2;
-                    }
-                } else {
-                    // Incomplete escape at end of string
-                    i++;
-                }
+     * Check whether a string token can contain the escapes being collected
+     * @param token The string token
+     * @param lineBreaksOnly Whether only line break escapes are collected
+     * @returns True if the token has escapes of interest
+     */
+    private hasEscapes(token: JsonToken, lineBreaksOnly: boolean): boolean {
+        return (lineBreaksOnly ? token.newlineOffsets : token.escapeOffsets) !== undefined;
+    }
+
+    /**
+     * Binary search for the first token ending after an offset
+     * @param tokens Tokens in document order
+     * @param offset The offset to look up
+     * @returns The index of the first token ending after the offset, or the token count
+     */
+    private findFirstTokenEndingAfter(tokens: readonly JsonToken[], offset: number): number {
+        let low = 0;
+        let high = tokens.length;
+        
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            if (tokens[mid].offset + tokens[mid].length > offset) {
+                high = mid;
             } else {
-                i++;
+                low = mid + 1;
             }
         }
         
-        return positions;
+        return low;
     }
 
     /**
-     * Determine if a \n sequence is a real newline escape (not escaped by preceding backslashes)
-     * @param text The full text
-     * @param position The position of the backslash in \n
-     * @param stringStart The start of the string content
-     * @returns True if it's a real newline escape
+     * Create escape positions for one string from the offsets recorded by the scanner
+     * @param document The VSCode text document
+     * @param text The text the token was scanned from
+     * @param token The string token
+     * @param stringRange The string range of the token
+     * @param collapseCrlf Whether a `\r\n` pair is reported as a single escape
+     * @param lineBreaksOnly Whether only line break escapes are created
+     * @returns Array of escape positions within the string
      */
-    private isRealNewlineEscape(text: string, position: number, stringStart: number): boolean {
-        // Count consecutive backslashes before this position
-        let backslashCount = 0;
-        let j = position - 1;
-        
-        while (j >= stringStart && text[j] === '\\') {
-            backslashCount++;
-            j--;
+    private createEscapePositions(
+        document: vscode.TextDocument,
+        text: string,
+        token: JsonToken,
+        stringRange: StringRange,
+        collapseCrlf: boolean,
+        lineBreaksOnly: boolean
+    ): EscapePosition[] {
+        const stringStartOffset = token.offset + 1;
+        const stringEndOffset = token.offset + token.length - 1;
+        let escapes = readEscapeSequences(text, token.offset, token.escapeOffsets ?? [], collapseCrlf);
+        if (lineBreaksOnly) {
+            escapes = escapes.filter(escape => isLineBreakEscape(escape.kind));
         }
         
-        // If there's an even number of backslashes before \n, then \n is real
-        // If there's an odd number, then the last backslash escapes the \, making it \\n
-        return backslashCount % 2 === 0;
+        return escapes.map((escape, indexInString) => {
+            const endOffset = escape.offset + escape.length;
+            return {
+                position: document.positionAt(escape.offset),
+                endPosition: document.positionAt(endOffset),
+                stringRange,
+                kind: escape.kind,
+                decoded: escape.decoded,
+                offset: escape.offset,
+                endOffset,
+                indexInString,
+                beforeText: text.substring(stringStartOffset, escape.offset),
+                afterText: text.substring(endOffset, stringEndOffset)
+            };
+        });
     }
 
     /**
@@ -785,7 +1027,7 @@ export class JsonStringDetector {
         }
         
         if (stringCount > 5000) {
-            recommendations.push('Large number of strings detected - some features may be limited for performance');
+            recommendations.push('Large number of strings detected - decorating them may take a moment');
         }
         
         if (newlineCount > 1000) {
@@ -793,7 +1035,7 @@ export class JsonStringDetector {
         }
         
         if (fileSize > 1024 * 1024) { // 1MB
-            recommendations.push('Very large file detected - some features may be disabled for performance');
+            recommendations.push('Very large file detected - formatting is filled in progressively after opening');
         }
         
         return recommendations;
@@ -801,17 +1043,62 @@ export class JsonStringDetector {
 }
 
 /**
- * Extended interface for detailed newline position information
+ * Categorized parsing error details used for results and user notifications
  */
-export interface DetailedNewlinePosition extends NewlinePosition {
+interface JsonErrorInfo {
+    error: string;
+    errorKind: JsonParsingError;
+    errorPosition?: vscode.Position;
+    errorOffset?: number;
+}
+
+/**
+ * Validated tokens of one version of a document
+ * Everything derived from the tokens is worked out on first use, so a new version costs little
+ * until something asks for the whole document
+ */
+interface ParsedDocument {
+    version: number;
+    text: string;
+    /** Every token of this version; token objects are patched by later changes */
+    tokens: JsonToken[];
+    /** Regions whose strings cannot be trusted */
+    errorRegions: JsonTextRegion[];
+    /** The first syntax error, for invalid documents */
+    errorInfo?: JsonErrorInfo;
+    /** Time spent validating this version */
+    parseTime: number;
+    /** String ranges created so far, by string token */
+    stringRanges: Map<JsonToken, StringRange>;
+    /** The terminated string tokens outside the error regions */
+    stringTokens?: JsonToken[];
+    result?: JsonParsingResult;
+    metrics?: PerformanceMetrics;
+    /** Structure of the string ranges */
+    structuredRanges?: StructuredStringRange[];
+}
+
+/**
+ * Position and context of an escape sequence within a string
+ */
+export interface EscapePosition extends NewlinePosition {
+    kind: EscapeKind;
+    /** The text the escape stands for */
+    decoded: string;
     endPosition: vscode.Position;
     offset: number;
     endOffset: number;
+    /** Index among the escapes reported for the same string */
     indexInString: number;
     beforeText: string;
     afterText: string;
 }
 
+/**
+ * Escape position of a line break: a `\n` escape, or a `\r\n` pair
+ */
+export type DetailedNewlinePosition = EscapePosition;
+
 /**
  * Interface for visual position information
  */
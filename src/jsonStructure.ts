@@ -0,0 +1,489 @@
+import { JsonToken } from './jsonScanner';
+import { decodeJsonStringWithOffsets } from './jsonEscapes';
+
+/**
+ * A step into a JSON value: a property name or an array index
+ */
+export type JsonPathSegment = string | number;
+
+/**
+ * A path prefix to match strings against; `null` matches any single segment
+ */
+export type JsonPathPattern = (JsonPathSegment | null)[];
+
+/**
+ * Whether a string is a property name or a value
+ */
+export type StringRole = 'key' | 'value';
+
+/**
+ * Where a string sits in the document structure
+ */
+export interface StringStructure {
+    role: StringRole;
+    /** Path of the property a key names, or of the value itself */
+    path: JsonPathSegment[];
+}
+
+/**
+ * What can be written at an offset: a property name of an object or a value
+ */
+export interface JsonLocation {
+    role: StringRole;
+    /** Path of the object for a property name, of the value itself for a value */
+    path: JsonPathSegment[];
+    /** The string, number, literal or stray word the offset lies in, which an insertion replaces */
+    token?: JsonToken;
+    /** Property names the object already has, apart from the one being written */
+    siblingKeys: string[];
+}
+
+/**
+ * Kinds of foldable regions
+ */
+export type FoldingRegionKind = 'object' | 'array' | 'comment' | 'region';
+
+/**
+ * A foldable region, from the offset of its first token to the offset of its last one
+ */
+export interface FoldingRegion {
+    kind: FoldingRegionKind;
+    start: number;
+    /** Offset of the closing bracket, the last comment of a block or the end marker */
+    end: number;
+}
+
+/**
+ * Comments starting and ending a region, as in `// #region Messages` and `// #endregion`
+ */
+const REGION_START = /^(?:\/\/|\/\*)\s*#?region\b/;
+const REGION_END = /^(?:\/\/|\/\*)\s*#?endregion\b/;
+
+/**
+ * A container being walked, with the position reached inside it
+ */
+interface StructureFrame {
+    kind: 'object' | 'array';
+    /** Name of the current property of an object */
+    key?: string;
+    /** Index of the current element of an array */
+    index: number;
+    expectingKey: boolean;
+}
+
+/**
+ * Work out the role and path of every string token
+ * The walk follows brackets and separators only, so it keeps going through syntax errors; paths after
+ * a damaged region are a best effort
+ * @param text The text the tokens were scanned from
+ * @param tokens The tokens of the whole text, comments included
+ * @returns The structure of each string, keyed by token offset
+ */
+export function readStringStructure(text: string, tokens: readonly JsonToken[]): Map<number, StringStructure> {
+    const structure = new Map<number, StringStructure>();
+    const frames: StructureFrame[] = [];
+    const currentPath = () => frames.map(frame => frame.kind === 'object' ? frame.key ?? '' : frame.index);
+
+    for (const token of tokens) {
+        const top = frames[frames.length - 1];
+
+        switch (token.kind) {
+            case 'openBrace':
+                frames.push({ kind: 'object', index: 0, expectingKey: true });
+                break;
+            case 'openBracket':
+                frames.push({ kind: 'array', index: 0, expectingKey: false });
+                break;
+            case 'closeBrace':
+            case 'closeBracket':
+                frames.pop();
+                break;
+            case 'comma':
+                if (top?.kind === 'object') {
+                    top.expectingKey = true;
+                    top.key = undefined;
+                } else if (top) {
+                    top.index++;
+                }
+                break;
+            case 'string':
+                if (top?.kind === 'object' && top.expectingKey) {
+                    top.key = readStringToken(text, token);
+                    top.expectingKey = false;
+                    structure.set(token.offset, { role: 'key', path: currentPath() });
+                } else {
+                    structure.set(token.offset, { role: 'value', path: currentPath() });
+                }
+                break;
+        }
+    }
+
+    return structure;
+}
+
+/**
+ * Parse a JSON Pointer (RFC 6901), such as `/messages/0/text`
+ * @param pointer The pointer; the empty pointer is the whole document
+ * @returns The path, or null if the pointer does not start with `/`
+ */
+export function parseJsonPointer(pointer: string): JsonPathPattern | null {
+    if (pointer === '') {
+        return [];
+    }
+    if (!pointer.startsWith('/')) {
+        return null;
+    }
+
+    return pointer.substring(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Parse a JSONPath prefix made of names, indices and wildcards, such as `$.messages[*].text` or `$['a b'][0]`
+ * Filters, slices and recursive descent are not supported
+ * @param path The path; the leading `$` may be left out
+ * @returns The path, or null if it cannot be parsed
+ */
+export function parseJsonPath(path: string): JsonPathPattern | null {
+    const pattern: JsonPathPattern = [];
+    const segment = /\.([^.[\]]+)|\[\s*(?:(\d+)|\*|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)")\s*\]/y;
+
+    let rest = path.trim();
+    if (rest.startsWith('$')) {
+        rest = rest.substring(1);
+    } else if (rest && !rest.startsWith('.') && !rest.startsWith('[')) {
+        rest = '.' + rest;
+    }
+
+    for (let offset = 0; offset < rest.length;) {
+        segment.lastIndex = offset;
+        const match = segment.exec(rest);
+        if (!match) {
+            return null;
+        }
+
+        const [, name, index, singleQuoted, doubleQuoted] = match;
+        if (name !== undefined) {
+            pattern.push(name === '*' ? null : name);
+        } else if (index !== undefined) {
+            pattern.push(Number(index));
+        } else if (singleQuoted !== undefined || doubleQuoted !== undefined) {
+            pattern.push((singleQuoted ?? doubleQuoted).replace(/\\(.)/g, '$1'));
+        } else {
+            pattern.push(null);
+        }
+        offset = segment.lastIndex;
+    }
+
+    return pattern;
+}
+
+/**
+ * Write a path as a JSONPath, such as `$.messages[0].text` or `$['a b']`
+ * Names that are not identifiers are quoted, so the result parses back with parseJsonPath
+ * @param path The path
+ * @returns The JSONPath
+ */
+export function formatJsonPath(path: readonly JsonPathSegment[]): string {
+    return '$' + path.map(segment => {
+        if (typeof segment === 'number') {
+            return `[${segment}]`;
+        }
+        return /^[A-Za-z_$][\w$]*$/.test(segment) ? `.${segment}` : `['${segment.replace(/['\\]/g, '\\$&')}']`;
+    }).join('');
+}
+
+/**
+ * Parse a path prefix written either as a JSON Pointer or as a JSONPath
+ * @param expression A pointer starting with `/`, or a JSONPath
+ * @returns The path, or null if it cannot be parsed
+ */
+export function parsePathExpression(expression: string): JsonPathPattern | null {
+    const trimmed = expression.trim();
+    return trimmed === '' || trimmed.startsWith('/') ? parseJsonPointer(trimmed) : parseJsonPath(trimmed);
+}
+
+/**
+ * Check whether a path lies at or under a prefix
+ * Indices and names are compared as text, since a pointer cannot tell them apart
+ * @param path The path of a string
+ * @param prefix The prefix
+ * @returns True if every segment of the prefix matches the start of the path
+ */
+export function isPathUnder(path: readonly JsonPathSegment[], prefix: JsonPathPattern): boolean {
+    return prefix.length <= path.length &&
+        prefix.every((segment, i) => segment === null || String(segment) === String(path[i]));
+}
+
+/**
+ * Check whether a path matches a pattern as a whole
+ * In patterns `null` matches any single segment and a `**` segment matches any number of segments,
+ * so `$.queries[*].sql` matches one level of nesting and `$.**.sql` every `sql` property
+ * @param path The path of a string
+ * @param pattern The pattern
+ * @returns True if the pattern matches the entire path
+ */
+export function matchesPathPattern(path: readonly JsonPathSegment[], pattern: JsonPathPattern): boolean {
+    const matchFrom = (i: number, j: number): boolean => {
+        if (j === pattern.length) {
+            return i === path.length;
+        }
+        if (pattern[j] === '**') {
+            return matchFrom(i, j + 1) || (i < path.length && matchFrom(i + 1, j));
+        }
+        return i < path.length &&
+            (pattern[j] === null || String(pattern[j]) === String(path[i])) &&
+            matchFrom(i + 1, j + 1);
+    };
+
+    return matchFrom(0, 0);
+}
+
+/**
+ * A container being walked while locating an offset, with what it expects next
+ */
+interface LocationFrame {
+    kind: 'object' | 'array';
+    key?: string;
+    index: number;
+    expecting: 'key' | 'colon' | 'value' | 'comma';
+    /** Property names read so far */
+    keys: string[];
+}
+
+/**
+ * Work out whether a property name or a value can be written at an offset, and where in the structure
+ * Like readStringStructure the walk follows brackets and separators only, so it works in documents
+ * being typed
+ * @param text The text the tokens were scanned from
+ * @param tokens The tokens of the whole text, comments included
+ * @param offset The offset, typically the cursor
+ * @returns The location, or null inside a comment or where neither a name nor a value fits
+ */
+export function findLocation(text: string, tokens: readonly JsonToken[], offset: number): JsonLocation | null {
+    const frames: LocationFrame[] = [];
+    let hasRootValue = false;
+    let current: JsonToken | undefined;
+    let next = 0;
+
+    const expectsValue = () => frames.length === 0 ? !hasRootValue : frames[frames.length - 1].expecting === 'value';
+    const takeValue = () => {
+        if (frames.length === 0) {
+            hasRootValue = true;
+        } else {
+            frames[frames.length - 1].expecting = 'comma';
+        }
+    };
+
+    for (; next < tokens.length && tokens[next].offset < offset; next++) {
+        const token = tokens[next];
+        const end = token.offset + token.length;
+        const top = frames[frames.length - 1];
+
+        if (token.kind === 'lineComment' || token.kind === 'blockComment') {
+            if (offset < end || (offset === end && (token.kind === 'lineComment' || token.unterminated))) {
+                return null;
+            }
+            continue;
+        }
+        if (token.kind === 'string' && (offset < end || (offset === end && token.unterminated))) {
+            current = token;
+            break;
+        }
+        if ((token.kind === 'number' || token.kind === 'literal' || token.kind === 'invalid') && offset <= end) {
+            current = token;
+            break;
+        }
+
+        switch (token.kind) {
+            case 'openBrace':
+            case 'openBracket':
+                takeValue();
+                frames.push(token.kind === 'openBrace'
+                    ? { kind: 'object', index: 0, expecting: 'key', keys: [] }
+                    : { kind: 'array', index: 0, expecting: 'value', keys: [] });
+                break;
+            case 'closeBrace':
+            case 'closeBracket':
+                frames.pop();
+                break;
+            case 'colon':
+                if (top?.kind === 'object' && top.expecting === 'colon') {
+                    top.expecting = 'value';
+                }
+                break;
+            case 'comma':
+                if (top?.kind === 'object') {
+                    top.key = undefined;
+                    top.expecting = 'key';
+                } else if (top) {
+                    top.index++;
+                    top.expecting = 'value';
+                }
+                break;
+            case 'string':
+                if (top?.kind === 'object' && top.expecting === 'key') {
+                    top.key = readStringToken(text, token);
+                    top.keys.push(top.key);
+                    top.expecting = 'colon';
+                } else {
+                    takeValue();
+                }
+                break;
+            default:
+                takeValue();
+                break;
+        }
+    }
+
+    const top = frames[frames.length - 1];
+    const segments = (containers: LocationFrame[]) =>
+        containers.map(frame => frame.kind === 'object' ? frame.key ?? '' : frame.index);
+
+    if (top?.kind === 'object' && top.expecting === 'key') {
+        return {
+            role: 'key',
+            path: segments(frames.slice(0, -1)),
+            token: current,
+            siblingKeys: [...top.keys, ...findLaterKeys(text, tokens, current ? next + 1 : next, !current)]
+        };
+    }
+    if (expectsValue()) {
+        return { role: 'value', path: segments(frames), token: current, siblingKeys: [] };
+    }
+    return null;
+}
+
+/**
+ * Collect the property names that follow in the object being walked, up to its closing brace
+ * @param text The text the tokens were scanned from
+ * @param tokens The tokens of the whole text
+ * @param start Index of the first token after the offset
+ * @param startsWithKey Whether the first token may be a property name, as when nothing is being typed at the offset
+ * @returns The names in order
+ */
+function findLaterKeys(text: string, tokens: readonly JsonToken[], start: number, startsWithKey: boolean): string[] {
+    const keys: string[] = [];
+    let level = 0;
+    let expectingKey = startsWithKey;
+
+    for (let i = start; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.kind === 'openBrace' || token.kind === 'openBracket') {
+            level++;
+        } else if (token.kind === 'closeBrace' || token.kind === 'closeBracket') {
+            if (level === 0) {
+                break;
+            }
+            level--;
+        } else if (level === 0 && token.kind === 'comma') {
+            expectingKey = true;
+        } else if (level === 0 && token.kind === 'string' && expectingKey) {
+            keys.push(readStringToken(text, token));
+            expectingKey = false;
+        } else if (token.kind !== 'lineComment' && token.kind !== 'blockComment') {
+            expectingKey = false;
+        }
+    }
+
+    return keys;
+}
+
+/**
+ * Decode the content of a string token, which may be unterminated
+ * @param text The text the token was scanned from
+ * @param token The string token
+ * @returns The decoded content
+ */
+function readStringToken(text: string, token: JsonToken): string {
+    const content = text.substring(token.offset + 1, token.offset + token.length - (token.unterminated ? 0 : 1));
+    return decodeJsonStringWithOffsets(content).text;
+}
+
+/**
+ * Find the foldable regions of a text: objects, arrays, comment blocks and `#region` markers
+ * Brackets and markers are read from the tokens, so the ones inside strings and comments never count;
+ * unbalanced brackets and markers are skipped
+ * @param text The text the tokens were scanned from
+ * @param tokens The tokens of the whole text, comments included
+ * @returns The regions, ordered by start offset; a region may start and end on the same line
+ */
+export function findFoldingRegions(text: string, tokens: readonly JsonToken[]): FoldingRegion[] {
+    const regions: FoldingRegion[] = [];
+    const brackets: JsonToken[] = [];
+    const markers: JsonToken[] = [];
+    let commentBlock: { start: number; end: number; lastEnd: number } | null = null;
+
+    const closeCommentBlock = () => {
+        if (commentBlock && commentBlock.end > commentBlock.start) {
+            regions.push({ kind: 'comment', start: commentBlock.start, end: commentBlock.end });
+        }
+        commentBlock = null;
+    };
+
+    for (const token of tokens) {
+        const isLineComment = token.kind === 'lineComment';
+        const comment = isLineComment || token.kind === 'blockComment'
+            ? text.substr(token.offset, token.length)
+            : null;
+
+        if (comment !== null && REGION_START.test(comment)) {
+            closeCommentBlock();
+            markers.push(token);
+            continue;
+        }
+        if (comment !== null && REGION_END.test(comment)) {
+            closeCommentBlock();
+            const marker = markers.pop();
+            if (marker) {
+                regions.push({ kind: 'region', start: marker.offset, end: token.offset });
+            }
+            continue;
+        }
+
+        if (isLineComment && isFirstOnLine(text, token.offset)) {
+            // Line comments on consecutive lines fold together
+            if (commentBlock && /^[ \t]*\r?\n[ \t]*$/.test(text.substring(commentBlock.lastEnd, token.offset))) {
+                commentBlock.end = token.offset;
+                commentBlock.lastEnd = token.offset + token.length;
+            } else {
+                closeCommentBlock();
+                commentBlock = { start: token.offset, end: token.offset, lastEnd: token.offset + token.length };
+            }
+            continue;
+        }
+        closeCommentBlock();
+
+        switch (token.kind) {
+            case 'blockComment':
+                regions.push({ kind: 'comment', start: token.offset, end: token.offset + token.length });
+                break;
+            case 'openBrace':
+            case 'openBracket':
+                brackets.push(token);
+                break;
+            case 'closeBrace':
+            case 'closeBracket': {
+                const opening = brackets[brackets.length - 1];
+                if (opening && (opening.kind === 'openBrace') === (token.kind === 'closeBrace')) {
+                    brackets.pop();
+                    regions.push({ kind: token.kind === 'closeBrace' ? 'object' : 'array', start: opening.offset, end: token.offset });
+                }
+                break;
+            }
+        }
+    }
+    closeCommentBlock();
+
+    return regions.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Check whether only whitespace precedes an offset on its line
+ * @param text The text
+ * @param offset The offset
+ * @returns True if the offset starts the content of its line
+ */
+function isFirstOnLine(text: string, offset: number): boolean {
+    const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+    return /^[ \t]*$/.test(text.substring(lineStart, offset));
+}
@@ -0,0 +1,371 @@
+import * as vscode from 'vscode';
+import { JsonStringDetector } from './jsonStringDetector';
+import { escapeJsonString, unescapeJsonString, usesUnicodeEscapes } from './jsonEscapes';
+
+/**
+ * URI scheme of the temporary documents strings are edited in
+ */
+export const STRING_EDIT_SCHEME = 'json-string-edit';
+
+/**
+ * A JSON string opened for editing
+ * The string is tracked through edits to its source so it can be written back in place
+ */
+interface StringEditSession {
+    sourceUri: string;
+    /** Offset of the opening quote in the source */
+    offset: number;
+    /** Length of the string including its quotes */
+    length: number;
+    /** The escaped content the source is expected to hold */
+    content: string;
+    /** Replacement written back by the session itself, so its change event is not mistaken for a foreign edit */
+    pendingContent: string | null;
+    escapeNonAscii: boolean;
+    text: string;
+    mtime: number;
+    isStale: boolean;
+}
+
+/**
+ * Opens the string under the cursor unescaped in its own editor and writes it back re-escaped on save
+ * The editor's documents are served by a file system provider, so saving (or closing with save) writes back
+ * into the JSON document as a single edit; saving is refused once the source string changed underneath
+ */
+export class MultilineStringEditor implements vscode.FileSystemProvider, vscode.Disposable {
+    private jsonDetector: JsonStringDetector;
+    private sessions: Map<string, StringEditSession> = new Map();
+    private nextSessionId = 1;
+    private fileChangeEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    private disposables: vscode.Disposable[] = [];
+
+    public readonly onDidChangeFile = this.fileChangeEmitter.event;
+
+    constructor() {
+        this.jsonDetector = new JsonStringDetector();
+        this.setupEventHandlers();
+    }
+
+    /**
+     * Track the sources of open sessions
+     */
+    private setupEventHandlers(): void {
+        const onDidChangeTextDocument = vscode.workspace.onDidChangeTextDocument((event) => {
+            this.trackSourceChanges(event);
+        });
+
+        // Sessions end with their editor
+        const onDidCloseTextDocument = vscode.workspace.onDidCloseTextDocument((document) => {
+            if (document.uri.scheme === STRING_EDIT_SCHEME) {
+                this.sessions.delete(document.uri.path);
+            }
+        });
+
+        this.disposables.push(onDidChangeTextDocument, onDidCloseTextDocument, this.fileChangeEmitter);
+    }
+
+    /**
+     * Register the file system provider serving the documents strings are edited in
+     * A scheme can only have one provider, so this is left to the extension rather than done by every instance
+     * @param context The extension context
+     */
+    public registerFileSystemProvider(context: vscode.ExtensionContext): void {
+        const provider = vscode.workspace.registerFileSystemProvider(STRING_EDIT_SCHEME, this, { isCaseSensitive: true });
+        context.subscriptions.push(provider);
+    }
+
+    /**
+     * Register the "Edit String as Multiline" command
+     * @param context The extension context
+     */
+    public registerCommands(context: vscode.ExtensionContext): void {
+        // Links in the string hover pass the document as a string and the offset of the string;
+        // the editor context menu passes the URI of the document, whose cursor gives the string
+        const editCommand = vscode.commands.registerCommand('json-newline-formatter.editStringAsMultiline', async (sourceUri?: unknown, offset?: unknown) => {
+            let source: vscode.TextDocument | undefined;
+            let position: vscode.Position | undefined;
+            if (typeof sourceUri === 'string' && typeof offset === 'number') {
+                source = vscode.workspace.textDocuments.find(document => document.uri.toString() === sourceUri);
+                position = source?.positionAt(offset);
+            } else {
+                const editor = this.findCommandEditor(sourceUri);
+                source = editor?.document;
+                position = editor?.selection.active;
+            }
+            if (!source || !position || !this.isJsonDocument(source)) {
+                vscode.window.showWarningMessage('JSON Newline Formatter: Open a JSON file to edit one of its strings.');
+                return;
+            }
+
+            const uri = this.openSession(source, position);
+            if (!uri) {
+                return;
+            }
+
+            try {
+                const document = await vscode.workspace.openTextDocument(uri);
+                await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.Beside, preview: false });
+            } catch (error) {
+                this.sessions.delete(uri.path);
+                console.error('MultilineStringEditor: Failed to open the string editor', error);
+                vscode.window.showErrorMessage('JSON Newline Formatter: Unable to open the string for editing.');
+            }
+        });
+
+        context.subscriptions.push(editCommand);
+    }
+
+    /**
+     * Find the editor a command applies to from its first argument
+     * @param source A URI from a menu, or nothing from the palette
+     * @returns The editor showing the document, preferring the active one, or the active editor without an argument
+     */
+    private findCommandEditor(source: unknown): vscode.TextEditor | undefined {
+        const activeEditor = vscode.window.activeTextEditor;
+        if (!(source instanceof vscode.Uri)) {
+            return activeEditor;
+        }
+
+        return activeEditor?.document.uri.toString() === source.toString()
+            ? activeEditor
+            : vscode.window.visibleTextEditors.find(candidate => candidate.document.uri.toString() === source.toString());
+    }
+
+    /**
+     * Start editing the string at a position
+     * @param document The JSON document
+     * @param position A position inside the string
+     * @returns The URI of the document holding the unescaped string, or undefined if there is no string to edit
+     */
+    public openSession(document: vscode.TextDocument, position: vscode.Position): vscode.Uri | undefined {
+        const stringRange = this.jsonDetector.getStringRangeAtPosition(document, position);
+        if (!stringRange) {
+            vscode.window.showWarningMessage('JSON Newline Formatter: Place the cursor inside a string to edit it.');
+            return undefined;
+        }
+
+        let text: string;
+        try {
+            text = unescapeJsonString(stringRange.content);
+        } catch (error) {
+            vscode.window.showWarningMessage('JSON Newline Formatter: This string contains invalid escape sequences and cannot be edited.');
+            return undefined;
+        }
+
+        const offset = document.offsetAt(stringRange.start);
+        const fileName = document.uri.path.substring(document.uri.path.lastIndexOf('/') + 1) || 'string';
+        const uri = vscode.Uri.from({
+            scheme: STRING_EDIT_SCHEME,
+            path: `/${this.nextSessionId++}/${fileName} (line ${stringRange.start.line + 1}).txt`
+        });
+
+        this.sessions.set(uri.path, {
+            sourceUri: document.uri.toString(),
+            offset,
+            length: document.offsetAt(stringRange.end) - offset,
+            content: stringRange.content,
+            pendingContent: null,
+            escapeNonAscii: usesUnicodeEscapes(stringRange.content),
+            text,
+            mtime: Date.now(),
+            isStale: false
+        });
+
+        return uri;
+    }
+
+    /**
+     * Write edited text back into the source string as a single edit
+     * @param uri The URI of the edited string
+     * @param text The edited, unescaped text
+     * @returns An error message if the write-back was refused, or undefined on success
+     */
+    public async writeBack(uri: vscode.Uri, text: string): Promise<string | undefined> {
+        const session = this.sessions.get(uri.path);
+        if (!session) {
+            return 'This string is no longer being edited.';
+        }
+
+        const source = vscode.workspace.textDocuments.find(document => document.uri.toString() === session.sourceUri);
+        if (!source || source.isClosed) {
+            return 'The JSON file this string came from was closed.';
+        }
+
+        const contentStart = session.offset + 1;
+        const contentRange = new vscode.Range(source.positionAt(contentStart), source.positionAt(session.offset + session.length - 1));
+        if (session.isStale || source.getText(contentRange) !== session.content) {
+            return 'The string was changed in the JSON file after it was opened for editing. Reopen it to edit the current value.';
+        }
+
+        const escaped = escapeJsonString(text, { escapeNonAscii: session.escapeNonAscii });
+        if (escaped !== session.content) {
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(source.uri, contentRange, escaped);
+
+            session.pendingContent = escaped;
+            const applied = await vscode.workspace.applyEdit(edit);
+            if (session.pendingContent === escaped) {
+                // The change event has not arrived (or the edit failed), so account for the edit here
+                session.pendingContent = null;
+                if (applied) {
+                    session.length = escaped.length + 2;
+                    session.content = escaped;
+                }
+            }
+            if (!applied) {
+                return 'The edit could not be applied to the JSON file.';
+            }
+        }
+
+        session.text = text;
+        session.mtime = Date.now();
+        return undefined;
+    }
+
+    /**
+     * Follow edits to the sources of open sessions
+     * Strings move with edits before them; any other edit touching a string makes its session stale
+     * @param event The text document change event
+     */
+    private trackSourceChanges(event: vscode.TextDocumentChangeEvent): void {
+        const sourceUri = event.document.uri.toString();
+
+        for (const session of this.sessions.values()) {
+            if (session.sourceUri !== sourceUri || session.isStale) {
+                continue;
+            }
+
+            // Changes in one event apply sequentially, each against the result of the previous one
+            for (const change of event.contentChanges) {
+                const changeEnd = change.rangeOffset + change.rangeLength;
+                const delta = change.text.length - change.rangeLength;
+
+                if (session.pendingContent !== null && change.rangeOffset === session.offset + 1 &&
+                    changeEnd === session.offset + session.length - 1 && change.text === session.pendingContent) {
+                    // The session's own write-back
+                    session.content = session.pendingContent;
+                    session.length += delta;
+                    session.pendingContent = null;
+                } else if (changeEnd <= session.offset) {
+                    session.offset += delta;
+                } else if (change.rangeOffset >= session.offset + session.length) {
+                    continue;
+                } else {
+                    session.isStale = true;
+                    break;
+                }
+            }
+        }
+    }
+
+    /**
+     * Watch an edited string; sessions only change through their own editor, so there is nothing to watch
+     * @returns A no-op disposable
+     */
+    public watch(): vscode.Disposable {
+        return new vscode.Disposable(() => undefined);
+    }
+
+    /**
+     * Describe the document of an edited string
+     * @param uri The URI of the edited string
+     * @returns The file metadata
+     */
+    public stat(uri: vscode.Uri): vscode.FileStat {
+        const session = this.getSession(uri);
+        return {
+            type: vscode.FileType.File,
+            ctime: session.mtime,
+            mtime: session.mtime,
+            size: Buffer.byteLength(session.text, 'utf8')
+        };
+    }
+
+    /**
+     * Read the unescaped text of an edited string
+     * @param uri The URI of the edited string
+     * @returns The text as UTF-8
+     */
+    public readFile(uri: vscode.Uri): Uint8Array {
+        return Buffer.from(this.getSession(uri).text, 'utf8');
+    }
+
+    /**
+     * Save an edited string by writing it back into its JSON document
+     * @param uri The URI of the edited string
+     * @param content The edited text as UTF-8
+     * @throws FileSystemError if the write-back was refused, so the editor stays dirty
+     */
+    public async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+        const error = await this.writeBack(uri, Buffer.from(content).toString('utf8'));
+        if (error) {
+            vscode.window.showErrorMessage(`JSON Newline Formatter: ${error}`);
+            throw vscode.FileSystemError.Unavailable(error);
+        }
+        this.fileChangeEmitter.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+    }
+
+    /**
+     * Edited strings are not organized in directories
+     * @returns No entries
+     */
+    public readDirectory(): [string, vscode.FileType][] {
+        return [];
+    }
+
+    /**
+     * Reject creating directories
+     * @param uri The requested URI
+     */
+    public createDirectory(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    /**
+     * Reject deleting edited strings
+     * @param uri The requested URI
+     */
+    public delete(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    /**
+     * Reject renaming edited strings
+     * @param uri The requested URI
+     */
+    public rename(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    /**
+     * Get the session behind a URI
+     * @param uri The URI of the edited string
+     * @returns The session
+     * @throws FileSystemError if the session has ended
+     */
+    private getSession(uri: vscode.Uri): StringEditSession {
+        const session = this.sessions.get(uri.path);
+        if (!session) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return session;
+    }
+
+    /**
+     * Check if a document is a JSON document
+     * @param document The document to check
+     * @returns True if the document is JSON
+     */
+    private isJsonDocument(document: vscode.TextDocument): boolean {
+        return document.languageId === 'json' || document.languageId === 'jsonc';
+    }
+
+    /**
+     * Dispose of resources
+     */
+    public dispose(): void {
+        this.sessions.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+}
@@ -0,0 +1,284 @@
+import { DetailedNewlinePosition } from './jsonStringDetector';
+import { decodeJsonStringWithOffsets, isUnprintableCharacter } from './jsonEscapes';
+
+/**
+ * An escape sequence to render: a `\n` escape (or `\r\n` pair) as a real line break, or another escape
+ * as the text it stands for
+ */
+export interface RenderedEscape {
+    /** Offset of the backslash in the source text */
+    offset: number;
+    /** Length of the escape, 2 unless it is a `\r\n` pair */
+    length?: number;
+    /** Offset of the opening quote of the string containing the escape */
+    stringOffset: number;
+    /** The decoded text of the escape; a line break when left out */
+    text?: string;
+}
+
+/**
+ * How the rendered text is laid out
+ */
+export interface RenderingOptions {
+    /** Indent continuation lines under the line their string starts on, defaults to true */
+    indentContinuationLines?: boolean;
+}
+
+/**
+ * A line and character in the rendered text, both zero-based
+ */
+export interface RenderedPosition {
+    line: number;
+    character: number;
+}
+
+/**
+ * A stretch of the rendered text and the source text it was produced from
+ * Copied stretches have equal lengths; a line break replaces an escape with a newline and indentation
+ */
+interface RenderedSegment {
+    renderedOffset: number;
+    renderedLength: number;
+    sourceOffset: number;
+    sourceLength: number;
+}
+
+/**
+ * Indentation added below the key of a string, on top of the indentation of its line
+ */
+const CONTINUATION_INDENT = '  ';
+
+/**
+ * Convert the line break escapes found by the detector into breaks to render
+ * @param newlinePositions The line break escapes, in document order
+ * @returns The breaks
+ */
+export function toRenderedBreaks(newlinePositions: readonly DetailedNewlinePosition[]): RenderedEscape[] {
+    return newlinePositions.map(newlinePos => ({
+        offset: newlinePos.offset,
+        length: newlinePos.endOffset - newlinePos.offset,
+        // The escape's string starts at the quote before its text
+        stringOffset: newlinePos.offset - newlinePos.beforeText.length - 1
+    }));
+}
+
+/**
+ * Find the escapes of strings that render as the character they stand for: tabs, quotes, backslashes,
+ * slashes and unicode escapes, including surrogate pairs
+ * Line breaks are left to toRenderedBreaks, and characters that would be invisible or break the line stay escaped
+ * @param strings The offset of the opening quote and the escaped content of each string, in document order
+ * @returns The escapes with their decoded text, in document order
+ */
+export function toDecodedEscapes(strings: readonly { offset: number; content: string }[]): RenderedEscape[] {
+    const escapes: RenderedEscape[] = [];
+
+    for (const string of strings) {
+        const { text, sourceOffsets } = decodeJsonStringWithOffsets(string.content);
+
+        for (let i = 0; i < text.length;) {
+            // Both halves of an escaped surrogate pair render as one character
+            const isPair = /[\ud800-\udbff]/.test(text[i]) && /[\udc00-\udfff]/.test(text[i + 1] ?? '') &&
+                sourceOffsets[i + 2] - sourceOffsets[i + 1] > 1;
+            const count = isPair ? 2 : 1;
+            const start = sourceOffsets[i];
+            const end = sourceOffsets[i + count];
+            const decoded = text.substring(i, i + count);
+            i += count;
+
+            if (end - start > count && (isPair || !isUnprintableCharacter(decoded, true))) {
+                escapes.push({ offset: string.offset + 1 + start, length: end - start, stringOffset: string.offset, text: decoded });
+            }
+        }
+    }
+
+    return escapes;
+}
+
+/**
+ * Source text with its `\n` escapes rendered as real line breaks, and any other escapes given as their decoded
+ * text, with the mapping between both texts
+ * Continuation lines are indented under the line the string starts on, so multiline values read as a block;
+ * without indentation the rendered text is the visual text of the editor, so both share one coordinate system
+ */
+export class RenderedStrings {
+    public readonly text: string;
+    private segments: RenderedSegment[] = [];
+    /** Offsets in the rendered text where each line starts */
+    private lineStarts: number[] = [0];
+
+    /**
+     * @param sourceText The JSON source text
+     * @param escapes The escapes to render, in document order
+     * @param options How the rendered text is laid out
+     */
+    constructor(public readonly sourceText: string, escapes: readonly RenderedEscape[], options: RenderingOptions = {}) {
+        const indentContinuationLines = options.indentContinuationLines ?? true;
+        const parts: string[] = [];
+        let sourceOffset = 0;
+        let renderedOffset = 0;
+
+        for (const escape of escapes) {
+            if (escape.offset < sourceOffset) {
+                continue;
+            }
+
+            const copied = sourceText.substring(sourceOffset, escape.offset);
+            this.pushSegment(parts, copied, sourceOffset, copied.length, renderedOffset);
+            renderedOffset += copied.length;
+
+            const length = escape.length ?? 2;
+            const rendered = escape.text ?? (indentContinuationLines
+                ? '\n' + this.getIndentation(escape.stringOffset) + CONTINUATION_INDENT
+                : '\n');
+            this.pushSegment(parts, rendered, escape.offset, length, renderedOffset);
+            renderedOffset += rendered.length;
+            sourceOffset = escape.offset + length;
+        }
+
+        const rest = sourceText.substring(sourceOffset);
+        this.pushSegment(parts, rest, sourceOffset, rest.length, renderedOffset);
+        this.text = parts.join('');
+
+        for (let i = this.text.indexOf('\n'); i !== -1; i = this.text.indexOf('\n', i + 1)) {
+            this.lineStarts.push(i + 1);
+        }
+    }
+
+    /**
+     * Map an offset in the rendered text back to the source text
+     * Offsets inside a rendered line break map to the escape, or to the character after it on the continuation line
+     * @param renderedOffset Offset in the rendered text
+     * @returns The matching offset in the source text
+     */
+    public toSourceOffset(renderedOffset: number): number {
+        const segment = this.findSegment(renderedOffset, 'renderedOffset');
+        if (!segment) {
+            return 0;
+        }
+
+        const distance = renderedOffset - segment.renderedOffset;
+        if (segment.renderedLength === segment.sourceLength) {
+            return segment.sourceOffset + Math.min(distance, segment.sourceLength);
+        }
+        return distance === 0 ? segment.sourceOffset : segment.sourceOffset + segment.sourceLength;
+    }
+
+    /**
+     * Map an offset in the source text to the rendered text
+     * Offsets inside a `\n` escape map to the line break, or to the start of the continuation line
+     * @param sourceOffset Offset in the source text
+     * @returns The matching offset in the rendered text
+     */
+    public toRenderedOffset(sourceOffset: number): number {
+        const segment = this.findSegment(sourceOffset, 'sourceOffset');
+        if (!segment) {
+            return 0;
+        }
+
+        const distance = sourceOffset - segment.sourceOffset;
+        if (segment.renderedLength === segment.sourceLength) {
+            return segment.renderedOffset + Math.min(distance, segment.renderedLength);
+        }
+        return distance === 0 ? segment.renderedOffset : segment.renderedOffset + segment.renderedLength;
+    }
+
+    /**
+     * Get the line and character of an offset in the rendered text
+     * @param renderedOffset Offset in the rendered text, clamped to the text
+     * @returns The position
+     */
+    public positionAt(renderedOffset: number): RenderedPosition {
+        const offset = Math.max(0, Math.min(renderedOffset, this.text.length));
+        let low = 0;
+        let high = this.lineStarts.length;
+
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            if (this.lineStarts[mid] <= offset) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+
+        const line = Math.max(0, low - 1);
+        return { line, character: offset - this.lineStarts[line] };
+    }
+
+    /**
+     * Get the offset of a line and character in the rendered text
+     * @param position The position; lines and characters past the end are clamped like editor positions
+     * @returns Offset in the rendered text
+     */
+    public offsetAt(position: RenderedPosition): number {
+        if (position.line < 0) {
+            return 0;
+        }
+        if (position.line >= this.lineStarts.length) {
+            return this.text.length;
+        }
+
+        const lineStart = this.lineStarts[position.line];
+        let lineEnd = this.text.length;
+        if (position.line + 1 < this.lineStarts.length) {
+            // The line break, and the carriage return of a CRLF line ending, are not part of the line
+            lineEnd = this.lineStarts[position.line + 1] - 1;
+            if (lineEnd > lineStart && this.text[lineEnd - 1] === '\r') {
+                lineEnd--;
+            }
+        }
+        return lineStart + Math.max(0, Math.min(position.character, lineEnd - lineStart));
+    }
+
+    /**
+     * Append a segment unless it is empty
+     * @param parts The rendered text built so far
+     * @param rendered The rendered text of the segment
+     * @param sourceOffset Offset of the segment in the source text
+     * @param sourceLength Length of the segment in the source text
+     * @param renderedOffset Offset of the segment in the rendered text
+     */
+    private pushSegment(parts: string[], rendered: string, sourceOffset: number, sourceLength: number, renderedOffset: number): void {
+        if (rendered.length === 0 && sourceLength === 0) {
+            return;
+        }
+        parts.push(rendered);
+        this.segments.push({ renderedOffset, renderedLength: rendered.length, sourceOffset, sourceLength });
+    }
+
+    /**
+     * Get the leading whitespace of the source line containing an offset
+     * @param offset Offset in the source text
+     * @returns The indentation of the line
+     */
+    private getIndentation(offset: number): string {
+        const lineStart = this.sourceText.lastIndexOf('\n', offset - 1) + 1;
+        let end = lineStart;
+        while (end < offset && (this.sourceText[end] === ' ' || this.sourceText[end] === '\t')) {
+            end++;
+        }
+        return this.sourceText.substring(lineStart, end);
+    }
+
+    /**
+     * Binary search for the last segment starting at or before an offset
+     * @param offset The offset to look up
+     * @param key Whether the offset is in the rendered or the source text
+     * @returns The segment, or undefined for empty texts
+     */
+    private findSegment(offset: number, key: 'renderedOffset' | 'sourceOffset'): RenderedSegment | undefined {
+        let low = 0;
+        let high = this.segments.length;
+
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            if (this.segments[mid][key] <= offset) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+
+        return this.segments[Math.max(0, low - 1)];
+    }
+}
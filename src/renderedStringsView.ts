@@ -0,0 +1,357 @@
+import * as vscode from 'vscode';
+import { JsonStringDetector } from './jsonStringDetector';
+import { RenderedStrings, toDecodedEscapes, toRenderedBreaks } from './renderedStrings';
+
+/**
+ * URI scheme of the read-only rendered strings documents
+ */
+export const RENDERED_STRINGS_SCHEME = 'json-newline-rendered';
+
+/**
+ * Delay before a rendered view follows edits to its source, so typing does not re-render on every keystroke
+ */
+const RENDER_DELAY = 150;
+
+/**
+ * Time during which scroll events of an editor scrolled by the view itself are ignored
+ */
+const SCROLL_ECHO_INTERVAL = 200;
+
+/**
+ * Shows JSON documents side by side with their strings as they really render: `\n` escapes as real line breaks,
+ * and tabs, quotes, backslashes and unicode escapes as the characters they stand for
+ * The rendered document is provided through a virtual document scheme, scrolls along with its source,
+ * and clicking in it jumps to the matching offset in the source
+ */
+export class RenderedStringsView implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private jsonDetector: JsonStringDetector;
+    private changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    private renderings: Map<string, RenderedStrings> = new Map();
+    private pendingRenders: Map<string, NodeJS.Timeout> = new Map();
+    private scrolledBySync: Map<vscode.TextEditor, number> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    public readonly onDidChange = this.changeEmitter.event;
+
+    constructor() {
+        this.jsonDetector = new JsonStringDetector();
+        this.setupEventHandlers();
+    }
+
+    /**
+     * Register the content provider and follow edits, scrolling and clicks
+     */
+    private setupEventHandlers(): void {
+        const provider = vscode.workspace.registerTextDocumentContentProvider(RENDERED_STRINGS_SCHEME, this);
+
+        // Re-render open views when their source changes
+        const onDidChangeTextDocument = vscode.workspace.onDidChangeTextDocument((event) => {
+            const renderedUri = RenderedStringsView.getRenderedUri(event.document.uri);
+            if (this.renderings.has(renderedUri.toString())) {
+                this.scheduleRender(renderedUri);
+            }
+        });
+
+        const onDidCloseTextDocument = vscode.workspace.onDidCloseTextDocument((document) => {
+            if (document.uri.scheme === RENDERED_STRINGS_SCHEME) {
+                this.forgetRendering(document.uri.toString());
+            }
+        });
+
+        const onDidChangeVisibleRanges = vscode.window.onDidChangeTextEditorVisibleRanges((event) => {
+            this.syncScroll(event.textEditor);
+        });
+
+        // Clicking in the rendered view jumps to the source
+        const onDidChangeSelection = vscode.window.onDidChangeTextEditorSelection((event) => {
+            if (event.textEditor.document.uri.scheme === RENDERED_STRINGS_SCHEME &&
+                event.kind === vscode.TextEditorSelectionChangeKind.Mouse &&
+                event.selections.length === 1 && event.selections[0].isEmpty) {
+                this.jumpToSource(event.textEditor);
+            }
+        });
+
+        this.disposables.push(
+            provider,
+            onDidChangeTextDocument,
+            onDidCloseTextDocument,
+            onDidChangeVisibleRanges,
+            onDidChangeSelection,
+            this.changeEmitter
+        );
+    }
+
+    /**
+     * Register the commands for opening the view and jumping back to the source
+     * @param context The extension context
+     */
+    public registerCommands(context: vscode.ExtensionContext): void {
+        // Links in the string hover pass the document as a string and the offset of the string to show;
+        // the editor title and context menus pass the URI of the document
+        const openCommand = vscode.commands.registerCommand('json-newline-formatter.openRenderedView', async (source?: unknown, offset?: unknown) => {
+            const editor = this.findCommandEditor(source);
+            if (!editor || !this.isJsonDocument(editor.document)) {
+                vscode.window.showWarningMessage('JSON Newline Formatter: Open a JSON file to show its rendered strings.');
+                return;
+            }
+
+            const renderedEditor = await this.openRenderedView(editor);
+            if (typeof source === 'string' && typeof offset === 'number') {
+                this.revealSourceOffset(renderedEditor, offset);
+            }
+        });
+
+        const jumpCommand = vscode.commands.registerCommand('json-newline-formatter.jumpToSource', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (editor && editor.document.uri.scheme === RENDERED_STRINGS_SCHEME) {
+                await this.jumpToSource(editor);
+            }
+        });
+
+        context.subscriptions.push(openCommand, jumpCommand);
+    }
+
+    /**
+     * Find the editor a command applies to from its first argument
+     * @param source The document URI as a string from a hover link, a URI from a menu, or nothing from the palette
+     * @returns The editor showing the document, preferring the active one, or the active editor without an argument
+     */
+    private findCommandEditor(source: unknown): vscode.TextEditor | undefined {
+        const activeEditor = vscode.window.activeTextEditor;
+        const uri = typeof source === 'string' ? source : source instanceof vscode.Uri ? source.toString() : undefined;
+        if (uri === undefined) {
+            return activeEditor;
+        }
+
+        return activeEditor?.document.uri.toString() === uri
+            ? activeEditor
+            : vscode.window.visibleTextEditors.find(candidate => candidate.document.uri.toString() === uri);
+    }
+
+    /**
+     * Get the URI of the rendered view of a source document
+     * @param sourceUri The URI of the JSON document
+     * @returns The URI of its rendered view
+     */
+    public static getRenderedUri(sourceUri: vscode.Uri): vscode.Uri {
+        return vscode.Uri.from({
+            scheme: RENDERED_STRINGS_SCHEME,
+            path: `${sourceUri.path} (rendered)`,
+            query: sourceUri.toString()
+        });
+    }
+
+    /**
+     * Get the URI of the source document of a rendered view
+     * @param renderedUri The URI of the rendered view
+     * @returns The URI of the JSON document
+     */
+    public static getSourceUri(renderedUri: vscode.Uri): vscode.Uri {
+        return vscode.Uri.parse(renderedUri.query);
+    }
+
+    /**
+     * Provide the text of a rendered view
+     * @param uri The URI of the rendered view
+     * @returns The source text with its `\n` escapes rendered as line breaks and its other escapes decoded
+     */
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        const source = this.findSourceDocument(uri);
+        if (!source) {
+            this.forgetRendering(uri.toString());
+            return '';
+        }
+
+        const rendering = this.render(source);
+        this.renderings.set(uri.toString(), rendering);
+        return rendering.text;
+    }
+
+    /**
+     * Render a JSON document
+     * Escapes of invisible characters stay escaped; strings that are broken by syntax errors are left as they are, like in the editor
+     * @param document The JSON document
+     * @returns The rendered text and its mapping to the source
+     */
+    public render(document: vscode.TextDocument): RenderedStrings {
+        const breaks = toRenderedBreaks(this.jsonDetector.getDetailedNewlinePositions(document));
+        const escapes = toDecodedEscapes(this.jsonDetector.findStringRanges(document).map(stringRange => ({
+            offset: document.offsetAt(stringRange.start),
+            content: stringRange.content
+        })));
+
+        return new RenderedStrings(document.getText(), [...breaks, ...escapes].sort((a, b) => a.offset - b.offset));
+    }
+
+    /**
+     * Open the rendered view of a JSON editor beside it
+     * @param editor The editor showing the JSON document
+     * @returns The editor showing the rendered view
+     */
+    public async openRenderedView(editor: vscode.TextEditor): Promise<vscode.TextEditor> {
+        const renderedDocument = await vscode.workspace.openTextDocument(RenderedStringsView.getRenderedUri(editor.document.uri));
+        const renderedEditor = await vscode.window.showTextDocument(renderedDocument, {
+            viewColumn: vscode.ViewColumn.Beside,
+            preserveFocus: true,
+            preview: false
+        });
+
+        this.syncScroll(editor);
+        return renderedEditor;
+    }
+
+    /**
+     * Place the cursor of a rendered view on the rendering of a source offset and scroll it into view
+     * @param renderedEditor The editor showing the rendered view
+     * @param offset The offset in the source document
+     */
+    public revealSourceOffset(renderedEditor: vscode.TextEditor, offset: number): void {
+        const rendering = this.getCurrentRendering(renderedEditor.document);
+        if (!rendering) {
+            return;
+        }
+
+        const position = renderedEditor.document.positionAt(rendering.toRenderedOffset(offset));
+        this.scrolledBySync.set(renderedEditor, Date.now());
+        renderedEditor.selection = new vscode.Selection(position, position);
+        renderedEditor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
+    }
+
+    /**
+     * Move the source editor to the position under the cursor of a rendered view
+     * @param renderedEditor The editor showing the rendered view
+     */
+    public async jumpToSource(renderedEditor: vscode.TextEditor): Promise<void> {
+        const rendering = this.getCurrentRendering(renderedEditor.document);
+        const source = this.findSourceDocument(renderedEditor.document.uri);
+        if (!rendering || !source) {
+            return;
+        }
+
+        const renderedOffset = renderedEditor.document.offsetAt(renderedEditor.selection.active);
+        const position = source.positionAt(rendering.toSourceOffset(renderedOffset));
+        const sourceEditor = vscode.window.visibleTextEditors.find(editor => editor.document === source);
+
+        try {
+            const editor = await vscode.window.showTextDocument(source, {
+                viewColumn: sourceEditor?.viewColumn,
+                selection: new vscode.Range(position, position),
+                preview: false
+            });
+            editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        } catch (error) {
+            console.warn('RenderedStringsView: Failed to jump to source', error);
+        }
+    }
+
+    /**
+     * Scroll the counterpart of an editor so both show the same part of the document
+     * @param editor The editor that scrolled
+     */
+    private syncScroll(editor: vscode.TextEditor): void {
+        // Ignore the scroll events caused by the view's own reveal
+        const syncedAt = this.scrolledBySync.get(editor);
+        if (syncedAt !== undefined) {
+            this.scrolledBySync.delete(editor);
+            if (Date.now() - syncedAt < SCROLL_ECHO_INTERVAL) {
+                return;
+            }
+        }
+
+        const isRendered = editor.document.uri.scheme === RENDERED_STRINGS_SCHEME;
+        if (!isRendered && !this.isJsonDocument(editor.document)) {
+            return;
+        }
+
+        const renderedUri = isRendered ? editor.document.uri.toString() : RenderedStringsView.getRenderedUri(editor.document.uri).toString();
+        const sourceUri = isRendered ? RenderedStringsView.getSourceUri(editor.document.uri).toString() : editor.document.uri.toString();
+        const targetUri = isRendered ? sourceUri : renderedUri;
+        const target = vscode.window.visibleTextEditors.find(other => other.document.uri.toString() === targetUri);
+        const renderedDocument = isRendered ? editor.document : target?.document;
+        const rendering = renderedDocument && this.getCurrentRendering(renderedDocument);
+        if (!target || !rendering || editor.visibleRanges.length === 0) {
+            return;
+        }
+
+        const topOffset = editor.document.offsetAt(new vscode.Position(editor.visibleRanges[0].start.line, 0));
+        const targetOffset = isRendered ? rendering.toSourceOffset(topOffset) : rendering.toRenderedOffset(topOffset);
+        const targetLine = target.document.positionAt(targetOffset).line;
+        if (target.visibleRanges.length > 0 && target.visibleRanges[0].start.line === targetLine) {
+            return;
+        }
+
+        this.scrolledBySync.set(target, Date.now());
+        target.revealRange(new vscode.Range(targetLine, 0, targetLine, 0), vscode.TextEditorRevealType.AtTop);
+    }
+
+    /**
+     * Re-render a view shortly after its source changed
+     * @param renderedUri The URI of the rendered view
+     */
+    private scheduleRender(renderedUri: vscode.Uri): void {
+        const key = renderedUri.toString();
+        const pending = this.pendingRenders.get(key);
+        if (pending) {
+            clearTimeout(pending);
+        }
+
+        this.pendingRenders.set(key, setTimeout(() => {
+            this.pendingRenders.delete(key);
+            this.changeEmitter.fire(renderedUri);
+        }, RENDER_DELAY));
+    }
+
+    /**
+     * Get the rendering that produced the current text of a rendered view
+     * @param renderedDocument The rendered view
+     * @returns The rendering, or undefined while the view is being re-rendered
+     */
+    private getCurrentRendering(renderedDocument: vscode.TextDocument): RenderedStrings | undefined {
+        const rendering = this.renderings.get(renderedDocument.uri.toString());
+        return rendering && rendering.text.length === renderedDocument.getText().length ? rendering : undefined;
+    }
+
+    /**
+     * Find the open source document of a rendered view
+     * @param renderedUri The URI of the rendered view
+     * @returns The source document, or undefined if it was closed
+     */
+    private findSourceDocument(renderedUri: vscode.Uri): vscode.TextDocument | undefined {
+        const sourceUri = RenderedStringsView.getSourceUri(renderedUri).toString();
+        return vscode.workspace.textDocuments.find(document => document.uri.toString() === sourceUri);
+    }
+
+    /**
+     * Forget the rendering of a view and any pending re-render
+     * @param renderedUri The URI of the rendered view
+     */
+    private forgetRendering(renderedUri: string): void {
+        this.renderings.delete(renderedUri);
+        const pending = this.pendingRenders.get(renderedUri);
+        if (pending) {
+            clearTimeout(pending);
+            this.pendingRenders.delete(renderedUri);
+        }
+    }
+
+    /**
+     * Check if a document is a JSON document
+     * @param document The document to check
+     * @returns True if the document is JSON
+     */
+    private isJsonDocument(document: vscode.TextDocument): boolean {
+        return document.languageId === 'json' || document.languageId === 'jsonc';
+    }
+
+    /**
+     * Dispose of resources
+     */
+    public dispose(): void {
+        this.pendingRenders.forEach(pending => clearTimeout(pending));
+        this.pendingRenders.clear();
+        this.renderings.clear();
+        this.scrolledBySync.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+}
@@ -1,7 +1,52 @@
 import * as vscode from 'vscode';
 import { DecorationManager } from './decorationManager';
 import { EditSynchronizer } from './editSynchronizer';
-import { JsonStringDetector } from './jsonStringDetector';
+import { JsonStringDetector, StringRange, StructuredStringRange } from './jsonStringDetector';
+import { isPathUnder, parsePathExpression } from './jsonStructure';
+import {
+    DecodedString,
+    decodeJsonStringWithOffsets,
+    escapeJsonString,
+    usesUnicodeEscapes
+} from './jsonEscapes';
+
+/**
+ * URI scheme of the before and after documents of a replace preview
+ */
+export const REPLACE_PREVIEW_SCHEME = 'json-replace-preview';
+
+/**
+ * What a search looks at: the whole text, every string, or only property names or string values
+ */
+export type SearchScope = 'document' | 'strings' | 'keys' | 'values';
+
+/**
+ * Options of a search
+ */
+export interface SearchOptions {
+    matchCase?: boolean;
+    matchWholeWord?: boolean;
+    useRegex?: boolean;
+    /** Defaults to the whole text; searches in rendered strings always stay inside strings */
+    scope?: SearchScope;
+    /** Only search strings at or under this JSON Pointer (`/a/0`) or JSONPath (`$.a[*]`) */
+    path?: string;
+}
+
+/**
+ * The search options toggled from the buttons of the find panel
+ */
+type SearchToggle = 'matchCase' | 'matchWholeWord' | 'useRegex';
+
+/**
+ * Labels of the search scopes
+ */
+const SCOPE_LABELS: Record<SearchScope, string> = {
+    document: 'Whole Document',
+    strings: 'All Strings',
+    keys: 'Property Names',
+    values: 'String Values'
+};
 
 /**
  * Interface for search result information
@@ -14,6 +59,75 @@ export interface SearchResult {
     actualRange: vscode.Range;
 }
 
+/**
+ * A match in the unescaped content of a string
+ */
+export interface RenderedStringMatch {
+    /** The escaped text the match covers in the document */
+    range: vscode.Range;
+    /** The matched text as it is rendered */
+    text: string;
+    /** The rendered line of the string the match starts on */
+    context: string;
+    /** Where the match starts in the context line */
+    contextOffset: number;
+}
+
+/**
+ * A match of a replace in the unescaped content of a string
+ */
+export interface RenderedReplacement {
+    /** The escaped text the match covers in the document */
+    range: vscode.Range;
+    /** The matched text as it is rendered */
+    text: string;
+    /** The text that replaces the match, with capture groups expanded */
+    replacementText: string;
+    /** The replacement as it is written into the string, escaped */
+    newText: string;
+    /** Why the match was not replaced */
+    error?: string;
+}
+
+/**
+ * A string affected by a replace, with its rendered content before and after
+ */
+export interface StringReplacement {
+    /** The string including its quotes */
+    range: vscode.Range;
+    before: string;
+    after: string;
+    replacements: RenderedReplacement[];
+}
+
+/**
+ * Every replacement of a replace in the rendered strings of a document, computed before anything is applied
+ */
+export interface ReplacementPlan {
+    document: vscode.TextDocument;
+    /** The document version the plan was computed for */
+    version: number;
+    strings: StringReplacement[];
+}
+
+/**
+ * The matches of a pattern in the decoded content of one string
+ */
+interface DecodedStringMatches {
+    stringRange: StringRange;
+    /** Offset of the first character after the opening quote */
+    contentOffset: number;
+    decoded: DecodedString;
+    matches: RegExpExecArray[];
+}
+
+/**
+ * A match listed in the Find in Rendered Strings panel
+ */
+interface RenderedMatchItem extends vscode.QuickPickItem {
+    match: RenderedStringMatch;
+}
+
 /**
  * Interface for replace operation information
  */
@@ -25,6 +139,16 @@ export interface ReplaceOperation {
     error?: string;
 }
 
+/**
+ * Characters of the rendered line shown on each side of a match in the find panel
+ */
+const MATCH_CONTEXT_LENGTH = 40;
+
+/**
+ * Failed matches listed by name in the message after a replace
+ */
+const MAX_REPORTED_FAILURES = 3;
+
 /**
  * Handles Find/Replace operations in decorated JSON content
  * Ensures search and replace work correctly with both visual and actual content
@@ -33,15 +157,48 @@ export class SearchHandler {
     private decorationManager: DecorationManager;
     private editSynchronizer: EditSynchronizer;
     private jsonDetector: JsonStringDetector;
+    private matchDecorationType: vscode.TextEditorDecorationType;
+    private currentMatchDecorationType: vscode.TextEditorDecorationType;
+    private previewContents: Map<string, string> = new Map();
+    private nextPreviewId = 1;
     private disposables: vscode.Disposable[] = [];
 
     constructor(decorationManager: DecorationManager, editSynchronizer: EditSynchronizer) {
         this.decorationManager = decorationManager;
         this.editSynchronizer = editSynchronizer;
         this.jsonDetector = new JsonStringDetector();
+        this.matchDecorationType = this.createMatchDecorationType();
+        this.currentMatchDecorationType = this.createCurrentMatchDecorationType();
         this.setupEventHandlers();
     }
 
+    /**
+     * Create the decoration type marking every match of Find in Rendered Strings
+     * @returns The decoration type
+     */
+    private createMatchDecorationType(): vscode.TextEditorDecorationType {
+        return vscode.window.createTextEditorDecorationType({
+            backgroundColor: new vscode.ThemeColor('editor.findMatchHighlightBackground'),
+            overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.findMatchForeground'),
+            overviewRulerLane: vscode.OverviewRulerLane.Center,
+            rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
+        });
+    }
+
+    /**
+     * Create the decoration type marking the match selected in Find in Rendered Strings
+     * @returns The decoration type
+     */
+    private createCurrentMatchDecorationType(): vscode.TextEditorDecorationType {
+        return vscode.window.createTextEditorDecorationType({
+            backgroundColor: new vscode.ThemeColor('editor.findMatchBackground'),
+            borderColor: new vscode.ThemeColor('editor.findMatchBorder'),
+            borderStyle: 'solid',
+            borderWidth: '1px',
+            rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
+        });
+    }
+
     /**
      * Set up event handlers for search operations
      */
@@ -55,7 +212,537 @@ export class SearchHandler {
             this.handleSelectionChange(event);
         });
 
-        this.disposables.push(onDidChangeTextEditorSelection);
+        // Serves the before and after documents of replace previews
+        const previewProvider = vscode.workspace.registerTextDocumentContentProvider(REPLACE_PREVIEW_SCHEME, {
+            provideTextDocumentContent: (uri: vscode.Uri) => this.previewContents.get(uri.path) ?? ''
+        });
+
+        this.disposables.push(onDidChangeTextEditorSelection, previewProvider, this.matchDecorationType, this.currentMatchDecorationType);
+    }
+
+    /**
+     * Register the "Find in Rendered Strings" and "Replace in Rendered Strings" commands
+     * @param context The extension context
+     */
+    public registerCommands(context: vscode.ExtensionContext): void {
+        const registerPanelCommand = (command: string, mode: 'find' | 'replace') =>
+            vscode.commands.registerCommand(command, () => {
+                const editor = vscode.window.activeTextEditor;
+                if (!editor || !this.isJsonDocument(editor.document)) {
+                    vscode.window.showWarningMessage('JSON Newline Formatter: Open a JSON file to search its strings.');
+                    return;
+                }
+
+                this.showFindPanel(editor, mode);
+            });
+
+        context.subscriptions.push(
+            registerPanelCommand('json-newline-formatter.findInRenderedStrings', 'find'),
+            registerPanelCommand('json-newline-formatter.replaceInRenderedStrings', 'replace')
+        );
+    }
+
+    /**
+     * Find matches in the unescaped content of every string, as the strings are rendered
+     * A match may span escape sequences; its range covers the escaped text in the document
+     * @param document The document to search
+     * @param query The text or regular expression to search for
+     * @param options Search options
+     * @returns The matches in document order
+     */
+    public findInRenderedStrings(document: vscode.TextDocument, query: string, options: SearchOptions = {}): RenderedStringMatch[] {
+        const pattern = query ? this.createSearchPattern(query, options) : null;
+        if (!pattern) {
+            return [];
+        }
+
+        const results: RenderedStringMatch[] = [];
+        for (const { contentOffset, decoded, matches } of this.matchRenderedStrings(document, pattern, options)) {
+            for (const match of matches) {
+                const lineStart = match.index > 0 ? decoded.text.lastIndexOf('\n', match.index - 1) + 1 : 0;
+                const lineEnd = decoded.text.indexOf('\n', match.index);
+
+                results.push({
+                    range: this.getMatchRange(document, contentOffset, decoded, match),
+                    text: match[0],
+                    context: decoded.text.substring(lineStart, lineEnd === -1 ? decoded.text.length : lineEnd),
+                    contextOffset: match.index - lineStart
+                });
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Work out every replacement in the unescaped content of the strings without applying any
+     * The replacement is unescaped text: real line breaks and quotes are escaped when written. With useRegex,
+     * `$1`, `$<name>` and `$&` insert capture groups and `\n`, `\t` and `\\` insert a line break, a tab and a backslash
+     * @param document The document to search
+     * @param query The text or regular expression to search for
+     * @param replacement The unescaped replacement
+     * @param options Search options
+     * @returns The plan, listing every affected string
+     */
+    public planRenderedReplacements(
+        document: vscode.TextDocument,
+        query: string,
+        replacement: string,
+        options: SearchOptions = {}
+    ): ReplacementPlan {
+        const plan: ReplacementPlan = { document, version: document.version, strings: [] };
+        const pattern = query ? this.createSearchPattern(query, options) : null;
+        if (!pattern) {
+            return plan;
+        }
+
+        const template = options.useRegex ? this.unescapeReplacementTemplate(replacement) : replacement;
+
+        for (const { stringRange, contentOffset, decoded, matches } of this.matchRenderedStrings(document, pattern, options)) {
+            const escapeNonAscii = usesUnicodeEscapes(stringRange.content);
+            let after = '';
+            let previousEnd = 0;
+            const replacements = matches.map(match => {
+                const replacementText = options.useRegex
+                    ? this.expandReplacement(decoded.text, match, template)
+                    : replacement;
+                const matchEnd = match.index + match[0].length;
+                // Replacing half of a character would leave the other half behind on its own
+                const error = this.isInsideSurrogatePair(decoded.text, match.index) || this.isInsideSurrogatePair(decoded.text, matchEnd)
+                    ? 'The match covers only half of a character'
+                    : undefined;
+
+                after += decoded.text.substring(previousEnd, match.index) + (error ? match[0] : replacementText);
+                previousEnd = matchEnd;
+
+                return {
+                    range: this.getMatchRange(document, contentOffset, decoded, match),
+                    text: match[0],
+                    replacementText,
+                    newText: escapeJsonString(replacementText, { escapeNonAscii }),
+                    error
+                };
+            });
+            after += decoded.text.substring(previousEnd);
+
+            plan.strings.push({
+                range: new vscode.Range(stringRange.start, stringRange.end),
+                before: decoded.text,
+                after,
+                replacements
+            });
+        }
+
+        return plan;
+    }
+
+    /**
+     * Apply a replacement plan as a single edit
+     * Nothing is applied when the document changed since the plan was computed
+     * @param plan The plan to apply
+     * @returns Every replacement of the plan; the ones that were not applied carry an error
+     */
+    public async applyReplacementPlan(plan: ReplacementPlan): Promise<RenderedReplacement[]> {
+        const replacements = plan.strings.flatMap(string => string.replacements);
+        const applicable = replacements.filter(replacement => !replacement.error);
+        if (applicable.length === 0) {
+            return replacements;
+        }
+
+        const fail = (error: string) => {
+            applicable.forEach(replacement => replacement.error = error);
+            return replacements;
+        };
+
+        if (plan.document.isClosed || plan.document.version !== plan.version) {
+            return fail('The document changed after the replacements were previewed');
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        for (const replacement of applicable) {
+            edit.replace(plan.document.uri, replacement.range, replacement.newText);
+        }
+
+        try {
+            if (!await vscode.workspace.applyEdit(edit)) {
+                return fail('The edit could not be applied');
+            }
+        } catch (error) {
+            return fail(error instanceof Error ? error.message : 'Unknown error');
+        }
+
+        return replacements;
+    }
+
+    /**
+     * Ask for the replacement, preview every affected string and apply the replace once confirmed
+     * @param editor The editor to replace in
+     * @param query The text or regular expression to search for
+     * @param options Search options
+     */
+    private async runReplace(editor: vscode.TextEditor, query: string, options: SearchOptions): Promise<void> {
+        const replacement = await vscode.window.showInputBox({
+            title: 'Replace in Rendered Strings',
+            prompt: options.useRegex
+                ? `Replace "${query}" with ($1 inserts a capture group, \\n a line break)`
+                : `Replace "${query}" with`,
+            placeHolder: 'Replacement text'
+        });
+        if (replacement === undefined) {
+            return;
+        }
+
+        const plan = this.planRenderedReplacements(editor.document, query, replacement, options);
+        const total = plan.strings.reduce((count, string) => count + string.replacements.length, 0);
+        if (total === 0) {
+            vscode.window.showInformationMessage(`JSON Newline Formatter: No strings contain "${query}".`);
+            return;
+        }
+
+        await this.showReplacementPreview(plan);
+        const answer = await vscode.window.showInformationMessage(
+            `JSON Newline Formatter: Replace ${total} ${total === 1 ? 'match' : 'matches'} in ${plan.strings.length} ${plan.strings.length === 1 ? 'string' : 'strings'}?`,
+            { modal: true, detail: 'The preview shows every affected string as it is rendered.' },
+            'Replace'
+        );
+        if (answer !== 'Replace') {
+            return;
+        }
+
+        this.reportReplacements(await this.applyReplacementPlan(plan));
+    }
+
+    /**
+     * Open a diff of the rendered content of every string a plan changes
+     * @param plan The plan to preview
+     */
+    private async showReplacementPreview(plan: ReplacementPlan): Promise<void> {
+        const describe = (content: (string: StringReplacement) => string) => plan.strings
+            .map(string => `Line ${string.range.start.line + 1}:\n${content(string).replace(/^/gm, '    ')}\n`)
+            .join('\n');
+
+        // Only the latest preview is kept
+        this.previewContents.clear();
+        const id = this.nextPreviewId++;
+        const fileName = plan.document.uri.path.substring(plan.document.uri.path.lastIndexOf('/') + 1) || 'document';
+        const before = vscode.Uri.from({ scheme: REPLACE_PREVIEW_SCHEME, path: `/${id}/before/${fileName}` });
+        const after = vscode.Uri.from({ scheme: REPLACE_PREVIEW_SCHEME, path: `/${id}/after/${fileName}` });
+        this.previewContents.set(before.path, describe(string => string.before));
+        this.previewContents.set(after.path, describe(string => string.after));
+
+        try {
+            await vscode.commands.executeCommand('vscode.diff', before, after, `${fileName}: Replace in Rendered Strings (Preview)`, { preview: true });
+        } catch (error) {
+            console.warn('SearchHandler: Unable to open the replace preview', error);
+        }
+    }
+
+    /**
+     * Tell the user how a replace went, listing every match that could not be replaced
+     * @param replacements The replacements of the applied plan
+     */
+    private reportReplacements(replacements: RenderedReplacement[]): void {
+        const failed = replacements.filter(replacement => replacement.error);
+        const replaced = replacements.length - failed.length;
+
+        if (failed.length === 0) {
+            vscode.window.showInformationMessage(`JSON Newline Formatter: Replaced ${replaced} ${replaced === 1 ? 'match' : 'matches'}.`);
+            return;
+        }
+
+        failed.forEach(replacement => console.warn(
+            `SearchHandler: Could not replace "${replacement.text}" at ${replacement.range.start.line + 1}:${replacement.range.start.character + 1}: ${replacement.error}`
+        ));
+        const details = failed
+            .slice(0, MAX_REPORTED_FAILURES)
+            .map(replacement => `Ln ${replacement.range.start.line + 1}, Col ${replacement.range.start.character + 1}: ${replacement.error}`)
+            .join('; ');
+        const more = failed.length > MAX_REPORTED_FAILURES ? ` (and ${failed.length - MAX_REPORTED_FAILURES} more)` : '';
+
+        vscode.window.showWarningMessage(
+            `JSON Newline Formatter: Replaced ${replaced} of ${replacements.length} matches. Not replaced: ${details}${more}.`
+        );
+    }
+
+    /**
+     * Run a pattern over the decoded content of every string
+     * Empty matches are skipped since there is nothing to show or replace
+     * @param document The document to search
+     * @param pattern The global search pattern
+     * @param options Search options, for the scope
+     * @returns The strings with at least one match
+     */
+    private matchRenderedStrings(document: vscode.TextDocument, pattern: RegExp, options: SearchOptions): DecodedStringMatches[] {
+        const results: DecodedStringMatches[] = [];
+        const strings = this.getScopedStrings(document, options) ?? this.jsonDetector.findStringRanges(document);
+
+        for (const stringRange of strings) {
+            const decoded = decodeJsonStringWithOffsets(stringRange.content);
+            const matches: RegExpExecArray[] = [];
+
+            pattern.lastIndex = 0;
+            let match;
+            while ((match = pattern.exec(decoded.text)) !== null) {
+                if (match[0].length === 0) {
+                    pattern.lastIndex++;
+                    continue;
+                }
+                matches.push(match);
+            }
+
+            if (matches.length > 0) {
+                results.push({ stringRange, contentOffset: document.offsetAt(stringRange.start) + 1, decoded, matches });
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Get the escaped text a match in decoded content covers
+     * @param document The document
+     * @param contentOffset Offset of the string content in the document
+     * @param decoded The decoded content
+     * @param match The match in the decoded text
+     * @returns The range in the document
+     */
+    private getMatchRange(document: vscode.TextDocument, contentOffset: number, decoded: DecodedString, match: RegExpExecArray): vscode.Range {
+        return new vscode.Range(
+            document.positionAt(contentOffset + decoded.sourceOffsets[match.index]),
+            document.positionAt(contentOffset + decoded.sourceOffsets[match.index + match[0].length])
+        );
+    }
+
+    /**
+     * Expand the `$` patterns of a replacement template for one match, as `String.prototype.replace` would
+     * The template is expanded from the match itself, so the cost does not grow with the length of the string
+     * @param text The decoded text that was searched
+     * @param match The match
+     * @param template The replacement template
+     * @returns The replacement text
+     */
+    private expandReplacement(text: string, match: RegExpExecArray, template: string): string {
+        const groupCount = match.length - 1;
+
+        return template.replace(/\$(\$|&|`|'|\d\d?|<[^>]*>)/g, (token: string, pattern: string) => {
+            switch (pattern) {
+                case '$': return '$';
+                case '&': return match[0];
+                case '`': return text.substring(0, match.index);
+                case '\'': return text.substring(match.index + match[0].length);
+            }
+
+            if (pattern.startsWith('<')) {
+                // Without named groups `$<` is literal text
+                return match.groups ? match.groups[pattern.slice(1, -1)] ?? '' : token;
+            }
+
+            // Two digits name a group when there are that many, otherwise the first digit alone may
+            const twoDigits = pattern.length === 2 ? Number(pattern) : 0;
+            if (twoDigits >= 1 && twoDigits <= groupCount) {
+                return match[twoDigits] ?? '';
+            }
+            const oneDigit = Number(pattern[0]);
+            if (oneDigit >= 1 && oneDigit <= groupCount) {
+                return (match[oneDigit] ?? '') + pattern.substring(1);
+            }
+            return token;
+        });
+    }
+
+    /**
+     * Check whether an offset falls between the two halves of a surrogate pair
+     * @param text The text
+     * @param offset The offset
+     * @returns True if the offset splits a character
+     */
+    private isInsideSurrogatePair(text: string, offset: number): boolean {
+        return /[\ud800-\udbff]/.test(text.charAt(offset - 1)) && /[\udc00-\udfff]/.test(text.charAt(offset));
+    }
+
+    /**
+     * Read the `\n`, `\t` and `\\` escapes a regular expression replacement may contain
+     * @param replacement The replacement as typed
+     * @returns The replacement template
+     */
+    private unescapeReplacementTemplate(replacement: string): string {
+        return replacement.replace(/\\([nt\\])/g, (_, letter: string) => letter === 'n' ? '\n' : letter === 't' ? '\t' : '\\');
+    }
+
+    /**
+     * Show the Find in Rendered Strings panel for an editor
+     * Matches are listed with their rendered line and highlighted in the editor while the panel is open
+     * In replace mode accepting the panel goes on to ask for the replacement of every match
+     * @param editor The editor to search
+     * @param mode Whether the panel finds or replaces
+     * @param query The text to search for when the panel opens
+     * @param options The search options the panel starts with; the panel toggles them in place
+     * @param originalSelections The selections to restore when the panel is closed without choosing a match
+     */
+    private showFindPanel(
+        editor: vscode.TextEditor,
+        mode: 'find' | 'replace' = 'find',
+        query: string = '',
+        options: SearchOptions = {},
+        originalSelections: readonly vscode.Selection[] = editor.selections
+    ): void {
+        const toggles: { key: SearchToggle; icon: string; tooltip: string }[] = [
+            { key: 'matchCase', icon: 'case-sensitive', tooltip: 'Match Case' },
+            { key: 'matchWholeWord', icon: 'whole-word', tooltip: 'Match Whole Word' },
+            { key: 'useRegex', icon: 'regex', tooltip: 'Use Regular Expression' }
+        ];
+        let accepted = false;
+        let isChoosingScope = false;
+
+        const title = mode === 'find' ? 'Find in Rendered Strings' : 'Replace in Rendered Strings';
+        const quickPick = vscode.window.createQuickPick<RenderedMatchItem>();
+        quickPick.title = title;
+        quickPick.placeholder = 'Search the unescaped text of the strings';
+        quickPick.matchOnDescription = false;
+        quickPick.matchOnDetail = false;
+        quickPick.value = query;
+
+        const updateButtons = () => {
+            quickPick.buttons = [
+                ...toggles.map(toggle => ({
+                    iconPath: new vscode.ThemeIcon(toggle.icon),
+                    tooltip: `${toggle.tooltip} (${options[toggle.key] ? 'on' : 'off'})`
+                })),
+                { iconPath: new vscode.ThemeIcon('filter'), tooltip: `Search Scope (${this.describeScope(options)})` }
+            ];
+        };
+
+        const update = () => {
+            const matches = this.findInRenderedStrings(editor.document, quickPick.value, options);
+            // The list is already filtered; the quick pick must not filter it again by label
+            quickPick.items = matches.map(match => ({
+                label: this.formatMatchContext(match),
+                description: `Ln ${match.range.start.line + 1}, Col ${match.range.start.character + 1}`,
+                alwaysShow: true,
+                match
+            }));
+            quickPick.title = `${title}: ${this.describeScope(options)} (${matches.length} ${matches.length === 1 ? 'match' : 'matches'})`;
+            editor.setDecorations(this.matchDecorationType, matches.map(match => match.range));
+        };
+
+        quickPick.onDidChangeValue(update);
+        quickPick.onDidTriggerButton(button => {
+            const index = quickPick.buttons.indexOf(button);
+            const toggle = toggles[index];
+            if (toggle) {
+                options[toggle.key] = !options[toggle.key];
+                updateButtons();
+                update();
+            } else if (index === toggles.length) {
+                // Picking the scope takes over the quick input; the panel reopens afterwards
+                isChoosingScope = true;
+                quickPick.hide();
+            }
+        });
+        quickPick.onDidChangeActive(items => {
+            const match = items[0]?.match;
+            editor.setDecorations(this.currentMatchDecorationType, match ? [match.range] : []);
+            if (match) {
+                editor.revealRange(match.range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+            }
+        });
+        quickPick.onDidAccept(() => {
+            if (mode === 'replace') {
+                const query = quickPick.value;
+                quickPick.hide();
+                if (query) {
+                    this.runReplace(editor, query, options).catch(error => {
+                        console.error('SearchHandler: Replace failed', error);
+                        vscode.window.showErrorMessage('JSON Newline Formatter: Unable to replace in the strings.');
+                    });
+                }
+                return;
+            }
+
+            const match = quickPick.selectedItems[0]?.match ?? quickPick.activeItems[0]?.match;
+            if (match) {
+                accepted = true;
+                editor.selection = new vscode.Selection(match.range.start, match.range.end);
+                editor.revealRange(match.range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+            }
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            editor.setDecorations(this.matchDecorationType, []);
+            editor.setDecorations(this.currentMatchDecorationType, []);
+            const value = quickPick.value;
+            quickPick.dispose();
+
+            if (isChoosingScope) {
+                this.chooseScope(options).then(
+                    () => this.showFindPanel(editor, mode, value, options, originalSelections),
+                    error => console.error('SearchHandler: Failed to choose the search scope', error)
+                );
+            } else if (!accepted) {
+                editor.selections = [...originalSelections];
+            }
+        });
+
+        updateButtons();
+        update();
+        quickPick.show();
+    }
+
+    /**
+     * Ask which strings to search and under which path
+     * Leaves the options unchanged when a step is cancelled
+     * @param options The search options to update
+     */
+    private async chooseScope(options: SearchOptions): Promise<void> {
+        const scopes: (vscode.QuickPickItem & { scope: SearchScope })[] = [
+            { label: SCOPE_LABELS.strings, description: 'Property names and values', scope: 'strings' },
+            { label: SCOPE_LABELS.keys, scope: 'keys' },
+            { label: SCOPE_LABELS.values, scope: 'values' }
+        ];
+        const current = options.scope === 'document' ? 'strings' : options.scope ?? 'strings';
+        scopes.forEach(item => item.picked = item.scope === current);
+
+        const picked = await vscode.window.showQuickPick(scopes, { title: 'Search Scope', placeHolder: 'Search which strings?' });
+        if (!picked) {
+            return;
+        }
+
+        const path = await vscode.window.showInputBox({
+            title: 'Search Scope',
+            prompt: 'Only search under a JSON Pointer (/messages/0) or JSONPath ($.messages[*]); leave empty for the whole document',
+            value: options.path ?? '',
+            validateInput: value => parsePathExpression(value) ? undefined : 'Not a valid JSON Pointer or JSONPath'
+        });
+        if (path === undefined) {
+            return;
+        }
+
+        options.scope = picked.scope;
+        options.path = path.trim() || undefined;
+    }
+
+    /**
+     * Describe the strings a search looks at
+     * @param options Search options
+     * @returns The description of the scope
+     */
+    private describeScope(options: SearchOptions): string {
+        // Searches in rendered strings stay inside strings, so the document scope covers all of them
+        const label = SCOPE_LABELS[!options.scope || options.scope === 'document' ? 'strings' : options.scope];
+        return options.path ? `${label} under ${options.path}` : label;
+    }
+
+    /**
+     * Describe a match by its rendered line, shortened around the match
+     * @param match The match
+     * @returns The label for the match
+     */
+    private formatMatchContext(match: RenderedStringMatch): string {
+        const context = match.context.replace(/\t/g, ' ');
+        const start = Math.max(0, match.contextOffset - MATCH_CONTEXT_LENGTH);
+        const end = Math.min(context.length, match.contextOffset + match.text.length + MATCH_CONTEXT_LENGTH);
+
+        return (start > 0 ? '\u2026' : '') + context.substring(start, end).trim() + (end < context.length ? '\u2026' : '');
     }
 
     /**
@@ -84,7 +771,7 @@ export class SearchHandler {
      * @param selection The selection range
      */
     private handleSearchSelection(editor: vscode.TextEditor, selection: vscode.Selection): void {
-        const decorationsInRange = this.decorationManager.getDecorationsInRange(selection);
+        const decorationsInRange = this.decorationManager.getDecorationsInRange(selection, editor.document);
         
         if (decorationsInRange.length > 0) {
             // Selection includes decorated content, we may need to adjust highlighting
@@ -157,11 +844,7 @@ export class SearchHandler {
     public findInDocument(
         document: vscode.TextDocument, 
         searchText: string, 
-        options: {
-            matchCase?: boolean;
-            matchWholeWord?: boolean;
-            useRegex?: boolean;
-        } = {}
+        options: SearchOptions = {}
     ): SearchResult[] {
         const results: SearchResult[] = [];
         const transformedSearch = this.transformSearchText(searchText, document);
@@ -192,53 +875,105 @@ export class SearchHandler {
     private performSearch(
         document: vscode.TextDocument, 
         pattern: string, 
-        options: {
-            matchCase?: boolean;
-            matchWholeWord?: boolean;
-            useRegex?: boolean;
-        }
+        options: SearchOptions
     ): vscode.Range[] {
         const results: vscode.Range[] = [];
         const text = document.getText();
         
-        let searchPattern: RegExp;
-        
-        try {
-            if (options.useRegex) {
-                const flags = options.matchCase ? 'g' : 'gi';
-                searchPattern = new RegExp(pattern, flags);
-            } else {
-                // Escape special regex characters for literal search
-                const escapedPattern = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-                const flags = options.matchCase ? 'g' : 'gi';
-                
-                if (options.matchWholeWord) {
-                    searchPattern = new RegExp(`\\b${escapedPattern}\\b`, flags);
-                } else {
-                    searchPattern = new RegExp(escapedPattern, flags);
-                }
-            }
-        } catch (error) {
-            // Invalid regex pattern
-            console.warn('SearchHandler: Invalid search pattern', error);
+        const searchPattern = this.createSearchPattern(pattern, options);
+        if (!searchPattern) {
             return results;
         }
 
+        // A scoped search only keeps matches inside the content of the strings in scope
+        const regions = this.getScopedStrings(document, options)?.map(string => ({
+            start: document.offsetAt(string.start) + 1,
+            end: document.offsetAt(string.end) - 1,
+            content: string.content,
+            boundaries: undefined as Set<number> | undefined
+        }));
+        let regionIndex = 0;
+
         let match;
         while ((match = searchPattern.exec(text)) !== null) {
-            const startPos = document.positionAt(match.index);
-            const endPos = document.positionAt(match.index + match[0].length);
-            results.push(new vscode.Range(startPos, endPos));
-            
+            const matchEnd = match.index + match[0].length;
+
             // Prevent infinite loop for zero-length matches
             if (match[0].length === 0) {
                 searchPattern.lastIndex++;
             }
+
+            if (regions) {
+                while (regionIndex < regions.length && regions[regionIndex].end < match.index) {
+                    regionIndex++;
+                }
+                const region = regions[regionIndex];
+                if (!region || match.index < region.start || matchEnd > region.end) {
+                    continue;
+                }
+
+                // Matches must not start or end in the middle of an escape sequence
+                region.boundaries ??= new Set(decodeJsonStringWithOffsets(region.content).sourceOffsets);
+                if (!region.boundaries.has(match.index - region.start) || !region.boundaries.has(matchEnd - region.start)) {
+                    continue;
+                }
+            }
+
+            results.push(new vscode.Range(document.positionAt(match.index), document.positionAt(matchEnd)));
         }
 
         return results;
     }
 
+    /**
+     * Get the strings a scoped search looks at
+     * @param document The document to search
+     * @param options Search options
+     * @returns The strings in scope in document order, or null if the search is not limited to strings
+     */
+    private getScopedStrings(document: vscode.TextDocument, options: SearchOptions): StructuredStringRange[] | null {
+        const scope = options.scope ?? 'document';
+        if (scope === 'document' && !options.path) {
+            return null;
+        }
+
+        const prefix = options.path ? parsePathExpression(options.path) : [];
+        if (!prefix) {
+            console.warn('SearchHandler: Invalid search path', options.path);
+            return [];
+        }
+
+        return this.jsonDetector.findStructuredStringRanges(document).filter(string =>
+            (scope === 'keys' ? string.role === 'key' : scope === 'values' ? string.role === 'value' : true) &&
+            isPathUnder(string.path, prefix)
+        );
+    }
+
+    /**
+     * Build the regular expression for a search
+     * @param pattern The search pattern
+     * @param options Search options
+     * @returns The global regular expression, or null if the pattern is not a valid regular expression
+     */
+    private createSearchPattern(pattern: string, options: SearchOptions): RegExp | null {
+        const flags = options.matchCase ? 'g' : 'gi';
+
+        try {
+            if (options.useRegex) {
+                // The group keeps alternatives inside the word boundaries without shifting capture groups
+                return new RegExp(options.matchWholeWord ? `\\b(?:${pattern})\\b` : pattern, flags);
+            }
+
+            // Escape special regex characters for literal search
+            const escapedPattern = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            return new RegExp(options.matchWholeWord ? `\\b${escapedPattern}\\b` : escapedPattern, flags);
+        } catch (error) {
+            // Invalid regex pattern
+            console.warn('SearchHandler: Invalid search pattern', error);
+            return null;
+        }
+    }
+
     /**
      * Create a search result with visual and actual information
      * @param document The document
@@ -370,7 +1105,7 @@ export class SearchHandler {
         console.log(`SearchHandler: Found ${results.length} matches for "${searchText}"`);
         
         // Update decorations to ensure they don't interfere with search highlighting
-        this.decorationManager.refresh();
+        this.decorationManager.applyDecorations(document);
     }
 
     /**
@@ -402,9 +1137,16 @@ export class SearchHandler {
         // Log results
         const successCount = operations.filter(op => op.success).length;
         console.log(`SearchHandler: Successfully replaced ${successCount}/${operations.length} occurrences`);
+
+        const failed = operations.find(op => !op.success);
+        if (failed) {
+            vscode.window.showWarningMessage(
+                `JSON Newline Formatter: Replaced ${successCount} of ${operations.length} occurrences. ${failed.error ?? 'Unknown error'}.`
+            );
+        }
         
         // Refresh decorations after replace operations
-        this.decorationManager.refresh();
+        this.decorationManager.applyDecorations(document);
     }
 
     /**
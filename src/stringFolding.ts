@@ -0,0 +1,333 @@
+import * as vscode from 'vscode';
+import { DecorationManager } from './decorationManager';
+import { JsonStringDetector, StringRange } from './jsonStringDetector';
+
+/**
+ * A string collapsed to its first rendered line, tracked by offsets so it follows edits around it
+ */
+interface CollapsedString {
+    /** Offset of the opening quote */
+    offset: number;
+    /** Length of the string including its quotes */
+    length: number;
+}
+
+/**
+ * How a collapsed string is shown
+ */
+export interface StringFold {
+    /** The string including its quotes */
+    range: vscode.Range;
+    /** The escaped text hidden behind the summary: everything after the first rendered line */
+    hiddenRange: vscode.Range;
+    /** Number of rendered lines hidden */
+    hiddenLineCount: number;
+    summary: string;
+}
+
+/**
+ * Collapses strings with rendered line breaks to their first line followed by a summary of the hidden lines
+ * A string holding many `\n` escapes is a single physical line, so editor folding cannot shorten it.
+ * Collapsed strings follow edits before and after them and expand when they are edited or the cursor enters them
+ */
+export class StringFoldingManager implements vscode.Disposable {
+    private decorationManager: DecorationManager;
+    private jsonDetector: JsonStringDetector;
+    private collapsed: Map<string, CollapsedString[]> = new Map();
+    private hiddenDecorationType: vscode.TextEditorDecorationType;
+    private summaryDecorationType: vscode.TextEditorDecorationType;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(decorationManager: DecorationManager) {
+        this.decorationManager = decorationManager;
+        this.jsonDetector = new JsonStringDetector();
+        this.hiddenDecorationType = vscode.window.createTextEditorDecorationType({
+            // Hide the folded text the way the \n sequences are hidden: transparent, with every character
+            // pulled back by its own width so the summary follows the first line directly
+            color: 'transparent',
+            backgroundColor: 'transparent',
+            letterSpacing: '-1ch',
+            rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
+        });
+        this.summaryDecorationType = vscode.window.createTextEditorDecorationType({
+            rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
+        });
+        this.setupEventHandlers();
+    }
+
+    /**
+     * Follow edits, redraw editors as they are shown and expand strings the cursor enters
+     */
+    private setupEventHandlers(): void {
+        const onDidChangeTextDocument = vscode.workspace.onDidChangeTextDocument((event) => {
+            if (this.collapsed.has(event.document.uri.toString())) {
+                this.trackChanges(event);
+                this.render(event.document);
+            }
+        });
+
+        const onDidChangeVisibleEditors = vscode.window.onDidChangeVisibleTextEditors((editors) => {
+            new Set(editors.map(editor => editor.document)).forEach(document => this.render(document));
+        });
+
+        const onDidChangeTextEditorSelection = vscode.window.onDidChangeTextEditorSelection((event) => {
+            this.expandAtSelections(event.textEditor.document, event.selections);
+        });
+
+        const onDidCloseTextDocument = vscode.workspace.onDidCloseTextDocument((document) => {
+            this.collapsed.delete(document.uri.toString());
+        });
+
+        this.disposables.push(onDidChangeTextDocument, onDidChangeVisibleEditors, onDidChangeTextEditorSelection, onDidCloseTextDocument);
+    }
+
+    /**
+     * Register the string folding commands
+     * @param context The extension context
+     */
+    public registerCommands(context: vscode.ExtensionContext): void {
+        const registerEditorCommand = (command: string, run: (editor: vscode.TextEditor) => void) =>
+            vscode.commands.registerCommand(command, () => {
+                const editor = vscode.window.activeTextEditor;
+                if (!editor || !this.isJsonDocument(editor.document)) {
+                    vscode.window.showWarningMessage('JSON Newline Formatter: Open a JSON file to fold its strings.');
+                    return;
+                }
+                run(editor);
+            });
+
+        const toggleCommand = registerEditorCommand('json-newline-formatter.toggleStringFold', editor => {
+            if (!this.toggleFold(editor.document, editor.selection.active)) {
+                vscode.window.showInformationMessage('JSON Newline Formatter: Place the cursor in a string with line breaks to fold it.');
+            }
+        });
+        const foldAllCommand = registerEditorCommand('json-newline-formatter.foldAllStrings', editor => {
+            if (this.foldAll(editor.document) === 0) {
+                vscode.window.showInformationMessage('JSON Newline Formatter: No strings with line breaks to fold.');
+            }
+        });
+        const unfoldAllCommand = registerEditorCommand('json-newline-formatter.unfoldAllStrings', editor => {
+            this.unfoldAll(editor.document);
+        });
+
+        context.subscriptions.push(toggleCommand, foldAllCommand, unfoldAllCommand);
+    }
+
+    /**
+     * Get the strings that can be collapsed: the ones rendering on more than one line
+     * @param document The JSON document
+     * @returns The strings in document order
+     */
+    public getFoldableStrings(document: vscode.TextDocument): StringRange[] {
+        return this.jsonDetector.findStringRanges(document).filter(stringRange => stringRange.hasNewlines);
+    }
+
+    /**
+     * Collapse or expand the string at a position
+     * @param document The JSON document
+     * @param position A position inside the string
+     * @returns False if there is no foldable string at the position
+     */
+    public toggleFold(document: vscode.TextDocument, position: vscode.Position): boolean {
+        const stringRange = this.jsonDetector.getStringRangeAtPosition(document, position);
+        if (!stringRange || !stringRange.hasNewlines) {
+            return false;
+        }
+
+        const offset = document.offsetAt(stringRange.start);
+        const strings = this.getCollapsedList(document);
+        const index = strings.findIndex(string => string.offset === offset);
+        if (index === -1) {
+            strings.push({ offset, length: document.offsetAt(stringRange.end) - offset });
+            strings.sort((a, b) => a.offset - b.offset);
+        } else {
+            strings.splice(index, 1);
+        }
+
+        this.render(document);
+        return true;
+    }
+
+    /**
+     * Collapse every string rendering on more than one line
+     * @param document The JSON document
+     * @returns The number of collapsed strings
+     */
+    public foldAll(document: vscode.TextDocument): number {
+        const strings = this.getFoldableStrings(document).map(stringRange => {
+            const offset = document.offsetAt(stringRange.start);
+            return { offset, length: document.offsetAt(stringRange.end) - offset };
+        });
+
+        this.collapsed.set(document.uri.toString(), strings);
+        this.render(document);
+        return strings.length;
+    }
+
+    /**
+     * Expand every collapsed string
+     * @param document The JSON document
+     */
+    public unfoldAll(document: vscode.TextDocument): void {
+        this.collapsed.delete(document.uri.toString());
+        this.render(document);
+    }
+
+    /**
+     * Get how the collapsed strings of a document are shown
+     * Strings that no longer hold a line break are skipped
+     * @param document The JSON document
+     * @returns The folds in document order
+     */
+    public getFolds(document: vscode.TextDocument): StringFold[] {
+        const folds: StringFold[] = [];
+
+        for (const string of this.collapsed.get(document.uri.toString()) ?? []) {
+            const contentEnd = string.offset + string.length - 1;
+            const lineBreaks = this.jsonDetector.getDetailedNewlinePositionsInRange(document, string.offset, contentEnd)
+                .filter(lineBreak => lineBreak.offset > string.offset && lineBreak.offset < contentEnd);
+            if (lineBreaks.length === 0) {
+                continue;
+            }
+
+            const hiddenLineCount = lineBreaks.length;
+            folds.push({
+                range: new vscode.Range(document.positionAt(string.offset), document.positionAt(string.offset + string.length)),
+                hiddenRange: new vscode.Range(lineBreaks[0].position, document.positionAt(contentEnd)),
+                hiddenLineCount,
+                summary: `\u2026 ${hiddenLineCount} more ${hiddenLineCount === 1 ? 'line' : 'lines'}`
+            });
+        }
+
+        return folds;
+    }
+
+    /**
+     * Check whether the string at a position is collapsed
+     * @param document The JSON document
+     * @param position A position inside the string
+     * @returns True if the string is collapsed
+     */
+    public isFolded(document: vscode.TextDocument, position: vscode.Position): boolean {
+        return this.getFolds(document).some(fold => fold.range.contains(position));
+    }
+
+    /**
+     * Follow edits to a document with collapsed strings
+     * Strings move with edits before them; a string touched by an edit is expanded
+     * @param event The text document change event
+     */
+    private trackChanges(event: vscode.TextDocumentChangeEvent): void {
+        const uri = event.document.uri.toString();
+        let strings = this.collapsed.get(uri) ?? [];
+
+        // Changes in one event apply sequentially, each against the result of the previous one
+        for (const change of event.contentChanges) {
+            const changeEnd = change.rangeOffset + change.rangeLength;
+            const delta = change.text.length - change.rangeLength;
+
+            strings = strings.filter(string => changeEnd <= string.offset || change.rangeOffset >= string.offset + string.length);
+            for (const string of strings) {
+                if (string.offset >= changeEnd) {
+                    string.offset += delta;
+                }
+            }
+        }
+
+        this.collapsed.set(uri, strings);
+    }
+
+    /**
+     * Expand collapsed strings whose hidden text a selection reaches into, so nothing is edited unseen
+     * @param document The document of the editor
+     * @param selections The selections of the editor
+     */
+    private expandAtSelections(document: vscode.TextDocument, selections: readonly vscode.Selection[]): void {
+        const strings = this.collapsed.get(document.uri.toString());
+        if (!strings || strings.length === 0) {
+            return;
+        }
+
+        // The cursor may rest right before the summary, at the end of the visible first line
+        const entered = this.getFolds(document).filter(fold => selections.some(selection =>
+            selection.end.isAfter(fold.hiddenRange.start) && selection.start.isBefore(fold.hiddenRange.end)
+        ));
+        if (entered.length === 0) {
+            return;
+        }
+
+        const offsets = new Set(entered.map(fold => document.offsetAt(fold.range.start)));
+        this.collapsed.set(document.uri.toString(), strings.filter(string => !offsets.has(string.offset)));
+        this.render(document);
+    }
+
+    /**
+     * Draw the collapsed strings in every editor showing a document
+     * @param document The JSON document
+     */
+    private render(document: vscode.TextDocument): void {
+        const folds = this.getFolds(document);
+        const editors = vscode.window.visibleTextEditors.filter(editor => editor.document === document);
+        const activeEditor = vscode.window.activeTextEditor;
+        if (activeEditor && activeEditor.document === document && !editors.includes(activeEditor)) {
+            editors.push(activeEditor);
+        }
+
+        const summaryOptions: vscode.DecorationOptions[] = folds.map(fold => ({
+            range: new vscode.Range(fold.hiddenRange.start, fold.hiddenRange.start),
+            hoverMessage: new vscode.MarkdownString('Collapsed string. Run **Toggle String Folding** or move the cursor into it to expand.'),
+            renderOptions: {
+                after: {
+                    contentText: fold.summary,
+                    color: new vscode.ThemeColor('editorCodeLens.foreground'),
+                    backgroundColor: new vscode.ThemeColor('editor.foldBackground'),
+                    fontStyle: 'italic',
+                    margin: '0 0.25ch'
+                }
+            }
+        }));
+
+        for (const editor of editors) {
+            editor.setDecorations(this.hiddenDecorationType, folds.map(fold => fold.hiddenRange));
+            editor.setDecorations(this.summaryDecorationType, summaryOptions);
+        }
+
+        // Rendered escapes inside the hidden text would still show their markers
+        this.decorationManager.setHiddenRanges(document, folds.map(fold => fold.hiddenRange));
+    }
+
+    /**
+     * Get the collapsed strings of a document, creating the list on first use
+     * @param document The JSON document
+     * @returns The list, sorted by offset
+     */
+    private getCollapsedList(document: vscode.TextDocument): CollapsedString[] {
+        const uri = document.uri.toString();
+        let strings = this.collapsed.get(uri);
+        if (!strings) {
+            strings = [];
+            this.collapsed.set(uri, strings);
+        }
+        return strings;
+    }
+
+    /**
+     * Check if a document is a JSON document
+     * @param document The document to check
+     * @returns True if the document is JSON
+     */
+    private isJsonDocument(document: vscode.TextDocument): boolean {
+        return document.languageId === 'json' || document.languageId === 'jsonc';
+    }
+
+    /**
+     * Dispose of resources
+     */
+    public dispose(): void {
+        this.collapsed.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        this.hiddenDecorationType.dispose();
+        this.summaryDecorationType.dispose();
+    }
+}
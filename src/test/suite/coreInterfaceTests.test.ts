@@ -303,7 +303,6 @@ suite('Core Interface Tests', () => {
             assert.ok(documentState, 'Should have document state');
             
             // Test DocumentState interface properties
-            assert.strictEqual(typeof documentState!.originalContent, 'string', 'originalContent should be string');
             assert.strictEqual(typeof documentState!.visualContent, 'string', 'visualContent should be string');
             assert.ok(Array.isArray(documentState!.mappings), 'mappings should be array');
             assert.strictEqual(typeof documentState!.version, 'number', 'version should be number');
@@ -412,8 +411,8 @@ suite('Core Interface Tests', () => {
             const stringRanges = jsonDetector.findStringRanges(document);
             const newlinePositions = jsonDetector.extractNewlinePositions(document);
             
-            // Malformed JSON should return empty arrays
-            assert.strictEqual(stringRanges.length, 0, 'Malformed JSON should return no strings');
+            // Malformed JSON should still return the well-formed strings
+            assert.strictEqual(stringRanges.length, 1, 'Malformed JSON should return the recovered key');
             assert.strictEqual(newlinePositions.length, 0, 'Malformed JSON should return no newlines');
         });
 
@@ -294,4 +294,74 @@ suite('DecorationManager Integration Tests', () => {
         testDecorationManager.dispose();
         await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
     });
-});
\ No newline at end of file
+
+    test('should only decorate around the visible ranges', async () => {
+        const lines: string[] = [];
+        for (let i = 0; i < 3000; i++) {
+            lines.push(`  "key${i}": "line\\nbreak"`);
+        }
+        const largeDocument = await vscode.workspace.openTextDocument({
+            content: `{\n${lines.join(',\n')}\n}`,
+            language: 'json'
+        });
+        
+        const editor = await vscode.window.showTextDocument(largeDocument);
+        decorationManager.applyDecorations(largeDocument);
+        
+        // Every decoration lies within the margin around the viewport
+        const lastVisibleLine = editor.visibleRanges[editor.visibleRanges.length - 1].end.line;
+        const decorations = decorationManager.getDecorationState().decorations;
+        assert.ok(decorations.length > 0);
+        assert.ok(decorations.every(decoration => decoration.range.start.line <= lastVisibleLine + 100));
+        
+        await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+    });
+
+    test('should keep the decorations of side-by-side documents apart', async () => {
+        const leftDocument = await vscode.workspace.openTextDocument({
+            content: '{"left": "one\\ntwo"}',
+            language: 'json'
+        });
+        const rightDocument = await vscode.workspace.openTextDocument({
+            content: '{"rightSide": "a\\nb\\nc"}',
+            language: 'json'
+        });
+        
+        await vscode.window.showTextDocument(leftDocument, vscode.ViewColumn.One);
+        await vscode.window.showTextDocument(rightDocument, vscode.ViewColumn.Two);
+        decorationManager.applyDecorations(leftDocument);
+        decorationManager.applyDecorations(rightDocument);
+        
+        // Both visible editors stay decorated, and queries only see the requested document
+        assert.strictEqual(decorationManager.getActiveDecorationCount(leftDocument), 1);
+        assert.strictEqual(decorationManager.getActiveDecorationCount(rightDocument), 2);
+        assert.notStrictEqual(decorationManager.getDecorationAtPosition(new vscode.Position(0, 14), leftDocument), null);
+        assert.strictEqual(decorationManager.getDecorationAtPosition(new vscode.Position(0, 14), rightDocument), null);
+        
+        const wholeLine = new vscode.Range(0, 0, 0, 100);
+        assert.strictEqual(decorationManager.getDecorationsInRange(wholeLine, leftDocument).length, 1);
+        assert.strictEqual(decorationManager.getDecorationsInRange(wholeLine, rightDocument).length, 2);
+        
+        await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+        await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+    });
+
+    test('should render each escape kind with its own treatment', async () => {
+        const escapeDocument = await vscode.workspace.openTextDocument({
+            content: '{"snippet": "line\\r\\n\\tindented \\"caf\\u00e9\\"\\b"}',
+            language: 'json'
+        });
+        
+        await vscode.window.showTextDocument(escapeDocument);
+        decorationManager.applyDecorations(escapeDocument);
+        
+        // The \r\n pair is one line break, and \b has nothing to show so it stays raw
+        const decorations = decorationManager.getDecorationState(escapeDocument).decorations;
+        assert.deepStrictEqual(decorations.map(d => d.kind), ['crlf', 'tab', 'quote', 'unicode', 'quote']);
+        assert.deepStrictEqual(decorations.map(d => d.renderText), ['\n', '→', '"', 'é', '"']);
+        assert.deepStrictEqual(decorations.map(d => d.isLineBreak), [true, false, false, false, false]);
+        assert.strictEqual(decorations[0].range.end.character - decorations[0].range.start.character, 4);
+        
+        await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+    });
+});
@@ -0,0 +1,196 @@
+import * as assert from 'assert';
+import { DocumentIndex } from '../../documentIndex';
+import { JsonScanner, JSONC_OPTIONS, STRICT_JSON_OPTIONS } from '../../jsonScanner';
+
+suite('DocumentIndex Test Suite', () => {
+    /**
+     * Create an index with its whole text already scanned
+     */
+    function createIndex(text: string, isJsonc = false): DocumentIndex {
+        const index = new DocumentIndex(text, 1, isJsonc);
+        index.scanChunk(Number.MAX_SAFE_INTEGER);
+        return index;
+    }
+
+    /**
+     * Replace part of the indexed text, the way a single content change would
+     */
+    function edit(index: DocumentIndex, offset: number, length: number, text: string) {
+        const newText = index.text.substring(0, offset) + text + index.text.substring(offset + length);
+        return index.applyChange(offset, length, text, newText, index.version + 1);
+    }
+
+    /**
+     * Assert that the index holds exactly what a full scan of its text produces
+     */
+    function assertMatchesFullScan(index: DocumentIndex, message?: string) {
+        const expected = new JsonScanner(index.isJsonc ? JSONC_OPTIONS : STRICT_JSON_OPTIONS).scan(index.text);
+        assert.deepStrictEqual(index.getScanResult(), expected, message);
+    }
+
+    suite('Incremental Updates', () => {
+        test('should match a full scan after typing inside a string', () => {
+            const index = createIndex('{"a": "one\\ntwo", "b": [1, 2, 3]}');
+
+            edit(index, 10, 0, '\\n');
+            assertMatchesFullScan(index);
+            edit(index, 6, 0, 'x');
+            assertMatchesFullScan(index);
+        });
+
+        test('should match a full scan when an edit changes how the rest of the line is read', () => {
+            const index = createIndex('{\n  "a": "x",\n  "b": "y\\n"\n}');
+
+            // Removing a quote swallows the rest of the line into an unterminated string
+            edit(index, 10, 1, '');
+            assertMatchesFullScan(index);
+            edit(index, 10, 0, '"');
+            assertMatchesFullScan(index);
+        });
+
+        test('should match a full scan when comments are opened and closed', () => {
+            const index = createIndex('{\n  "a": 1, "b": "c\\nd"\n}', true);
+
+            edit(index, 4, 0, '/* ');
+            assertMatchesFullScan(index);
+            edit(index, 15, 0, ' */');
+            assertMatchesFullScan(index);
+        });
+
+        test('should match a full scan after a sequence of random edits', () => {
+            const fragments = ['"', '\\n', '\\', ',', ':', '{', '}', '[', ']', ' ', '\n', 'true', '12', '"k": "v\\nw"', '//', '/*', '*/'];
+            const index = createIndex('{"list": ["a\\nb", "c"], "nested": {"d": "e\\n\\nf"}}', true);
+            let seed = 42;
+            const random = (limit: number) => {
+                seed = (seed * 1103515245 + 12345) % 2147483648;
+                return seed % limit;
+            };
+
+            for (let i = 0; i < 300; i++) {
+                const offset = random(index.text.length + 1);
+                const length = Math.min(random(4), index.text.length - offset);
+                const text = random(3) === 0 ? '' : fragments[random(fragments.length)];
+                edit(index, offset, length, text);
+                assertMatchesFullScan(index, `Mismatch after edit ${i}: ${JSON.stringify(index.text)}`);
+            }
+        });
+
+        test('should match a full scan when edits keep a long document valid', () => {
+            const values = ['{"k": [1, 2]}', '[]', '[1, [2, {"z": 3}]]', '"s\\nt"', 'null'];
+            const entries = Array.from({ length: 400 }, (_, i) => `"k${i}": {"a": [1, "x\\ny", {"b": 5}], "c": 8}`);
+            const index = createIndex(`{${entries.join(', ')}}`);
+            index.getScanResult();
+            let seed = 7;
+            const random = (limit: number) => {
+                seed = (seed * 1103515245 + 12345) % 2147483648;
+                return seed % limit;
+            };
+
+            for (let i = 0; i < 100; i++) {
+                const numbers = index.getScanResult().tokens.filter(token => token.kind === 'number' || token.kind === 'literal');
+                const target = numbers[random(numbers.length)];
+                edit(index, target.offset, target.length, values[random(values.length)]);
+                assertMatchesFullScan(index, `Mismatch after edit ${i}`);
+
+                // Break the document and repair it again
+                if (i % 10 === 0) {
+                    edit(index, target.offset, 0, ']');
+                    assertMatchesFullScan(index, `Mismatch after breaking edit ${i}`);
+                    edit(index, target.offset, 1, '');
+                    assertMatchesFullScan(index, `Mismatch after repairing edit ${i}`);
+                }
+            }
+        });
+
+        test('should shift newline offsets of strings after the edit', () => {
+            const index = createIndex('["a", "b\\nc"]');
+
+            edit(index, 1, 3, '"long"');
+
+            const strings = index.getScanResult().tokens.filter(token => token.kind === 'string');
+            assert.strictEqual(strings[1].offset, 9);
+            assert.deepStrictEqual(strings[1].newlineOffsets, [2]);
+        });
+    });
+
+    suite('Chunked Scanning', () => {
+        test('should only scan the text when asked to', () => {
+            const index = new DocumentIndex('["a", "b\\nc", "d"]', 1, false);
+
+            assert.strictEqual(index.isComplete, false);
+            assert.strictEqual(index.getScannedTokens().length, 0);
+
+            index.scanChunk(4);
+            assert.strictEqual(index.isComplete, false);
+            assert.ok(index.scannedEnd >= 4);
+            assertMatchesFullScan(index);
+            assert.strictEqual(index.isComplete, true);
+        });
+
+        test('should never split a token across chunks', () => {
+            const index = new DocumentIndex('["a long string", 12345]', 1, false);
+
+            index.scanChunk(3);
+
+            const tokens = index.getScannedTokens();
+            assert.deepStrictEqual(tokens.map(token => token.kind), ['openBracket', 'string']);
+            assert.strictEqual(index.scannedEnd, tokens[1].offset + tokens[1].length);
+        });
+
+        test('should match a full scan when edits arrive while scanning', () => {
+            const index = new DocumentIndex('{"a": "b\\nc",\n "d": [1, 2, 3],\n "e": "f"}', 1, true);
+
+            index.scanChunk(10);
+            edit(index, 30, 0, '"x\\ny", ');
+            index.scanChunk(5);
+            const change = edit(index, 2, 0, 'z');
+            assert.strictEqual(change.offset + change.newLength, index.text.length);
+            index.scanChunk(8);
+            assertMatchesFullScan(index);
+        });
+    });
+
+    suite('Change Records', () => {
+        test('should report the re-scanned region and the line delta', () => {
+            const index = createIndex('{"a": "b", "c": "d"}');
+
+            const change = edit(index, 7, 0, 'x\n');
+
+            // The re-scan starts at the edited string and grows by the inserted text
+            assert.strictEqual(change.version, 2);
+            assert.strictEqual(change.offset, 6);
+            assert.strictEqual(change.lineDelta, 1);
+            assert.strictEqual(change.newLength - change.oldLength, 2);
+        });
+
+        test('should only re-scan the tokens touching the edit', () => {
+            const index = createIndex('[1, 2, 3, 4, 5]');
+
+            const change = edit(index, 7, 1, '30');
+
+            assert.strictEqual(change.offset, 7);
+            assert.strictEqual(change.oldLength, 1);
+            assert.strictEqual(change.newLength, 2);
+        });
+
+        test('should return the changes since a version', () => {
+            const index = createIndex('["a"]');
+            edit(index, 2, 0, 'b');
+            edit(index, 3, 0, 'c');
+
+            assert.deepStrictEqual(index.getChangesSince(3), []);
+            assert.deepStrictEqual(index.getChangesSince(1)!.map(change => change.version), [2, 3]);
+            assert.deepStrictEqual(index.getChangesSince(2)!.map(change => change.version), [3]);
+        });
+
+        test('should return null once the history no longer covers a version', () => {
+            const index = createIndex('["a"]');
+            for (let i = 0; i < 100; i++) {
+                edit(index, 2, 0, 'b');
+            }
+
+            assert.strictEqual(index.getChangesSince(1), null);
+            assert.notStrictEqual(index.getChangesSince(index.version - 1), null);
+        });
+    });
+});
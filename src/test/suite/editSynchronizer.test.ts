@@ -2,6 +2,7 @@ import * as assert from 'assert';
 import * as vscode from 'vscode';
 import { EditSynchronizer, EditMapping, DocumentState } from '../../editSynchronizer';
 import { DecorationManager } from '../../decorationManager';
+import { JsonStringDetector } from '../../jsonStringDetector';
 
 suite('EditSynchronizer Test Suite', () => {
     let editSynchronizer: EditSynchronizer;
@@ -38,6 +39,18 @@ suite('EditSynchronizer Test Suite', () => {
             assert.ok(documentState.mappings.length > 0, 'Should have position mappings');
         });
 
+        test('should compute the mappings of a new document only when they are first used', async () => {
+            const entries = Array.from({ length: 20000 }, (_, i) => `"key${i}": "line ${i}\\nnext"`);
+            const document = await vscode.workspace.openTextDocument({ content: `{\n${entries.join(',\n')}\n}`, language: 'json' });
+            const detector = new JsonStringDetector();
+
+            editSynchronizer.onDidChangeTextDocument({ document, contentChanges: [], reason: undefined });
+            assert.ok(detector.getIndexingProgress(document).scannedLength < document.getText().length, 'Should not index the document when tracking starts');
+
+            const documentState = editSynchronizer.getDocumentState(document);
+            assert.strictEqual(documentState?.mappings.length, 20000);
+        });
+
         test('should not initialize state for non-JSON documents', async () => {
             const textDocument = await vscode.workspace.openTextDocument({
                 content: 'This is plain text with \\n sequences',
@@ -96,6 +109,38 @@ suite('EditSynchronizer Test Suite', () => {
         });
     });
 
+    suite('Position Mapping', () => {
+        test('should agree with the visual text for every position', () => {
+            const text = testDocument.getText();
+            const visualText = editSynchronizer.getPositionMapping(testDocument).text;
+            const visualLines = visualText.split('\n');
+
+            assert.strictEqual(visualText, text.replace(/\\n/g, '\n'));
+
+            for (let offset = 0; offset <= text.length; offset++) {
+                const actual = testDocument.positionAt(offset);
+                const visual = editSynchronizer.transformActualToVisual(testDocument, actual);
+                const isInsideEscape = text.substring(offset - 1, offset + 1) === '\\n';
+
+                assert.ok(visual.character <= visualLines[visual.line].length, `offset ${offset}`);
+                assert.strictEqual(
+                    testDocument.offsetAt(editSynchronizer.transformVisualToActual(testDocument, visual)),
+                    isInsideEscape ? offset + 1 : offset,
+                    `offset ${offset}`
+                );
+            }
+        });
+
+        test('should map escapes to the line breaks they render as', () => {
+            const state = editSynchronizer.getDocumentState(testDocument)!;
+
+            assert.strictEqual(state.mappings.length, 3);
+            assert.deepStrictEqual(state.mappings.map(mapping => [mapping.visualPosition.line, mapping.visualPosition.character]), [[1, 19], [2, 5], [4, 16]]);
+            assert.deepStrictEqual(state.mappings.map(mapping => mapping.offset), [0, 1, 2]);
+            assert.strictEqual(state.visualContent, testDocument.getText().replace(/\\n/g, '\n'));
+        });
+    });
+
     suite('Edit Detection', () => {
         test('should detect edits in decorated string areas', async () => {
             // Apply decorations first
@@ -585,4 +630,397 @@ suite('EditSynchronizer Test Suite', () => {
             });
         });
     });
-});
\ No newline at end of file
+
+    suite('Escape Commands', () => {
+        /**
+         * Open a JSON document and select the given pieces of text, one selection per cursor
+         */
+        async function selectText(content: string, pieces: string[]) {
+            const document = await vscode.workspace.openTextDocument({ content, language: 'json' });
+            const selections = pieces.map(piece => {
+                const start = content.indexOf(piece);
+                return new vscode.Selection(document.positionAt(start), document.positionAt(start + piece.length));
+            });
+            return { document, selections };
+        }
+
+        test('should escape selected text inside a string in place', async () => {
+            const { document, selections } = await selectText('{"path": "C:\\temp", "b": "x"}', ['C:\\temp']);
+
+            const { edits, skipped } = editSynchronizer.escapeSelections(document, selections);
+
+            assert.strictEqual(skipped, 0);
+            assert.strictEqual(edits[0].newText, 'C:\\\\temp');
+            assert.strictEqual(
+                editSynchronizer.transformVisualContentToActual(document, 'say "hi"\n\tnow', selections[0], true),
+                'say \\"hi\\"\\n\\tnow'
+            );
+        });
+
+        test('should turn text outside strings into a string literal', async () => {
+            const { document, selections } = await selectText('[\n  plain "text"\n]', ['plain "text"']);
+
+            const { edits } = editSynchronizer.escapeSelections(document, selections);
+
+            assert.strictEqual(edits.length, 1);
+            assert.strictEqual(edits[0].newText, '"plain \\"text\\""');
+        });
+
+        test('should unescape every selection of a multi-cursor edit', async () => {
+            const { document, selections } = await selectText('{"a": "one\\ntwo", "b": "tab\\there"}', ['one\\ntwo', 'tab\\there']);
+
+            const { edits, skipped } = editSynchronizer.unescapeSelections(document, selections);
+
+            assert.strictEqual(skipped, 0);
+            assert.deepStrictEqual(edits.map(edit => edit.newText), ['one\ntwo', 'tab\there']);
+        });
+
+        test('should unescape the whole string under an empty selection, once per string', async () => {
+            const content = '{"a": "caf\\u00e9 \\"ok\\""}';
+            const document = await vscode.workspace.openTextDocument({ content, language: 'json' });
+            const cursor = (offset: number) => new vscode.Selection(document.positionAt(offset), document.positionAt(offset));
+
+            const { edits } = editSynchronizer.unescapeSelections(document, [cursor(8), cursor(12)]);
+
+            assert.strictEqual(edits.length, 1);
+            assert.strictEqual(edits[0].newText, 'caf\u00e9 "ok"');
+            assert.strictEqual(document.offsetAt(edits[0].range.start), content.indexOf('"caf'));
+            assert.strictEqual(document.offsetAt(edits[0].range.end), content.length - 1);
+        });
+
+        test('should skip selections that cut an escape sequence in half', async () => {
+            const { document, selections } = await selectText('{"a": "x\\ny"}', ['x\\']);
+
+            const { edits, skipped } = editSynchronizer.unescapeSelections(document, selections);
+
+            assert.strictEqual(edits.length, 0);
+            assert.strictEqual(skipped, 1);
+        });
+    });
+
+    suite('Enter Key', () => {
+        /**
+         * Show a JSON document with a cursor before each of the given pieces of text
+         */
+        async function showWithCursors(content: string, pieces: string[]) {
+            const document = await vscode.workspace.openTextDocument({ content, language: 'json' });
+            const editor = await vscode.window.showTextDocument(document);
+            editor.selections = pieces.map(piece => {
+                const position = document.positionAt(content.indexOf(piece));
+                return new vscode.Selection(position, position);
+            });
+            return { document, editor };
+        }
+
+        teardown(async () => {
+            await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+        });
+
+        test('should insert a \\n escape at every cursor', async () => {
+            const { document, editor } = await showWithCursors('{"a": "onetwo", "b": "threefour"}', ['two', 'four']);
+
+            assert.strictEqual(await editSynchronizer.insertNewlineEscapes(editor), true);
+
+            const text = document.getText();
+            assert.strictEqual(text, '{"a": "one\\ntwo", "b": "three\\nfour"}');
+            assert.deepStrictEqual(editor.selections.map(selection => document.offsetAt(selection.active)), [text.indexOf('two'), text.indexOf('four')]);
+        });
+
+        test('should replace selected text', async () => {
+            const { document, editor } = await showWithCursors('{"a": "one two"}', ['one']);
+            const start = editor.selections[0].start;
+            editor.selections = [new vscode.Selection(start.translate(0, 3), start.translate(0, 4))];
+
+            await editSynchronizer.insertNewlineEscapes(editor);
+
+            assert.strictEqual(document.getText(), '{"a": "one\\ntwo"}');
+        });
+
+        test('should repeat the indentation of the current line when asked to', async () => {
+            const { document, editor } = await showWithCursors('{"code": "if (x) {\\n  \\treturn;}"}', ['}"']);
+
+            await editSynchronizer.insertNewlineEscapes(editor, 'keep');
+
+            assert.strictEqual(document.getText(), '{"code": "if (x) {\\n  \\treturn;\\n  \\t}"}');
+        });
+
+        test('should leave Enter alone when a cursor is outside a string', async () => {
+            const content = '{"a": "one", "b": 2}';
+            const { document, editor } = await showWithCursors(content, ['one', '2']);
+
+            assert.strictEqual(await editSynchronizer.insertNewlineEscapes(editor), false);
+            assert.strictEqual(document.getText(), content);
+        });
+    });
+
+    suite('Atomic Escapes', () => {
+        /**
+         * Show a decorated JSON document with a cursor at each of the given offsets
+         */
+        async function showDecorated(content: string, offsets: number[]) {
+            const document = await vscode.workspace.openTextDocument({ content, language: 'json' });
+            const editor = await vscode.window.showTextDocument(document);
+            decorationManager.applyDecorations(document);
+            editor.selections = offsets.map(offset => {
+                const position = document.positionAt(offset);
+                return new vscode.Selection(position, position);
+            });
+            return { document, editor };
+        }
+
+        teardown(async () => {
+            await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+        });
+
+        test('should delete a whole \\n escape with Backspace after it', async () => {
+            const content = '{"a": "one\\ntwo"}';
+            const { document, editor } = await showDecorated(content, [content.indexOf('two')]);
+
+            assert.strictEqual(await editSynchronizer.deleteAtomicEscapes(editor, 'left'), true);
+            assert.strictEqual(document.getText(), '{"a": "onetwo"}');
+        });
+
+        test('should delete a whole \\n escape with Delete before it', async () => {
+            const content = '{"a": "one\\ntwo", "b": "x\\ny"}';
+            const { document, editor } = await showDecorated(content, [content.indexOf('\\ntwo'), content.indexOf('\\ny')]);
+
+            assert.strictEqual(await editSynchronizer.deleteAtomicEscapes(editor, 'right'), true);
+            assert.strictEqual(document.getText(), '{"a": "onetwo", "b": "xy"}');
+        });
+
+        test('should widen selections that end inside an escape', async () => {
+            const content = '{"a": "one\\ntwo"}';
+            const { document, editor } = await showDecorated(content, []);
+            const start = content.indexOf('ne');
+            editor.selections = [new vscode.Selection(document.positionAt(start), document.positionAt(start + 3))];
+
+            await editSynchronizer.deleteAtomicEscapes(editor, 'left');
+
+            assert.strictEqual(document.getText(), '{"a": "otwo"}');
+        });
+
+        test('should leave deletions away from escapes to the built-in command', async () => {
+            const content = '{"a": "one\\ntwo"}';
+            const { document, editor } = await showDecorated(content, [content.indexOf('wo')]);
+
+            assert.strictEqual(await editSynchronizer.deleteAtomicEscapes(editor, 'left'), false);
+            assert.strictEqual(document.getText(), content);
+        });
+
+        test('should move cursors inside an escape to its edge', async () => {
+            const content = '{"a": "one\\ntwo"}';
+            const inside = content.indexOf('\\n') + 1;
+            const { document, editor } = await showDecorated(content, [inside]);
+
+            editSynchronizer.moveCursorsOutOfEscapes(editor, 'right', false);
+            assert.strictEqual(document.offsetAt(editor.selections[0].active), inside + 1);
+
+            editor.selections = [new vscode.Selection(document.positionAt(inside - 4), document.positionAt(inside))];
+            editSynchronizer.moveCursorsOutOfEscapes(editor, 'left', true);
+            assert.strictEqual(document.offsetAt(editor.selections[0].anchor), inside - 4);
+            assert.strictEqual(document.offsetAt(editor.selections[0].active), inside - 1);
+        });
+    });
+
+    suite('Edit Transformations', () => {
+        /**
+         * Describe the insertion of text at an offset of a document that already contains it
+         */
+        function insertionAt(document: vscode.TextDocument, offset: number, text: string): vscode.TextDocumentContentChangeEvent {
+            const position = document.positionAt(offset);
+            return { range: new vscode.Range(position, position), rangeOffset: offset, rangeLength: 0, text };
+        }
+
+        teardown(async () => {
+            await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+        });
+
+        test('should compute the correction without applying it', async () => {
+            const content = '{"a": "one\\ntwo\nthree"}';
+            const document = await vscode.workspace.openTextDocument({ content, language: 'json' });
+            const offset = content.indexOf('\nthree');
+
+            const transformation = editSynchronizer.createLineBreakTransformation(document, insertionAt(document, offset, '\n'));
+
+            assert.strictEqual(transformation.success, true);
+            assert.strictEqual(transformation.documentVersion, document.version);
+            assert.strictEqual(transformation.actualEdit.newText, '\\n');
+            assert.strictEqual(document.offsetAt(transformation.actualEdit.range.start), offset);
+            assert.strictEqual(document.offsetAt(transformation.actualEdit.range.end), offset + 1);
+            assert.strictEqual(transformation.newMappings.length, 1);
+            assert.strictEqual(document.getText(), content);
+        });
+
+        test('should reject transformations computed for an older version', async () => {
+            const content = '{"a": "one\\ntwo\nthree"}';
+            const document = await vscode.workspace.openTextDocument({ content, language: 'json' });
+            const transformation = editSynchronizer.createLineBreakTransformation(document, insertionAt(document, content.indexOf('\nthree'), '\n'));
+
+            const applied = await editSynchronizer.applyTransformations(document, [{ ...transformation, documentVersion: document.version - 1 }]);
+
+            assert.strictEqual(applied, false);
+            assert.strictEqual(document.getText(), content);
+        });
+
+        test('should convert a line break typed next to a rendered escape', async () => {
+            const content = '{"a": "one\\ntwo"}';
+            const document = await vscode.workspace.openTextDocument({ content, language: 'json' });
+            const editor = await vscode.window.showTextDocument(document);
+            decorationManager.applyDecorations(document);
+            const position = document.positionAt(content.indexOf('two'));
+
+            await editor.edit(builder => builder.insert(position, '\n'));
+            // Wait for the queued correction
+            await editSynchronizer.applyTransformations(document, []);
+
+            assert.strictEqual(document.getText(), '{"a": "one\\n\\ntwo"}');
+            assert.strictEqual(editSynchronizer.isSynchronizationActive(), true);
+        });
+    });
+
+    suite('Clipboard Commands', () => {
+        /**
+         * Show a JSON document with a selection over each of the given pieces of text
+         */
+        async function showWithSelections(content: string, pieces: string[]) {
+            const document = await vscode.workspace.openTextDocument({ content, language: 'json' });
+            const editor = await vscode.window.showTextDocument(document);
+            editor.selections = pieces.map(piece => {
+                const start = content.indexOf(piece);
+                return new vscode.Selection(document.positionAt(start), document.positionAt(start + piece.length));
+            });
+            return { document, editor };
+        }
+
+        teardown(async () => {
+            await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+        });
+
+        test('should copy string content in each format', async () => {
+            const { editor } = await showWithSelections('{"a": "one\\ntwo \\"q\\""}', ['one\\ntwo \\"q\\"']);
+
+            assert.strictEqual(editSynchronizer.copySelections(editor, 'raw'), 'one\\ntwo \\"q\\"');
+            assert.strictEqual(editSynchronizer.copySelections(editor, 'unescaped'), 'one\ntwo "q"');
+            assert.strictEqual(editSynchronizer.copySelections(editor, 'literal'), '"one\\ntwo \\"q\\""');
+        });
+
+        test('should copy text as written when the selection cuts an escape', async () => {
+            const { editor } = await showWithSelections('{"a": "one\\ntwo"}', ['one\\']);
+
+            assert.strictEqual(editSynchronizer.copySelections(editor, 'unescaped'), 'one\\');
+            assert.strictEqual(editSynchronizer.copySelections(editor, 'literal'), 'one\\');
+        });
+
+        test('should copy a valid literal when the selection holds other escapes', async () => {
+            const { editor } = await showWithSelections('{"a": "caf\\u00e9 \\/ \\t"}', ['caf\\u00e9 \\/ \\t']);
+
+            assert.strictEqual(editSynchronizer.copySelections(editor, 'literal'), '"caf\u00e9 / \\t"');
+        });
+
+        test('should copy multiple selections one per line and nothing for empty selections', async () => {
+            const { document, editor } = await showWithSelections('{"a": "x\\ty", "b": "z"}', ['z', 'x\\ty']);
+
+            assert.strictEqual(editSynchronizer.copySelections(editor, 'unescaped'), 'x\ty\nz');
+
+            const position = document.positionAt(7);
+            editor.selections = [new vscode.Selection(position, position)];
+            assert.strictEqual(editSynchronizer.copySelections(editor, 'unescaped'), undefined);
+        });
+
+        test('should escape quotes, backslashes, tabs and line breaks on paste', async () => {
+            const { document, editor } = await showWithSelections('{"a": "[]"}', [']']);
+            const position = editor.selections[0].start;
+            editor.selections = [new vscode.Selection(position, position)];
+
+            assert.strictEqual(await editSynchronizer.pasteIntoStrings(editor, 'say "hi"\tC:\\dir\nok'), true);
+
+            const text = document.getText();
+            assert.strictEqual(text, '{"a": "[say \\"hi\\"\\tC:\\\\dir\\nok]"}');
+            assert.strictEqual(document.offsetAt(editor.selections[0].active), text.indexOf(']'));
+        });
+
+        test('should spread one line per cursor over the cursors', async () => {
+            const { document, editor } = await showWithSelections('{"a": "1", "b": "2"}', ['1', '2']);
+
+            await editSynchronizer.pasteIntoStrings(editor, 'first\nsecond');
+
+            assert.strictEqual(document.getText(), '{"a": "first", "b": "second"}');
+        });
+
+        test('should leave pastes outside strings to the built-in paste', async () => {
+            const content = '{"a": "1", "b": 2}';
+            const { document, editor } = await showWithSelections(content, ['1', '2']);
+
+            assert.strictEqual(await editSynchronizer.pasteIntoStrings(editor, 'x'), false);
+            assert.strictEqual(document.getText(), content);
+        });
+    });
+
+    suite('Paste Safety', () => {
+        let document: vscode.TextDocument;
+        let position: vscode.Position;
+
+        setup(async () => {
+            document = await vscode.workspace.openTextDocument({ content: '{"a": "[]"}', language: 'json' });
+            position = document.positionAt(8);
+        });
+
+        test('should accept text that stays valid once its line breaks are converted', () => {
+            const result = editSynchronizer.validateClipboardContent('one\ntwo \\"kept\\" \\u00e9', position, document);
+
+            assert.strictEqual(result.isValid, true);
+            assert.deepStrictEqual(result.errors, []);
+        });
+
+        test('should report what pasting as written would break', () => {
+            const result = editSynchronizer.validateClipboardContent('say "hi"\tC:\\dir', position, document);
+
+            assert.strictEqual(result.isValid, false);
+            assert.strictEqual(result.errors.length, 3);
+            assert.ok(result.errors.some(error => error.includes('quotes')));
+            assert.ok(result.errors.some(error => error.includes('control characters')));
+            assert.ok(result.errors.some(error => error.includes('backslashes')));
+            assert.strictEqual(result.transformedText, 'say \\"hi\\"\\tC:\\\\dir');
+        });
+
+        test('should paste raw text with only its line breaks converted', async () => {
+            const editor = await vscode.window.showTextDocument(document);
+            editor.selections = [new vscode.Selection(position, position)];
+
+            await editSynchronizer.pasteIntoStrings(editor, '", "b": "x\ny', 'raw');
+
+            assert.strictEqual(document.getText(), '{"a": "[", "b": "x\\ny]"}');
+            await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+        });
+
+        test('should check each cursor against the line it receives', async () => {
+            const multiDocument = await vscode.workspace.openTextDocument({ content: '{"a": "1", "b": "2"}', language: 'json' });
+            const editor = await vscode.window.showTextDocument(multiDocument);
+            editor.selections = [7, 17].map(offset => new vscode.Selection(multiDocument.positionAt(offset), multiDocument.positionAt(offset + 1)));
+            const clipboardText = 'x\\ty\nsay "hi"';
+
+            const prompts: { items: readonly vscode.QuickPickItem[]; placeHolder?: string }[] = [];
+            const originalShowQuickPick = vscode.window.showQuickPick;
+            (vscode.window as { showQuickPick: unknown }).showQuickPick = async (items: readonly vscode.QuickPickItem[], options?: vscode.QuickPickOptions) => {
+                prompts.push({ items, placeHolder: options?.placeHolder });
+                return items.find(item => item.label === 'Paste as Raw');
+            };
+
+            try {
+                const modes = await editSynchronizer.choosePasteMode(editor, clipboardText);
+                assert.ok(modes, 'The paste should not be cancelled');
+                assert.deepStrictEqual(modes, ['escaped', 'raw']);
+                await editSynchronizer.pasteIntoStrings(editor, clipboardText, modes);
+
+                assert.strictEqual(prompts.length, 1);
+                assert.ok(prompts[0].placeHolder?.includes('break the JSON string.'));
+                assert.ok(prompts[0].items[1].description?.includes('say "hi"'));
+                // Only the second cursor's line breaks its string, so only it is pasted raw
+                assert.strictEqual(multiDocument.getText(), '{"a": "x\\\\ty", "b": "say "hi""}');
+            } finally {
+                (vscode.window as { showQuickPick: unknown }).showQuickPick = originalShowQuickPick;
+                await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+            }
+        });
+    });
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { EmbeddedLanguageHighlighter } from '../../embeddedLanguageHighlighter';
+
+suite('EmbeddedLanguageHighlighter Test Suite', () => {
+    let highlighter: EmbeddedLanguageHighlighter;
+
+    const highlight = async (content: string) => {
+        const document = await vscode.workspace.openTextDocument({ content, language: 'json' });
+        return highlighter.getEmbeddedTokens(document).map(token => [document.getText(token.range), token.type]);
+    };
+
+    setup(async () => {
+        await vscode.workspace.getConfiguration('json-newline-formatter').update('embeddedLanguages', {
+            ['$.queries[*].sql']: 'sql',
+            ['$.**.script']: 'bash'
+        }, vscode.ConfigurationTarget.Global);
+        highlighter = new EmbeddedLanguageHighlighter();
+    });
+
+    teardown(async () => {
+        highlighter.dispose();
+        await vscode.workspace.getConfiguration('json-newline-formatter').update('embeddedLanguages', undefined, vscode.ConfigurationTarget.Global);
+    });
+
+    test('should pick the language of a string from the path patterns', async () => {
+        const content = '{"queries": [{"sql": "select 1"}], "sql": "select 2", "jobs": {"a": {"script": "ls -l"}}}';
+        const document = await vscode.workspace.openTextDocument({ content, language: 'json' });
+
+        assert.deepStrictEqual(highlighter.findEmbeddedStrings(document).map(embedded => [embedded.stringRange.content, embedded.language]), [
+            ['select 1', 'sql'],
+            ['ls -l', 'shell']
+        ]);
+    });
+
+    test('should prefer a "lang" property of the same object', async () => {
+        const tokens = await highlight('{"lang": "html", "body": "<b>x</b>", "queries": [{"sql": "<i>", "lang": "markdown"}]}');
+
+        assert.deepStrictEqual(tokens, [['<', 'operator'], ['b', 'type'], ['>', 'operator'], ['</', 'operator'], ['b', 'type'], ['>', 'operator']]);
+    });
+
+    test('should turn highlighting off for a "lang" without a tokenizer', async () => {
+        assert.deepStrictEqual(await highlight('{"queries": [{"lang": "python", "sql": "select 1"}]}'), []);
+    });
+
+    test('should map tokens back through escapes', async () => {
+        const tokens = await highlight('{"queries": [{"sql": "select\\n  \\"id\\"\\tfrom t where a = \'\\u00e9\'"}]}');
+
+        assert.deepStrictEqual(tokens, [
+            ['select', 'keyword'],
+            ['\\"id\\"', 'variable'],
+            ['from', 'keyword'],
+            ['where', 'keyword'],
+            ['=', 'operator'],
+            ["'\\u00e9'", 'string']
+        ]);
+    });
+
+    test('should provide semantic tokens from the legend', async () => {
+        const document = await vscode.workspace.openTextDocument({ content: '{"queries": [{"sql": "select 1"}]}', language: 'json' });
+        const tokens = await highlighter.provideDocumentSemanticTokens(document, new vscode.CancellationTokenSource().token);
+
+        assert.ok(tokens);
+        assert.ok(EmbeddedLanguageHighlighter.legend.tokenTypes.includes('keyword'));
+    });
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { EmbeddedLanguage, resolveEmbeddedLanguage, tokenizeEmbedded } from '../../embeddedLanguages';
+
+suite('EmbeddedLanguages Test Suite', () => {
+    const tokenize = (language: EmbeddedLanguage, text: string) =>
+        tokenizeEmbedded(language, text).map(token => [text.substr(token.offset, token.length), token.type]);
+
+    test('should resolve language names and aliases', () => {
+        assert.strictEqual(resolveEmbeddedLanguage('PostgreSQL'), 'sql');
+        assert.strictEqual(resolveEmbeddedLanguage(' bash '), 'shell');
+        assert.strictEqual(resolveEmbeddedLanguage('md'), 'markdown');
+        assert.strictEqual(resolveEmbeddedLanguage('python'), undefined);
+    });
+
+    test('should tokenize SQL keywords, literals, parameters and comments', () => {
+        assert.deepStrictEqual(tokenize('sql', "SELECT count(*) FROM users WHERE name = 'o''k' AND id > :id -- note"), [
+            ['SELECT', 'keyword'],
+            ['count', 'function'],
+            ['*', 'operator'],
+            ['FROM', 'keyword'],
+            ['WHERE', 'keyword'],
+            ['=', 'operator'],
+            ["'o''k'", 'string'],
+            ['AND', 'keyword'],
+            ['>', 'operator'],
+            [':id', 'parameter'],
+            ['-- note', 'comment']
+        ]);
+    });
+
+    test('should not take keywords out of longer identifiers', () => {
+        assert.deepStrictEqual(tokenize('sql', 'selection_from'), []);
+    });
+
+    test('should tokenize shell commands, options, variables and operators', () => {
+        assert.deepStrictEqual(tokenize('shell', 'npm run build --if-present && echo "$HOME" # done'), [
+            ['npm', 'function'],
+            ['--if-present', 'parameter'],
+            ['&&', 'operator'],
+            ['echo', 'function'],
+            ['"$HOME"', 'string'],
+            ['# done', 'comment']
+        ]);
+    });
+
+    test('should tokenize Markdown headings, lists, code and links', () => {
+        assert.deepStrictEqual(tokenize('markdown', '# Title\n- see `code` and [docs](https://example.com)'), [
+            ['# Title', 'keyword'],
+            ['-', 'operator'],
+            ['`code`', 'string'],
+            ['[docs]', 'property'],
+            ['(https://example.com)', 'string']
+        ]);
+    });
+
+    test('should tokenize HTML tags, attributes and references', () => {
+        assert.deepStrictEqual(tokenize('html', '<a href="/x">A &amp; B</a><!-- c -->'), [
+            ['<', 'operator'],
+            ['a', 'type'],
+            ['href', 'property'],
+            ['"/x"', 'string'],
+            ['>', 'operator'],
+            ['&amp;', 'macro'],
+            ['</', 'operator'],
+            ['a', 'type'],
+            ['>', 'operator'],
+            ['<!-- c -->', 'comment']
+        ]);
+    });
+
+    test('should survive unterminated constructs', () => {
+        for (const language of ['sql', 'shell', 'markdown', 'html'] as EmbeddedLanguage[]) {
+            for (const text of ["'", '"', '/*', '<a href="', '```', '${', '[x](']) {
+                const tokens = tokenizeEmbedded(language, text);
+                assert.ok(tokens.every(token => token.length > 0 && token.offset + token.length <= text.length));
+            }
+        }
+    });
+});
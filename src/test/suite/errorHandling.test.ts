@@ -28,7 +28,8 @@ suite('Error Handling Tests', () => {
 
             assert.strictEqual(result.isValid, false);
             assert.ok(result.error);
-            assert.strictEqual(result.stringRanges.length, 0);
+            // Strings before the error are still well-formed and recovered
+            assert.deepStrictEqual(result.stringRanges.map(r => r.content), ['name', 'test', 'invalid']);
         });
 
         test('should handle unterminated strings', async () => {
@@ -250,4 +251,72 @@ suite('Error Handling Tests', () => {
             assert.strictEqual(stringRange, null);
         });
     });
+
+    suite('Recovery Mode', () => {
+        test('should keep strings before and after a structural error', async () => {
+            const brokenJson = `{
+    "before": "Line 1\\nLine 2",
+    "broken": {
+    "after": "Line 3\\nLine 4"
+}`;
+            const document = await vscode.workspace.openTextDocument({
+                content: brokenJson,
+                language: 'json'
+            });
+
+            const result = jsonDetector.parseJsonSafely(document);
+            const positions = jsonDetector.getDetailedNewlinePositions(document);
+
+            assert.strictEqual(result.isValid, false);
+            assert.deepStrictEqual(
+                result.stringRanges.filter(r => r.hasNewlines).map(r => r.content),
+                ['Line 1\\nLine 2', 'Line 3\\nLine 4']
+            );
+            assert.strictEqual(positions.length, 2);
+        });
+
+        test('should exclude only the line with an unterminated string', async () => {
+            const brokenJson = `{
+    "first": "A\\nB",
+    "second": "C\\nD, "x": "y",
+    "third": "E\\nF"
+}`;
+            const document = await vscode.workspace.openTextDocument({
+                content: brokenJson,
+                language: 'json'
+            });
+
+            const result = jsonDetector.parseJsonSafely(document);
+
+            assert.strictEqual(result.isValid, false);
+            assert.deepStrictEqual(
+                result.stringRanges.filter(r => r.hasNewlines).map(r => r.content),
+                ['A\\nB', 'E\\nF']
+            );
+            assert.ok(result.errorRanges);
+            assert.ok(result.errorRanges.some(range => range.start.line === 2 && range.end.line === 2));
+        });
+
+        test('should decorate recovered strings and mark the error region', async () => {
+            const brokenJson = `{
+    "message": "Hello\\nWorld",
+    "oops": ,
+    "other": "Foo\\nBar"
+}`;
+            const document = await vscode.workspace.openTextDocument({
+                content: brokenJson,
+                language: 'json'
+            });
+
+            await vscode.window.showTextDocument(document);
+            decorationManager.applyDecorations(document);
+
+            assert.strictEqual(decorationManager.getActiveDecorationCount(), 2);
+            const errorRanges = decorationManager.getErrorRanges();
+            assert.strictEqual(errorRanges.length, 1);
+            assert.strictEqual(errorRanges[0].start.line, 2);
+
+            await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+        });
+    });
 });
\ No newline at end of file
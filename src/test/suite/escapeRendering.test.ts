@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { DEFAULT_ESCAPE_RENDERING, renderEscape } from '../../escapeRendering';
+
+suite('Escape Rendering Test Suite', () => {
+    test('should render line breaks and collapsed \\r\\n pairs as one break', () => {
+        assert.deepStrictEqual(renderEscape({ kind: 'newline', decoded: '\n' }, DEFAULT_ESCAPE_RENDERING), { text: '\n', isLineBreak: true });
+        assert.deepStrictEqual(renderEscape({ kind: 'crlf', decoded: '\r\n' }, DEFAULT_ESCAPE_RENDERING), { text: '\n', isLineBreak: true });
+        assert.strictEqual(renderEscape({ kind: 'newline', decoded: '\n' }, { ...DEFAULT_ESCAPE_RENDERING, newline: 'raw' }), null);
+    });
+
+    test('should render tabs as an arrow or with the tab width', () => {
+        const tab = { kind: 'tab' as const, decoded: '\t' };
+
+        assert.strictEqual(renderEscape(tab, DEFAULT_ESCAPE_RENDERING)?.text, '→');
+        assert.strictEqual(renderEscape(tab, { ...DEFAULT_ESCAPE_RENDERING, tab: 'space', tabSize: 2 })?.text, '  ');
+        assert.strictEqual(renderEscape(tab, { ...DEFAULT_ESCAPE_RENDERING, tab: 'raw' }), null);
+    });
+
+    test('should render a lone carriage return as a symbol or a break', () => {
+        const carriageReturn = { kind: 'carriageReturn' as const, decoded: '\r' };
+
+        assert.deepStrictEqual(renderEscape(carriageReturn, DEFAULT_ESCAPE_RENDERING), { text: '␍', isLineBreak: false });
+        assert.deepStrictEqual(renderEscape(carriageReturn, { ...DEFAULT_ESCAPE_RENDERING, carriageReturn: 'break' }), { text: '\n', isLineBreak: true });
+    });
+
+    test('should show decoded characters unless they are invisible', () => {
+        assert.strictEqual(renderEscape({ kind: 'unicode', decoded: 'é' }, DEFAULT_ESCAPE_RENDERING)?.text, 'é');
+        assert.strictEqual(renderEscape({ kind: 'unicode', decoded: '😀' }, DEFAULT_ESCAPE_RENDERING)?.text, '😀');
+        assert.strictEqual(renderEscape({ kind: 'unicode', decoded: '\u0001' }, DEFAULT_ESCAPE_RENDERING), null);
+        assert.strictEqual(renderEscape({ kind: 'unicode', decoded: '\ud83d' }, DEFAULT_ESCAPE_RENDERING), null);
+        assert.strictEqual(renderEscape({ kind: 'quote', decoded: '"' }, DEFAULT_ESCAPE_RENDERING)?.text, '"');
+        assert.strictEqual(renderEscape({ kind: 'backslash', decoded: '\\' }, { ...DEFAULT_ESCAPE_RENDERING, backslash: 'raw' }), null);
+        assert.strictEqual(renderEscape({ kind: 'formFeed', decoded: '\f' }, DEFAULT_ESCAPE_RENDERING), null);
+    });
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { decodeJsonStringWithOffsets, escapeJsonString, isUnprintableCharacter, readEscapeSequences, unescapeJsonString, usesUnicodeEscapes } from '../../jsonEscapes';
+
+suite('JSON Escapes Test Suite', () => {
+    test('should decode every escape sequence', () => {
+        assert.strictEqual(unescapeJsonString('a\\nb\\tc\\"d\\\\e\\u00e9\\/'), 'a\nb\tc"d\\eé/');
+    });
+
+    test('should reject invalid escape sequences', () => {
+        assert.throws(() => unescapeJsonString('bad \\q escape'), SyntaxError);
+    });
+
+    test('should escape quotes, backslashes and control characters', () => {
+        assert.strictEqual(escapeJsonString('line 1\nline 2\t"quoted" \\ \r\u0001'), 'line 1\\nline 2\\t\\"quoted\\" \\\\ \\r\\u0001');
+    });
+
+    test('should escape non-ASCII characters only when asked to', () => {
+        assert.strictEqual(escapeJsonString('café'), 'café');
+        assert.strictEqual(escapeJsonString('café 😀', { escapeNonAscii: true }), 'caf\\u00e9 \\ud83d\\ude00');
+    });
+
+    test('should round-trip decoded text', () => {
+        const samples = ['', 'plain', 'a\nb\n\nc', '\t"x"\\', '\u00fc \u2028 \u0000'];
+
+        for (const sample of samples) {
+            assert.strictEqual(unescapeJsonString(escapeJsonString(sample)), sample);
+            assert.strictEqual(unescapeJsonString(escapeJsonString(sample, { escapeNonAscii: true })), sample);
+        }
+    });
+
+    test('should detect content that writes non-ASCII characters as unicode escapes', () => {
+        assert.strictEqual(usesUnicodeEscapes('caf\\u00e9'), true);
+        assert.strictEqual(usesUnicodeEscapes('café'), false);
+        assert.strictEqual(usesUnicodeEscapes('tab\\u0009'), false);
+        assert.strictEqual(usesUnicodeEscapes('caf\\u00e9 and é'), false);
+    });
+
+    test('should read the kind and decoded text of escape sequences', () => {
+        const text = '"a\\tb\\"\\\\\\u00e9"';
+        const escapes = readEscapeSequences(text, 0, [2, 5, 7, 9]);
+
+        assert.deepStrictEqual(escapes.map(escape => escape.kind), ['tab', 'quote', 'backslash', 'unicode']);
+        assert.deepStrictEqual(escapes.map(escape => escape.decoded), ['\t', '"', '\\', '\u00e9']);
+        assert.deepStrictEqual(escapes.map(escape => escape.length), [2, 2, 2, 6]);
+    });
+
+    test('should collapse \\r\\n pairs only when asked to', () => {
+        const text = '"x\\r\\ny\\r"';
+
+        assert.deepStrictEqual(readEscapeSequences(text, 0, [2, 4, 7]).map(escape => [escape.kind, escape.length]), [['crlf', 4], ['carriageReturn', 2]]);
+        assert.deepStrictEqual(readEscapeSequences(text, 0, [2, 4, 7], false).map(escape => escape.kind), ['carriageReturn', 'newline', 'carriageReturn']);
+    });
+
+    test('should read a surrogate pair as a single character', () => {
+        const text = '"\\ud83d\\ude00 \\ud83d"';
+        const escapes = readEscapeSequences(text, 0, [1, 7, 14]);
+
+        assert.strictEqual(escapes.length, 2);
+        assert.strictEqual(escapes[0].length, 12);
+        assert.strictEqual(escapes[0].decoded, '\ud83d\ude00');
+        assert.strictEqual(escapes[1].decoded, '\ud83d');
+    });
+
+    test('should decode content with the offset of every character', () => {
+        const decoded = decodeJsonStringWithOffsets('a\\nb\\u00e9\\q');
+
+        assert.strictEqual(decoded.text, 'a\nb\u00e9\\q');
+        assert.deepStrictEqual(decoded.sourceOffsets, [0, 1, 3, 4, 10, 11, 12]);
+    });
+
+    test('should treat tabs as printable only when asked to', () => {
+        assert.strictEqual(isUnprintableCharacter('\t', true), false);
+        assert.strictEqual(isUnprintableCharacter('\t', false), true);
+        assert.strictEqual(isUnprintableCharacter('\u0000', true), true);
+        assert.strictEqual(isUnprintableCharacter('\u2028', true), true);
+        assert.strictEqual(isUnprintableCharacter('\ud83d', true), true);
+        assert.strictEqual(isUnprintableCharacter('\u00e9', false), false);
+    });
+});
@@ -118,6 +118,25 @@ suite('JsonFeatureIntegration Test Suite', () => {
             assert.deepStrictEqual(foldingRanges, [], 'Should return empty array when cancelled');
         });
 
+        test('should fold JSONC comments and regions', async () => {
+            const jsoncDoc = await vscode.workspace.openTextDocument({
+                content: '{\n  // #region Settings\n  "a": "{",\n  // #endregion\n  /*\n   * notes\n   */\n  "b": 1\n}',
+                language: 'jsonc'
+            });
+
+            const foldingRanges = await jsonFeatureIntegration.provideFoldingRanges(
+                jsoncDoc,
+                {} as vscode.FoldingContext,
+                new vscode.CancellationTokenSource().token
+            ) as vscode.FoldingRange[];
+
+            assert.deepStrictEqual(foldingRanges.map(range => [range.start, range.end, range.kind]), [
+                [0, 8, undefined],
+                [1, 3, vscode.FoldingRangeKind.Region],
+                [4, 6, vscode.FoldingRangeKind.Comment]
+            ]);
+        });
+
         test('should handle malformed JSON gracefully', async () => {
             const malformedContent = `{
     "user": {
@@ -225,12 +244,109 @@ suite('JsonFeatureIntegration Test Suite', () => {
 
             assert.deepStrictEqual(completionItems, [], 'Should return empty array when cancelled');
         });
+
+        test('should complete the property names and values of the document schema', async () => {
+            await vscode.workspace.getConfiguration('json').update('schemas', [{
+                fileMatch: ['*'],
+                schema: {
+                    properties: {
+                        name: { type: 'string' },
+                        level: { enum: ['info', 'warn'], default: 'warn' },
+                        template: { type: 'string', default: 'Dear user,\nThanks' }
+                    }
+                }
+            }], vscode.ConfigurationTarget.Global);
+
+            try {
+                const schemaDocument = await vscode.workspace.openTextDocument({
+                    content: '{\n  "name": "x",\n  "level": ,\n  "template": \n}',
+                    language: 'json'
+                });
+                const complete = async (line: number, character: number) => await jsonFeatureIntegration.provideCompletionItems(
+                    schemaDocument,
+                    new vscode.Position(line, character),
+                    new vscode.CancellationTokenSource().token,
+                    { triggerKind: vscode.CompletionTriggerKind.Invoke } as vscode.CompletionContext
+                ) as vscode.CompletionItem[];
+
+                const levels = await complete(2, 11);
+                assert.deepStrictEqual(levels.map(item => item.insertText), ['"warn"', '"info"']);
+                assert.strictEqual(levels[0].detail, 'Default value');
+
+                const templates = await complete(3, 14);
+                assert.deepStrictEqual(templates.map(item => item.insertText), ['"Dear user,\\nThanks"']);
+            } finally {
+                await vscode.workspace.getConfiguration('json').update('schemas', undefined, vscode.ConfigurationTarget.Global);
+            }
+        });
+
+        test('should leave out properties the object already has', async () => {
+            await vscode.workspace.getConfiguration('json').update('schemas', [{
+                fileMatch: ['*'],
+                schema: { properties: { name: { type: 'string', description: 'Display name' }, level: { type: 'string' } } }
+            }], vscode.ConfigurationTarget.Global);
+
+            try {
+                const schemaDocument = await vscode.workspace.openTextDocument({ content: '{\n  "level": "x",\n  \n}', language: 'json' });
+                const properties = await jsonFeatureIntegration.provideCompletionItems(
+                    schemaDocument,
+                    new vscode.Position(2, 2),
+                    new vscode.CancellationTokenSource().token,
+                    { triggerKind: vscode.CompletionTriggerKind.Invoke } as vscode.CompletionContext
+                ) as vscode.CompletionItem[];
+
+                assert.deepStrictEqual(properties.map(item => [item.label, item.insertText, item.detail]), [['name', '"name": ', 'string']]);
+            } finally {
+                await vscode.workspace.getConfiguration('json').update('schemas', undefined, vscode.ConfigurationTarget.Global);
+            }
+        });
+
+        test('should complete escape sequences after a backslash in a string', async () => {
+            const escapeDocument = await vscode.workspace.openTextDocument({ content: '{"a": "x\\"}', language: 'json' });
+            const completionItems = await jsonFeatureIntegration.provideCompletionItems(
+                escapeDocument,
+                new vscode.Position(0, 9),
+                new vscode.CancellationTokenSource().token,
+                { triggerKind: vscode.CompletionTriggerKind.TriggerCharacter, triggerCharacter: '\\' } as vscode.CompletionContext
+            ) as vscode.CompletionItem[];
+
+            const newline = completionItems.find(item => item.insertText === '\\n');
+            assert.ok(newline, 'Should offer the newline escape');
+            assert.strictEqual((newline.range as vscode.Range).start.character, 8, 'Should replace the typed backslash');
+        });
+
+        test('should only offer the line break item in multiline strings without other completions', async () => {
+            const content = '{"template": "Dear user,\\nThanks"}';
+            const multilineDocument = await vscode.workspace.openTextDocument({ content, language: 'json' });
+            const complete = async () => await jsonFeatureIntegration.provideCompletionItems(
+                multilineDocument,
+                multilineDocument.positionAt(content.indexOf('user')),
+                new vscode.CancellationTokenSource().token,
+                { triggerKind: vscode.CompletionTriggerKind.Invoke } as vscode.CompletionContext
+            ) as vscode.CompletionItem[];
+
+            assert.deepStrictEqual((await complete()).map(item => item.insertText), ['\\n']);
+
+            await vscode.workspace.getConfiguration('json').update('schemas', [{
+                fileMatch: ['*'],
+                schema: { properties: { template: { enum: ['Hello,\nWorld', 'Bye'] } } }
+            }], vscode.ConfigurationTarget.Global);
+
+            try {
+                assert.deepStrictEqual((await complete()).map(item => item.insertText), ['"Hello,\\nWorld"', '"Bye"']);
+            } finally {
+                await vscode.workspace.getConfiguration('json').update('schemas', undefined, vscode.ConfigurationTarget.Global);
+            }
+        });
     });
 
     suite('Hover Provider', () => {
         test('should provide hover information for decorated content', async () => {
+            await vscode.window.showTextDocument(document);
+            decorationManager.applyDecorations(document);
+
             // Find a position with a decoration
-            const decorationState = decorationManager.getDecorationState();
+            const decorationState = decorationManager.getDecorationState(document);
             
             if (decorationState.decorations.length > 0) {
                 const decoration = decorationState.decorations[0];
@@ -283,6 +399,74 @@ suite('JsonFeatureIntegration Test Suite', () => {
             assert.ok(hover === null || hover === undefined || hover.contents.length >= 0);
         });
 
+        test('should show the rendered content, size and path of a string', async () => {
+            const hoverDocument = await vscode.workspace.openTextDocument({
+                content: '{"a": {"msg": "Caf\\u00e9\\nLine two"}}',
+                language: 'json'
+            });
+
+            const hover = await jsonFeatureIntegration.provideHover(
+                hoverDocument,
+                new vscode.Position(0, 16),
+                new vscode.CancellationTokenSource().token
+            ) as vscode.Hover;
+            const content = (hover.contents[0] as vscode.MarkdownString).value;
+
+            assert.ok(content.includes('```text\nCaf\u00e9\nLine two\n```'), content);
+            assert.ok(content.includes('string at ` $.a.msg `'), content);
+            assert.ok(content.includes('2 lines \u00b7 longest line 8 characters \u00b7 13 characters \u00b7 14 bytes in UTF-8'), content);
+            const args = encodeURIComponent(JSON.stringify([hoverDocument.uri.toString(), 14]));
+            assert.ok(content.includes(`[Copy unescaped](command:json-newline-formatter.copyStringContent?${args})`), content);
+            assert.ok(content.includes('command:json-newline-formatter.editStringAsMultiline?'), content);
+            assert.ok(content.includes('command:json-newline-formatter.openRenderedView?'), content);
+            assert.ok(!content.includes('Show more'), content);
+        });
+
+        test('should show the first lines of a long string until more is asked for', async () => {
+            const lines = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`);
+            const hoverDocument = await vscode.workspace.openTextDocument({
+                content: `{"log": "${lines.join('\\n')}"}`,
+                language: 'json'
+            });
+            const hoverAt = async () => ((await jsonFeatureIntegration.provideHover(
+                hoverDocument,
+                new vscode.Position(0, 12),
+                new vscode.CancellationTokenSource().token
+            ) as vscode.Hover).contents[0] as vscode.MarkdownString).value;
+
+            const preview = await hoverAt();
+            assert.ok(preview.includes('line 12\u2026\n```'), preview);
+            assert.ok(!preview.includes('line 13'), preview);
+            assert.ok(preview.includes('[Show more](command:json-newline-formatter.showMoreOfString?'), preview);
+            assert.ok(preview.includes('30 lines'), preview);
+
+            await jsonFeatureIntegration.showMoreOfString(hoverDocument.uri.toString(), 8);
+            const expanded = await hoverAt();
+            assert.ok(expanded.includes('line 30\n```'), expanded);
+            assert.ok(!expanded.includes('Show more'), expanded);
+        });
+
+        test('should leave strings without escapes to the default hover', async () => {
+            const hoverDocument = await vscode.workspace.openTextDocument({ content: '{"plain": "text"}', language: 'json' });
+
+            const hover = await jsonFeatureIntegration.provideHover(
+                hoverDocument,
+                new vscode.Position(0, 13),
+                new vscode.CancellationTokenSource().token
+            );
+
+            assert.strictEqual(hover, null);
+        });
+
+        test('should count surrogate pairs as one character and measure UTF-8 bytes', () => {
+            assert.deepStrictEqual(jsonFeatureIntegration.measureRenderedString('a\ud83d\ude00\r\nbcd\n'), {
+                lineCount: 3,
+                longestLine: 3,
+                characters: 8,
+                utf8Bytes: 11
+            });
+        });
+
         test('should handle cancellation token for hover', async () => {
             const tokenSource = new vscode.CancellationTokenSource();
             tokenSource.cancel();
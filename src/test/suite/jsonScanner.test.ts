@@ -0,0 +1,166 @@
+import * as assert from 'assert';
+import { JsonScanner, JsonParsingError, JSONC_OPTIONS } from '../../jsonScanner';
+
+suite('JsonScanner Test Suite', () => {
+    let strictScanner: JsonScanner;
+    let jsoncScanner: JsonScanner;
+
+    setup(() => {
+        strictScanner = new JsonScanner();
+        jsoncScanner = new JsonScanner(JSONC_OPTIONS);
+    });
+
+    suite('Tokenization', () => {
+        test('should produce offsets for every token', () => {
+            const text = '{"a": [1, true]}';
+            const result = strictScanner.scan(text);
+
+            assert.strictEqual(result.errors.length, 0);
+            assert.deepStrictEqual(
+                result.tokens.map(t => t.kind),
+                ['openBrace', 'string', 'colon', 'openBracket', 'number', 'comma', 'literal', 'closeBracket', 'closeBrace']
+            );
+            assert.strictEqual(text.substr(result.tokens[1].offset, result.tokens[1].length), '"a"');
+            assert.strictEqual(text.substr(result.tokens[6].offset, result.tokens[6].length), 'true');
+        });
+
+        test('should keep escaped quotes inside a single string token', () => {
+            const text = '["say \\"hi\\"\\n"]';
+            const result = strictScanner.scan(text);
+
+            const strings = result.tokens.filter(t => t.kind === 'string');
+            assert.strictEqual(strings.length, 1);
+            assert.strictEqual(strings[0].length, text.length - 2);
+        });
+
+        test('should never treat quotes or \\n inside comments as strings', () => {
+            const text = '// "not a string\\n"\n{ /* "also \\n not" */ "key": "value" }';
+            const result = jsoncScanner.scan(text);
+
+            assert.strictEqual(result.errors.length, 0);
+            const strings = result.tokens.filter(t => t.kind === 'string');
+            assert.deepStrictEqual(strings.map(t => text.substr(t.offset, t.length)), ['"key"', '"value"']);
+            assert.strictEqual(result.tokens.filter(t => t.kind === 'lineComment').length, 1);
+            assert.strictEqual(result.tokens.filter(t => t.kind === 'blockComment').length, 1);
+        });
+
+        test('should record the offsets of every valid escape in a string', () => {
+            const text = '["a\\tb\\r\\n\\u00e9\\q"]';
+            const result = strictScanner.scan(text);
+
+            const string = result.tokens.filter(t => t.kind === 'string')[0];
+            assert.deepStrictEqual(string.escapeOffsets, [2, 5, 7, 9]);
+            assert.deepStrictEqual(string.newlineOffsets, [7]);
+        });
+
+        test('should end an unterminated string at the line break', () => {
+            const text = '{"a": "open\n, "b": "closed"}';
+            const result = strictScanner.scan(text);
+
+            const strings = result.tokens.filter(t => t.kind === 'string');
+            assert.strictEqual(strings[1].unterminated, true);
+            assert.strictEqual(strings[1].offset + strings[1].length, text.indexOf('\n'));
+            assert.strictEqual(text.substr(strings[3].offset, strings[3].length), '"closed"');
+        });
+    });
+
+    suite('Dialects', () => {
+        test('should accept comments and trailing commas in JSONC', () => {
+            const text = `{
+    // Compiler options
+    "compilerOptions": {
+        "strict": true, /* required */
+        "lib": ["ES2020",],
+    },
+}`;
+            assert.strictEqual(jsoncScanner.scan(text).errors.length, 0);
+        });
+
+        test('should reject comments in strict JSON', () => {
+            const result = strictScanner.scan('{"a": 1 // trailing\n}');
+
+            assert.strictEqual(result.errors.length, 1);
+            assert.strictEqual(result.errors[0].kind, JsonParsingError.SYNTAX_ERROR);
+            assert.strictEqual(result.errors[0].offset, 8);
+        });
+
+        test('should reject trailing commas in strict JSON', () => {
+            const result = strictScanner.scan('[1, 2,]');
+
+            assert.strictEqual(result.errors.length, 1);
+            assert.strictEqual(result.errors[0].kind, JsonParsingError.UNEXPECTED_TOKEN);
+            assert.strictEqual(result.errors[0].offset, 6);
+        });
+
+        test('should agree with JSON.parse on validity', () => {
+            const samples = [
+                '{}', '[]', '', '   ', '{"a":1}', '{"a":[1,2,{"b":null}]}', '{"a": }', '{"name": test}',
+                '{"name": "test', '"a\\x"', '-0.5e+3', '01', '[1 2]', '{"a":1}}', '"a\tb"', '["\\u00e9"]',
+                '{,}', '[,]', '{"a"}', 'true false', '{"a":1,}'
+            ];
+
+            for (const sample of samples) {
+                let expected = true;
+                try {
+                    JSON.parse(sample);
+                } catch {
+                    expected = false;
+                }
+                assert.strictEqual(strictScanner.scan(sample).errors.length === 0, expected, `Mismatch for ${JSON.stringify(sample)}`);
+            }
+        });
+    });
+
+    suite('Error Offsets', () => {
+        test('should report the offset of an unexpected token', () => {
+            const result = strictScanner.scan('{"name": "test", "value": }');
+
+            assert.strictEqual(result.errors[0].kind, JsonParsingError.UNEXPECTED_TOKEN);
+            assert.strictEqual(result.errors[0].offset, 26);
+        });
+
+        test('should report the end of input for incomplete documents', () => {
+            const text = '{"a": [1, 2';
+            const result = strictScanner.scan(text);
+
+            assert.strictEqual(result.errors[0].kind, JsonParsingError.UNEXPECTED_END);
+            assert.strictEqual(result.errors[0].offset, text.length);
+        });
+
+        test('should report invalid escape sequences at the backslash', () => {
+            const result = strictScanner.scan('["ok\\q"]');
+
+            assert.strictEqual(result.errors[0].kind, JsonParsingError.INVALID_ESCAPE_SEQUENCE);
+            assert.strictEqual(result.errors[0].offset, 4);
+        });
+
+        test('should report unterminated block comments', () => {
+            const result = jsoncScanner.scan('{} /* never closed');
+
+            assert.strictEqual(result.errors.length, 1);
+            assert.strictEqual(result.errors[0].offset, 3);
+        });
+    });
+
+    suite('Error Regions', () => {
+        test('should report no regions for valid documents', () => {
+            assert.deepStrictEqual(strictScanner.scan('{"a": "b"}').errorRegions, []);
+        });
+
+        test('should cover the whole line of a malformed token', () => {
+            const text = '{\n  "a": "x, "b": "y",\n  "c": "z"\n}';
+            const result = strictScanner.scan(text);
+
+            const lineStart = text.indexOf('  "a"');
+            const lineEnd = text.indexOf('\n', lineStart);
+            assert.deepStrictEqual(result.errorRegions, [{ offset: lineStart, length: lineEnd - lineStart }]);
+        });
+
+        test('should cover only the offending token of a structural error', () => {
+            const text = '{"a": 1 "b": 2}';
+            const result = strictScanner.scan(text);
+
+            assert.deepStrictEqual(result.errorRegions, [{ offset: 8, length: 3 }]);
+        });
+    });
+});
@@ -0,0 +1,164 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { JsonSchema, JsonSchemaStore, getSchemaProperties, getSchemaValues, getSchemasAtPath, matchesFileMatch } from '../../jsonSchema';
+
+suite('JsonSchema Test Suite', () => {
+    const schema: JsonSchema = {
+        type: 'object',
+        properties: {
+            messages: { type: 'array', items: { $ref: '#/definitions/message' } },
+            level: { enum: ['info', 'warn', 'error'], enumDescriptions: ['Informational', 'Warning', 'Error'], default: 'warn' },
+            strict: { type: 'boolean' }
+        },
+        patternProperties: {
+            ['^x-']: { type: 'string', default: 'extension' }
+        },
+        additionalProperties: false,
+        definitions: {
+            message: {
+                allOf: [
+                    { properties: { text: { type: 'string', default: 'Line 1\nLine 2' } } },
+                    { properties: { id: { type: 'number' }, text: { description: 'Ignored duplicate' } } }
+                ]
+            }
+        }
+    };
+
+    suite('Navigation', () => {
+        test('should follow properties, items, references and allOf branches', () => {
+            const properties = getSchemaProperties(getSchemasAtPath(schema, ['messages', 3]));
+
+            assert.deepStrictEqual(properties.map(property => property.name), ['text', 'id']);
+            assert.strictEqual(properties[0].schema.type, 'string');
+        });
+
+        test('should use pattern and additional properties for undeclared names', () => {
+            assert.deepStrictEqual(getSchemasAtPath(schema, ['x-team']).map(child => child.default), ['extension']);
+            assert.deepStrictEqual(getSchemasAtPath(schema, ['unknown']), []);
+        });
+
+        test('should survive recursive references', () => {
+            const recursive: JsonSchema = { properties: { child: { $ref: '#' } } };
+
+            assert.deepStrictEqual(getSchemaProperties(getSchemasAtPath(recursive, ['child', 'child'])).map(property => property.name), ['child']);
+        });
+    });
+
+    suite('Values', () => {
+        test('should suggest the default first, then the other enum members', () => {
+            assert.deepStrictEqual(getSchemaValues(getSchemasAtPath(schema, ['level'])), [
+                { value: 'warn', source: 'default', description: 'Warning' },
+                { value: 'info', source: 'enum', description: 'Informational' },
+                { value: 'error', source: 'enum', description: 'Error' }
+            ]);
+        });
+
+        test('should suggest both booleans for boolean properties', () => {
+            assert.deepStrictEqual(getSchemaValues(getSchemasAtPath(schema, ['strict'])).map(value => value.value), [true, false]);
+        });
+    });
+
+    suite('File Matching', () => {
+        test('should match globs at any depth unless anchored', () => {
+            assert.ok(matchesFileMatch(['*.config.json'], '/work/app/site.config.json'));
+            assert.ok(matchesFileMatch(['/settings/**/*.json'], '/settings/a/b.json'));
+            assert.ok(matchesFileMatch(['/settings/**/*.json'], '/settings/b.json'));
+            assert.ok(!matchesFileMatch(['/settings/*.json'], '/work/settings/b.json'));
+        });
+
+        test('should honour exclusions', () => {
+            assert.ok(!matchesFileMatch(['*.json', '!package.json'], '/work/package.json'));
+            assert.ok(matchesFileMatch(['*.json', '!package.json'], '/work/other.json'));
+        });
+    });
+
+    suite('Schema Store', () => {
+        let store: JsonSchemaStore;
+        let directory: string;
+
+        setup(() => {
+            store = new JsonSchemaStore();
+            directory = fs.mkdtempSync(path.join(os.tmpdir(), 'json-schema-'));
+        });
+
+        teardown(async () => {
+            store.dispose();
+            fs.rmSync(directory, { recursive: true, force: true });
+            await vscode.workspace.getConfiguration('json').update('schemas', undefined, vscode.ConfigurationTarget.Global);
+        });
+
+        test('should load the schema a document names in $schema', async () => {
+            const schemaPath = path.join(directory, 'messages.schema.json');
+            fs.writeFileSync(schemaPath, JSON.stringify(schema));
+            const document = await vscode.workspace.openTextDocument({
+                content: JSON.stringify({ $schema: schemaPath.replace(/\\/g, '/'), level: 'info' }),
+                language: 'json'
+            });
+
+            assert.deepStrictEqual(await store.getSchema(document), schema);
+        });
+
+        test('should load schemas written with comments and trailing commas', async () => {
+            const schemaPath = path.join(directory, 'commented.schema.json');
+            fs.writeFileSync(schemaPath, '{\n  // The log level\n  "properties": {"level": {"enum": ["info", "warn",]}},\n  /* done */\n}');
+            const document = await vscode.workspace.openTextDocument({
+                content: JSON.stringify({ $schema: schemaPath.replace(/\\/g, '/') }),
+                language: 'json'
+            });
+
+            assert.deepStrictEqual(await store.getSchema(document), { properties: { level: { enum: ['info', 'warn'] } } });
+        });
+
+        test('should try a schema that failed to load again', async () => {
+            const schemaPath = path.join(directory, 'late.schema.json');
+            const document = await vscode.workspace.openTextDocument({
+                content: JSON.stringify({ $schema: schemaPath.replace(/\\/g, '/') }),
+                language: 'json'
+            });
+            const originalWarn = console.warn;
+            console.warn = () => undefined;
+
+            try {
+                assert.strictEqual(await store.getSchema(document), null);
+                fs.writeFileSync(schemaPath, '{"properties": {"level"');
+                assert.strictEqual(await store.getSchema(document), null);
+            } finally {
+                console.warn = originalWarn;
+            }
+
+            fs.writeFileSync(schemaPath, JSON.stringify(schema));
+            assert.deepStrictEqual(await store.getSchema(document), schema);
+        });
+
+        test('should fall back to the json.schemas setting', async () => {
+            const inline: JsonSchema = { properties: { name: { type: 'string' } } };
+            await vscode.workspace.getConfiguration('json').update('schemas', [
+                { fileMatch: ['*.other.json'], schema: { properties: {} } },
+                { fileMatch: ['*'], schema: inline }
+            ], vscode.ConfigurationTarget.Global);
+            const document = await vscode.workspace.openTextDocument({ content: '{}', language: 'json' });
+
+            assert.deepStrictEqual(await store.getSchema(document), inline);
+        });
+
+        test('should ignore remote and unreadable schemas', async () => {
+            const remote = await vscode.workspace.openTextDocument({ content: '{"$schema": "https://example.com/schema.json"}', language: 'json' });
+            const missing = await vscode.workspace.openTextDocument({
+                content: JSON.stringify({ $schema: path.join(directory, 'missing.json').replace(/\\/g, '/') }),
+                language: 'json'
+            });
+            const originalWarn = console.warn;
+            console.warn = () => undefined;
+
+            try {
+                assert.strictEqual(await store.getSchema(remote), null);
+                assert.strictEqual(await store.getSchema(missing), null);
+            } finally {
+                console.warn = originalWarn;
+            }
+        });
+    });
+});
@@ -169,13 +169,13 @@ suite('JsonStringDetector Test Suite', () => {
             assert.strictEqual(ranges[1].content, 'Line 1\\nLine 2\\tTabbed\\nLine 3\\r\\nWindows line');
         });
 
-        test('should return empty array for malformed JSON', async () => {
+        test('should recover well-formed strings from malformed JSON', async () => {
             const content = '{"name": "John", "incomplete": ';
             const document = await createTestDocument(content);
             
             const ranges = detector.findStringRanges(document);
             
-            assert.strictEqual(ranges.length, 0);
+            assert.deepStrictEqual(ranges.map(r => r.content), ['name', 'John', 'incomplete']);
         });
 
         test('should handle empty JSON object', async () => {
@@ -365,7 +365,8 @@ suite('JsonStringDetector Test Suite', () => {
             
             const positions = detector.extractNewlinePositions(document);
             
-            assert.strictEqual(positions.length, 0);
+            // The string itself is complete, only the closing brace is missing
+            assert.strictEqual(positions.length, 1);
         });
     });
 
@@ -414,6 +415,22 @@ suite('JsonStringDetector Test Suite', () => {
             
             assert.strictEqual(range, null);
         });
+
+        test('should return the range reported by findStringRanges', async () => {
+            const document = await createTestDocument('{"message": "Hello\\nWorld"}');
+            
+            const range = detector.getStringRangeAtPosition(document, new vscode.Position(0, 15));
+            
+            assert.strictEqual(range, detector.findStringRanges(document)[1]);
+        });
+
+        test('should return null for strings made untrustworthy by a syntax error', async () => {
+            const document = await createTestDocument('{"a": "x" "b": "y"}');
+            
+            assert.strictEqual(detector.isValidJson(document), false);
+            assert.strictEqual(detector.getStringRangeAtPosition(document, new vscode.Position(0, 11)), null);
+            assert.strictEqual(detector.getStringRangeAtPosition(document, new vscode.Position(0, 7))!.content, 'x');
+        });
     });
 
     suite('Advanced JSON Parsing', () => {
@@ -633,6 +650,30 @@ suite('JsonStringDetector Test Suite', () => {
             assert.strictEqual(position.afterText, 'Real newline');
         });
 
+        test('should report \\r\\n pairs as a single line break', async () => {
+            const content = '{"text": "one\\r\\ntwo\\nthree\\rfour"}';
+            const document = await createTestDocument(content);
+            
+            const detailedPositions = detector.getDetailedNewlinePositions(document);
+            
+            assert.deepStrictEqual(detailedPositions.map(p => p.kind), ['crlf', 'newline']);
+            assert.strictEqual(detailedPositions[0].offset, content.indexOf('\\r'));
+            assert.strictEqual(detailedPositions[0].endOffset, content.indexOf('two'));
+            assert.strictEqual(detailedPositions[1].indexInString, 1);
+        });
+
+        test('should report every escape sequence with its kind', async () => {
+            const content = '{"code": "if (x)\\n\\treturn \\"caf\\u00e9\\""}';
+            const document = await createTestDocument(content);
+            
+            const escapePositions = detector.getEscapePositionsInRange(document, 0, content.length);
+            
+            assert.deepStrictEqual(escapePositions.map(p => p.kind), ['newline', 'tab', 'quote', 'unicode', 'quote']);
+            assert.strictEqual(escapePositions[3].decoded, '\u00e9');
+            assert.strictEqual(escapePositions[3].endOffset - escapePositions[3].offset, 6);
+            assert.deepStrictEqual(escapePositions.map(p => p.indexInString), [0, 1, 2, 3, 4]);
+        });
+
         test('should provide accurate offset calculations', async () => {
             const content = '{"message": "Hello\\nWorld"}';
             const document = await createTestDocument(content);
@@ -689,4 +730,114 @@ suite('JsonStringDetector Test Suite', () => {
             assert.strictEqual(visual2.currentLineContent, '');
         });
     });
-});
\ No newline at end of file
+
+    suite('JSONC documents', () => {
+        async function createJsoncDocument(content: string): Promise<vscode.TextDocument> {
+            return vscode.workspace.openTextDocument({
+                content,
+                language: 'jsonc'
+            });
+        }
+
+        test('should parse documents with comments and trailing commas', async () => {
+            const content = `{
+    // "commented": "Hello\\nWorld"
+    "message": "Line 1\\nLine 2", /* block "quote" */
+    "items": ["a",],
+}`;
+            const document = await createJsoncDocument(content);
+            
+            const result = detector.parseJsonSafely(document);
+            
+            assert.strictEqual(result.isValid, true);
+            assert.deepStrictEqual(result.stringRanges.map(r => r.content), ['message', 'Line 1\\nLine 2', 'items', 'a']);
+        });
+
+        test('should not report newlines inside comments', async () => {
+            const content = '{ /* "x\\ny" */ "text": "a\\nb" } // "c\\nd"';
+            const document = await createJsoncDocument(content);
+            
+            const positions = detector.getDetailedNewlinePositions(document);
+            
+            assert.strictEqual(positions.length, 1);
+            assert.strictEqual(positions[0].offset, content.indexOf('a\\nb') + 1);
+        });
+
+        test('should still reject comments in plain JSON documents', async () => {
+            const content = '{"text": "a\\nb" // note\n}';
+            const document = await vscode.workspace.openTextDocument({ content, language: 'json' });
+            
+            const result = detector.parseJsonSafely(document);
+            
+            assert.strictEqual(result.isValid, false);
+            assert.strictEqual(result.errorOffset, content.indexOf('//'));
+        });
+    });
+
+    suite('Large documents', () => {
+        function createLargeContent(count: number): string {
+            const entries: string[] = [];
+            for (let i = 0; i < count; i++) {
+                entries.push(`"key${i}": "line ${i}\\nnext"`);
+            }
+            return `{\n${entries.join(',\n')}\n}`;
+        }
+
+        test('should report every string beyond 10,000 strings', async () => {
+            const document = await vscode.workspace.openTextDocument({ content: createLargeContent(12000), language: 'json' });
+            
+            const result = detector.parseJsonSafely(document);
+            
+            assert.strictEqual(result.isValid, true);
+            assert.strictEqual(result.stringRanges.length, 24000);
+            assert.strictEqual(detector.extractNewlinePositions(document).length, 12000);
+        });
+
+        test('should index a document progressively', async () => {
+            const document = await vscode.workspace.openTextDocument({ content: createLargeContent(20000), language: 'json' });
+            const progress: number[] = [];
+            
+            const complete = await detector.indexProgressively(document, undefined, scanned => progress.push(scanned));
+            
+            assert.strictEqual(complete, true);
+            assert.ok(progress.length > 0, 'Should report progress between chunks');
+            const { scannedLength, totalLength } = detector.getIndexingProgress(document);
+            assert.strictEqual(scannedLength, totalLength);
+        });
+
+        test('should look up strings without indexing the rest of the document', async () => {
+            const document = await vscode.workspace.openTextDocument({ content: createLargeContent(20000), language: 'json' });
+            
+            const first = detector.getPartialStringRangeAtPosition(document, new vscode.Position(1, 12));
+            const last = detector.getPartialStringRangeAtPosition(document, new vscode.Position(20000, 15));
+            
+            assert.strictEqual(first?.content, 'line 0\\nnext');
+            assert.strictEqual(last?.content, 'line 19999\\nnext');
+            assert.strictEqual(detector.getPartialStringRangeAtPosition(document, new vscode.Position(20000, 11)), null);
+            assert.ok(detector.getIndexingProgress(document).scannedLength < document.getText().length);
+        });
+
+        test('should stop indexing when cancelled', async () => {
+            const document = await vscode.workspace.openTextDocument({ content: createLargeContent(20000), language: 'json' });
+            const cancellation = new vscode.CancellationTokenSource();
+            cancellation.cancel();
+            
+            const complete = await detector.indexProgressively(document, cancellation.token);
+            
+            assert.strictEqual(complete, false);
+            assert.ok(detector.getIndexingProgress(document).scannedLength < document.getText().length);
+        });
+
+        test('should report newlines in the given range before indexing', async () => {
+            const document = await vscode.workspace.openTextDocument({ content: createLargeContent(20000), language: 'json' });
+            const startOffset = document.offsetAt(new vscode.Position(15000, 0));
+            const endOffset = document.offsetAt(new vscode.Position(15010, 0));
+            
+            const positions = detector.getPartialNewlinePositions(document, startOffset, endOffset);
+            
+            assert.ok(positions.length >= 10);
+            assert.ok(positions.every(p => p.position.line >= 15000 && p.position.line <= 15010));
+            assert.strictEqual(detector.getIndexingProgress(document).scannedLength, 0);
+        });
+    });
+});
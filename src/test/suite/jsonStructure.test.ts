@@ -0,0 +1,191 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { JsonScanner, JSONC_OPTIONS } from '../../jsonScanner';
+import { JsonStringDetector } from '../../jsonStringDetector';
+import { findFoldingRegions, findLocation, formatJsonPath, isPathUnder, matchesPathPattern, parseJsonPath, parseJsonPointer, parsePathExpression, readStringStructure } from '../../jsonStructure';
+
+suite('JsonStructure Test Suite', () => {
+    /**
+     * Read the role and path of every string in a text, in document order
+     */
+    function describeStrings(text: string) {
+        const tokens = new JsonScanner(JSONC_OPTIONS).scan(text).tokens;
+        const structure = readStringStructure(text, tokens);
+        return tokens
+            .filter(token => token.kind === 'string')
+            .map(token => [text.substr(token.offset, token.length), structure.get(token.offset)!.role, structure.get(token.offset)!.path]);
+    }
+
+    suite('String Structure', () => {
+        test('should tell property names from values and give their paths', () => {
+            assert.deepStrictEqual(describeStrings('{"a": "x", "b": {"c": ["y", "z"]}}'), [
+                ['"a"', 'key', ['a']],
+                ['"x"', 'value', ['a']],
+                ['"b"', 'key', ['b']],
+                ['"c"', 'key', ['b', 'c']],
+                ['"y"', 'value', ['b', 'c', 0]],
+                ['"z"', 'value', ['b', 'c', 1]]
+            ]);
+        });
+
+        test('should ignore comments and decode escaped property names', () => {
+            assert.deepStrictEqual(describeStrings('{\n  // "not": "a key"\n  "a\\"b": ["x", /* , */ "y",],\n}'), [
+                ['"a\\"b"', 'key', ['a"b']],
+                ['"x"', 'value', ['a"b', 0]],
+                ['"y"', 'value', ['a"b', 1]]
+            ]);
+        });
+
+        test('should give a root string an empty path', () => {
+            assert.deepStrictEqual(describeStrings('"x"'), [['"x"', 'value', []]]);
+        });
+
+        test('should keep going after syntax errors', () => {
+            assert.deepStrictEqual(describeStrings('{"a": [1 2}, "b": "x"}').slice(-2), [
+                ['"b"', 'key', ['b']],
+                ['"x"', 'value', ['b']]
+            ]);
+        });
+
+        test('should annotate the string ranges of a document', async () => {
+            const document = await vscode.workspace.openTextDocument({ content: '{"list": ["a\\nb"]}', language: 'json' });
+
+            const ranges = new JsonStringDetector().findStructuredStringRanges(document);
+
+            assert.deepStrictEqual(ranges.map(range => [range.content, range.role, range.path]), [
+                ['list', 'key', ['list']],
+                ['a\\nb', 'value', ['list', 0]]
+            ]);
+        });
+    });
+
+    suite('Paths', () => {
+        test('should parse JSON Pointers', () => {
+            assert.deepStrictEqual(parseJsonPointer(''), []);
+            assert.deepStrictEqual(parseJsonPointer('/a/0/m~1n~0'), ['a', '0', 'm/n~']);
+            assert.strictEqual(parseJsonPointer('a/b'), null);
+        });
+
+        test('should parse JSONPath names, indices and wildcards', () => {
+            assert.deepStrictEqual(parseJsonPath('$'), []);
+            assert.deepStrictEqual(parseJsonPath('$.messages[*].text'), ['messages', null, 'text']);
+            assert.deepStrictEqual(parseJsonPath("$['a b'][2].*"), ['a b', 2, null]);
+            assert.deepStrictEqual(parseJsonPath('messages.error'), ['messages', 'error']);
+            assert.strictEqual(parseJsonPath('$[?(@.a)]'), null);
+        });
+
+        test('should tell pointers from JSONPath', () => {
+            assert.deepStrictEqual(parsePathExpression('/a/b'), ['a', 'b']);
+            assert.deepStrictEqual(parsePathExpression('$.a.b'), ['a', 'b']);
+            assert.deepStrictEqual(parsePathExpression('  '), []);
+        });
+
+        test('should write paths as JSONPath that parses back', () => {
+            const path = ['messages', 0, 'a b', "it's", '$schema'];
+
+            assert.strictEqual(formatJsonPath(path), "$.messages[0]['a b']['it\\'s'].$schema");
+            assert.deepStrictEqual(parseJsonPath(formatJsonPath(path)), path);
+            assert.strictEqual(formatJsonPath([]), '$');
+        });
+
+        test('should match paths at or under a prefix', () => {
+            assert.ok(isPathUnder(['a', 0, 'b'], ['a']));
+            assert.ok(isPathUnder(['a', 0, 'b'], ['a', '0']));
+            assert.ok(isPathUnder(['a', 3, 'b'], ['a', null, 'b']));
+            assert.ok(isPathUnder(['a'], []));
+            assert.ok(!isPathUnder(['a'], ['a', 'b']));
+            assert.ok(!isPathUnder(['a', 0], ['b']));
+        });
+
+        test('should match whole paths with single and multi-level wildcards', () => {
+            assert.ok(matchesPathPattern(['queries', 2, 'sql'], ['queries', null, 'sql']));
+            assert.ok(!matchesPathPattern(['queries', 2, 'sql', 'x'], ['queries', null, 'sql']));
+            assert.ok(matchesPathPattern(['sql'], ['**', 'sql']));
+            assert.ok(matchesPathPattern(['a', 0, 'b', 'sql'], ['**', 'sql']));
+            assert.ok(!matchesPathPattern(['a', 'sql', 'b'], ['**', 'sql']));
+            assert.ok(matchesPathPattern(['a', 'b'], ['a', '**']));
+        });
+    });
+
+    suite('Folding Regions', () => {
+        /**
+         * Find the folding regions of a text as [kind, start line, end line]
+         */
+        function describeRegions(text: string) {
+            const lineOf = (offset: number) => text.substring(0, offset).split('\n').length - 1;
+            return findFoldingRegions(text, new JsonScanner(JSONC_OPTIONS).scan(text).tokens)
+                .map(region => [region.kind, lineOf(region.start), lineOf(region.end)]);
+        }
+
+        test('should fold objects and arrays, ignoring brackets in strings and comments', () => {
+            assert.deepStrictEqual(describeRegions('{\n  "a": "{[",\n  // }\n  "b": [\n    1\n  ]\n}'), [
+                ['object', 0, 6],
+                ['array', 3, 5]
+            ]);
+        });
+
+        test('should fold blocks of line comments and block comments', () => {
+            assert.deepStrictEqual(describeRegions('{\n  // one\n  // two\n  "a": 1, // trailing\n  // single\n  /* block\n  */\n  "b": 2\n}'), [
+                ['object', 0, 8],
+                ['comment', 1, 2],
+                ['comment', 5, 6]
+            ]);
+        });
+
+        test('should fold #region markers and skip unbalanced ones', () => {
+            assert.deepStrictEqual(describeRegions('{\n  // #region Messages\n  "a": 1,\n  // #endregion\n  // #endregion\n  "b": 2\n}'), [
+                ['object', 0, 6],
+                ['region', 1, 3]
+            ]);
+        });
+
+        test('should keep folding where brackets balance in a broken document', () => {
+            assert.deepStrictEqual(describeRegions('{\n  "a": [\n    1\n  ],\n  "b": }\n  "c": {\n  }\n]'), [
+                ['object', 0, 4],
+                ['array', 1, 3],
+                ['object', 5, 6]
+            ]);
+        });
+    });
+
+    suite('Locations', () => {
+        /**
+         * Locate the `|` marker of a text, reporting the replaced token as text
+         */
+        function locate(marked: string) {
+            const offset = marked.indexOf('|');
+            const text = marked.replace('|', '');
+            const location = findLocation(text, new JsonScanner(JSONC_OPTIONS).scan(text).tokens, offset);
+            return location && {
+                role: location.role,
+                path: location.path,
+                token: location.token && text.substr(location.token.offset, location.token.length),
+                siblingKeys: location.siblingKeys
+            };
+        }
+
+        test('should locate property names with the keys around them', () => {
+            assert.deepStrictEqual(locate('{"a": 1, |, "b": 2}'), { role: 'key', path: [], token: undefined, siblingKeys: ['a', 'b'] });
+            assert.deepStrictEqual(locate('{"x": {"a": 1, "na|": 2, "b": [{"c": 3}]}}'), {
+                role: 'key',
+                path: ['x'],
+                token: '"na"',
+                siblingKeys: ['a', 'b']
+            });
+        });
+
+        test('should locate values in objects, arrays and at the root', () => {
+            assert.deepStrictEqual(locate('{"a": {"b": |}}'), { role: 'value', path: ['a', 'b'], token: undefined, siblingKeys: [] });
+            assert.deepStrictEqual(locate('{"a": [1, "x|y"]}'), { role: 'value', path: ['a', 1], token: '"xy"', siblingKeys: [] });
+            assert.deepStrictEqual(locate('{"a": tr|}'), { role: 'value', path: ['a'], token: 'tr', siblingKeys: [] });
+            assert.deepStrictEqual(locate('|'), { role: 'value', path: [], token: undefined, siblingKeys: [] });
+        });
+
+        test('should locate nothing in comments or where neither a name nor a value fits', () => {
+            assert.strictEqual(locate('{"a": 1 // b|\n}'), null);
+            assert.strictEqual(locate('{"a": "x" |}'), null);
+            assert.strictEqual(locate('{"a"| : 1}'), null);
+            assert.strictEqual(locate('{} |'), null);
+        });
+    });
+});
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { MultilineStringEditor, STRING_EDIT_SCHEME } from '../../multilineStringEditor';
+
+suite('MultilineStringEditor Test Suite', () => {
+    let stringEditor: MultilineStringEditor;
+
+    setup(() => {
+        stringEditor = new MultilineStringEditor();
+    });
+
+    teardown(() => {
+        stringEditor.dispose();
+    });
+
+    /**
+     * Open a JSON document and start editing the string containing a piece of text
+     */
+    async function openString(content: string, inside: string) {
+        const document = await vscode.workspace.openTextDocument({ content, language: 'json' });
+        const uri = stringEditor.openSession(document, document.positionAt(content.indexOf(inside)));
+        assert.ok(uri, 'Should open the string for editing');
+        return { document, uri: uri! };
+    }
+
+    test('should open the unescaped content of the string under the cursor', async () => {
+        const { uri } = await openString('{"a": "one\\ntwo \\"quoted\\""}', 'two');
+
+        assert.strictEqual(Buffer.from(stringEditor.readFile(uri)).toString('utf8'), 'one\ntwo "quoted"');
+    });
+
+    test('should not open a session outside strings', async () => {
+        const document = await vscode.workspace.openTextDocument({ content: '{"a": 12}', language: 'json' });
+
+        assert.strictEqual(stringEditor.openSession(document, document.positionAt(7)), undefined);
+    });
+
+    test('should write edited text back re-escaped', async () => {
+        const { document, uri } = await openString('{"a": "one\\ntwo", "b": "c"}', 'one');
+
+        const error = await stringEditor.writeBack(uri, 'one\n\ttwo "2"\nthree');
+
+        assert.strictEqual(error, undefined);
+        assert.strictEqual(document.getText(), '{"a": "one\\n\\ttwo \\"2\\"\\nthree", "b": "c"}');
+    });
+
+    test('should keep unicode escapes when the string used them', async () => {
+        const { document, uri } = await openString('["caf\\u00e9"]', 'caf');
+
+        await stringEditor.writeBack(uri, 'café au lait');
+
+        assert.strictEqual(document.getText(), '["caf\\u00e9 au lait"]');
+    });
+
+    test('should follow the string when the text before it changes', async () => {
+        const { document, uri } = await openString('{"a": "x\\ny"}', 'x');
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.insert(document.uri, new vscode.Position(0, 1), '"first": 1, ');
+        await vscode.workspace.applyEdit(edit);
+
+        assert.strictEqual(await stringEditor.writeBack(uri, 'z'), undefined);
+        assert.strictEqual(document.getText(), '{"first": 1, "a": "z"}');
+    });
+
+    test('should allow saving twice in a row', async () => {
+        const { document, uri } = await openString('{"a": "x"}', 'x');
+
+        assert.strictEqual(await stringEditor.writeBack(uri, 'first\nsave'), undefined);
+        assert.strictEqual(await stringEditor.writeBack(uri, 'second'), undefined);
+        assert.strictEqual(document.getText(), '{"a": "second"}');
+    });
+
+    test('should refuse to write back when the source string changed', async () => {
+        const { document, uri } = await openString('{"a": "x\\ny"}', 'x');
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.insert(document.uri, new vscode.Position(0, 8), 'changed');
+        await vscode.workspace.applyEdit(edit);
+
+        const error = await stringEditor.writeBack(uri, 'mine');
+
+        assert.ok(error && error.includes('changed'));
+        assert.strictEqual(document.getText(), '{"a": "xchanged\\ny"}');
+        await assert.rejects(() => stringEditor.writeFile(uri, Buffer.from('mine', 'utf8')));
+    });
+
+    test('should edit the string under the cursor when a menu passes the document URI', async () => {
+        // The command belongs to the running extension, which owns the string edit scheme
+        await vscode.extensions.getExtension('your-publisher-name.json-newline-formatter')?.activate();
+        const document = await vscode.workspace.openTextDocument({ content: '{"a": "one\\ntwo"}', language: 'json' });
+        const editor = await vscode.window.showTextDocument(document);
+        const position = document.positionAt(document.getText().indexOf('two'));
+        editor.selection = new vscode.Selection(position, position);
+
+        await vscode.commands.executeCommand('json-newline-formatter.editStringAsMultiline', document.uri);
+
+        assert.strictEqual(vscode.window.activeTextEditor?.document.uri.scheme, STRING_EDIT_SCHEME);
+        await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+    });
+});
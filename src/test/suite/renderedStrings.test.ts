@@ -0,0 +1,224 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { RenderedStrings, toDecodedEscapes } from '../../renderedStrings';
+import { RenderedStringsView } from '../../renderedStringsView';
+
+suite('RenderedStrings Test Suite', () => {
+    const source = '{\n  "message": "Hello\\nWorld",\n  "plain": "x"\n}';
+    const newlineOffset = source.indexOf('\\n');
+    const stringOffset = source.indexOf('"Hello');
+
+    suite('Rendering', () => {
+        test('should render escapes as line breaks indented under the key', () => {
+            const rendering = new RenderedStrings(source, [{ offset: newlineOffset, stringOffset }]);
+
+            assert.strictEqual(rendering.text, '{\n  "message": "Hello\n    World",\n  "plain": "x"\n}');
+        });
+
+        test('should render other escapes as the characters they stand for', () => {
+            const escaped = '["a\\"b\\\\c\\td\\u00e9\\u0000"]';
+            const rendering = new RenderedStrings(escaped, toDecodedEscapes([{ offset: 1, content: escaped.slice(2, -2) }]));
+
+            assert.strictEqual(rendering.text, '["a"b\\c\td\u00e9\\u0000"]');
+            assert.strictEqual(rendering.toSourceOffset(rendering.text.indexOf('b')), escaped.indexOf('b'));
+            assert.strictEqual(rendering.toRenderedOffset(escaped.indexOf('\\td')), rendering.text.indexOf('\t'));
+        });
+
+        test('should render escaped surrogate pairs as one character', () => {
+            const escapes = toDecodedEscapes([{ offset: 0, content: '\\ud83d\\ude00!' }]);
+
+            assert.deepStrictEqual(escapes, [{ offset: 1, length: 12, stringOffset: 0, text: '\ud83d\ude00' }]);
+        });
+
+        test('should leave the text unchanged without escapes', () => {
+            const rendering = new RenderedStrings(source, []);
+
+            assert.strictEqual(rendering.text, source);
+            assert.strictEqual(rendering.toSourceOffset(10), 10);
+            assert.strictEqual(rendering.toRenderedOffset(10), 10);
+        });
+    });
+
+    suite('Offset Mapping', () => {
+        test('should map copied text in both directions', () => {
+            const rendering = new RenderedStrings(source, [{ offset: newlineOffset, stringOffset }]);
+            const sourceWorld = source.indexOf('World');
+            const renderedWorld = rendering.text.indexOf('World');
+
+            assert.strictEqual(rendering.toSourceOffset(renderedWorld), sourceWorld);
+            assert.strictEqual(rendering.toRenderedOffset(sourceWorld), renderedWorld);
+            assert.strictEqual(rendering.toSourceOffset(rendering.text.indexOf('"plain"')), source.indexOf('"plain"'));
+        });
+
+        test('should map a rendered line break to its escape', () => {
+            const rendering = new RenderedStrings(source, [{ offset: newlineOffset, stringOffset }]);
+            const renderedBreak = rendering.text.indexOf('\n    World');
+
+            assert.strictEqual(rendering.toSourceOffset(renderedBreak), newlineOffset);
+            assert.strictEqual(rendering.toRenderedOffset(newlineOffset), renderedBreak);
+            // The indentation of a continuation line belongs to the character after the escape
+            assert.strictEqual(rendering.toSourceOffset(renderedBreak + 2), newlineOffset + 2);
+            assert.strictEqual(rendering.toRenderedOffset(newlineOffset + 1), renderedBreak + 5);
+        });
+
+        test('should round-trip every source offset', () => {
+            const text = '["a\\nb\\n\\nc", {"k": "x\\ny"}]';
+            const breaks: { offset: number; stringOffset: number }[] = [];
+            for (let i = text.indexOf('\\n'); i !== -1; i = text.indexOf('\\n', i + 2)) {
+                breaks.push({ offset: i, stringOffset: text.lastIndexOf('"', i) });
+            }
+            const rendering = new RenderedStrings(text, breaks);
+
+            for (let offset = 0; offset <= text.length; offset++) {
+                const isInsideEscape = breaks.some(lineBreak => offset === lineBreak.offset + 1);
+                const expected = isInsideEscape ? offset + 1 : offset;
+                assert.strictEqual(rendering.toSourceOffset(rendering.toRenderedOffset(offset)), expected, `offset ${offset}`);
+            }
+        });
+    });
+
+    suite('Visual Mapping', () => {
+        /**
+         * Build documents with strings holding escapes at varied places, driven by a fixed seed
+         */
+        function generateSources(count: number): string[] {
+            let seed = 7;
+            const next = (limit: number) => {
+                seed = (seed * 1103515245 + 12345) % 2147483648;
+                return seed % limit;
+            };
+            const pieces = ['a', 'bc', '\\n', '\\r\\n', '\\t', ' ', '\\\\'];
+
+            return Array.from({ length: count }, () => {
+                const values = Array.from({ length: 1 + next(4) }, (_, i) => {
+                    const content = Array.from({ length: next(8) }, () => pieces[next(pieces.length)]).join('');
+                    return `${i > 0 && next(2) ? '\n  ' : ''}"k${i}": "${content}"`;
+                });
+                return `{${values.join(', ')}}`;
+            });
+        }
+
+        /**
+         * Find the line break escapes of a source the way the detector reports them
+         */
+        function findBreaks(text: string) {
+            const breaks: { offset: number; length: number; stringOffset: number }[] = [];
+            for (const match of text.matchAll(/\\\\|\\r\\n|\\n/g)) {
+                if (match[0] !== '\\\\') {
+                    breaks.push({ offset: match.index!, length: match[0].length, stringOffset: text.lastIndexOf('"', match.index!) });
+                }
+            }
+            return breaks;
+        }
+
+        test('should render every escape as a bare line break', () => {
+            for (const text of generateSources(50)) {
+                const breaks = findBreaks(text);
+                const mapping = new RenderedStrings(text, breaks, { indentContinuationLines: false });
+
+                let expected = text;
+                for (const lineBreak of [...breaks].reverse()) {
+                    expected = expected.substring(0, lineBreak.offset) + '\n' + expected.substring(lineBreak.offset + lineBreak.length);
+                }
+                assert.strictEqual(mapping.text, expected, text);
+            }
+        });
+
+        test('should round-trip every offset in both directions', () => {
+            for (const text of generateSources(50)) {
+                const breaks = findBreaks(text);
+                const mapping = new RenderedStrings(text, breaks, { indentContinuationLines: false });
+
+                let previous = 0;
+                for (let offset = 0; offset <= text.length; offset++) {
+                    const containing = breaks.find(lineBreak => offset > lineBreak.offset && offset < lineBreak.offset + lineBreak.length);
+                    const expected = containing ? containing.offset + containing.length : offset;
+                    const visualOffset = mapping.toRenderedOffset(offset);
+
+                    assert.strictEqual(mapping.toSourceOffset(visualOffset), expected, `${text} at ${offset}`);
+                    assert.ok(visualOffset >= previous, `${text} should map monotonically at ${offset}`);
+                    previous = visualOffset;
+                }
+
+                for (let visualOffset = 0; visualOffset <= mapping.text.length; visualOffset++) {
+                    assert.strictEqual(mapping.toRenderedOffset(mapping.toSourceOffset(visualOffset)), visualOffset, `${text} at ${visualOffset}`);
+                }
+            }
+        });
+
+        test('should convert between offsets and positions of the visual text', () => {
+            for (const text of generateSources(50)) {
+                const mapping = new RenderedStrings(text, findBreaks(text), { indentContinuationLines: false });
+                const lines = mapping.text.split('\n');
+
+                for (let offset = 0; offset <= mapping.text.length; offset++) {
+                    const position = mapping.positionAt(offset);
+                    const lineStart = lines.slice(0, position.line).reduce((total, line) => total + line.length + 1, 0);
+
+                    assert.strictEqual(lineStart + position.character, offset);
+                    assert.ok(position.character <= lines[position.line].length);
+                    assert.strictEqual(mapping.offsetAt(position), offset);
+                }
+            }
+        });
+
+        test('should clamp positions past the end of a line or the text', () => {
+            const mapping = new RenderedStrings('"ab\\ncd"', [{ offset: 3, stringOffset: 0 }], { indentContinuationLines: false });
+
+            assert.strictEqual(mapping.offsetAt({ line: 0, character: 10 }), 3);
+            assert.strictEqual(mapping.offsetAt({ line: 5, character: 0 }), mapping.text.length);
+            assert.deepStrictEqual(mapping.positionAt(100), { line: 1, character: 3 });
+        });
+    });
+
+    suite('Rendered View', () => {
+        let view: RenderedStringsView;
+
+        setup(() => {
+            view = new RenderedStringsView();
+        });
+
+        teardown(() => {
+            view.dispose();
+        });
+
+        test('should point rendered URIs back to their source', async () => {
+            const document = await vscode.workspace.openTextDocument({ content: source, language: 'json' });
+            const renderedUri = RenderedStringsView.getRenderedUri(document.uri);
+
+            assert.strictEqual(RenderedStringsView.getSourceUri(renderedUri).toString(), document.uri.toString());
+            assert.strictEqual(view.provideTextDocumentContent(renderedUri), '{\n  "message": "Hello\n    World",\n  "plain": "x"\n}');
+        });
+
+        test('should open the view of the document a menu passes the URI of', async () => {
+            // The command belongs to the running extension, which owns the rendered view scheme
+            await vscode.extensions.getExtension('your-publisher-name.json-newline-formatter')?.activate();
+            const document = await vscode.workspace.openTextDocument({ content: source, language: 'json' });
+            await vscode.window.showTextDocument(document);
+
+            await vscode.commands.executeCommand('json-newline-formatter.openRenderedView', document.uri);
+
+            assert.ok(vscode.window.visibleTextEditors.some(editor =>
+                editor.document.uri.toString() === RenderedStringsView.getRenderedUri(document.uri).toString()
+            ));
+        });
+
+        test('should render the decoded content of strings beside their line breaks', async () => {
+            const document = await vscode.workspace.openTextDocument({
+                content: '{\n  "a": "say \\"hi\\"\\n\\tC:\\\\dir \\u00e9"\n}',
+                language: 'json'
+            });
+
+            assert.strictEqual(view.render(document).text, '{\n  "a": "say "hi"\n    \tC:\\dir \u00e9"\n}');
+        });
+
+        test('should not render escapes inside comments', async () => {
+            const document = await vscode.workspace.openTextDocument({
+                content: '{\n  // a "b\\nc" comment\n  "d": "e\\nf"\n}',
+                language: 'jsonc'
+            });
+
+            assert.strictEqual(view.render(document).text, '{\n  // a "b\\nc" comment\n  "d": "e\n    f"\n}');
+        });
+    });
+});
@@ -267,6 +267,176 @@ suite('SearchHandler Test Suite', () => {
             JSON.parse(content);
         }, 'Document should remain valid JSON after replacement');
     });
+
+    suite('Find in Rendered Strings', () => {
+        test('should match unescaped text across escape sequences', () => {
+            const matches = searchHandler.findInRenderedStrings(document, 'Hello\nWorld');
+
+            assert.strictEqual(matches.length, 1);
+            assert.strictEqual(document.getText(matches[0].range), 'Hello\\nWorld');
+            assert.strictEqual(matches[0].text, 'Hello\nWorld');
+        });
+
+        test('should not match the escaped form of the text', () => {
+            assert.strictEqual(searchHandler.findInRenderedStrings(document, '\\n').length, 0);
+        });
+
+        test('should show the rendered line of each match as context', () => {
+            const matches = searchHandler.findInRenderedStrings(document, 'multiple');
+
+            assert.strictEqual(matches.length, 1);
+            assert.strictEqual(matches[0].context, 'with multiple lines');
+            assert.strictEqual(matches[0].contextOffset, 'with '.length);
+        });
+
+        test('should cover decoded quotes and unicode escapes with their escaped text', async () => {
+            const escaped = await vscode.workspace.openTextDocument({
+                content: '{"a": "say \\"caf\\u00e9\\""}',
+                language: 'json'
+            });
+
+            const matches = searchHandler.findInRenderedStrings(escaped, '"caf\u00e9"');
+
+            assert.strictEqual(matches.length, 1);
+            assert.strictEqual(escaped.getText(matches[0].range), '\\"caf\\u00e9\\"');
+        });
+
+        test('should honour case, whole word and regular expression options', () => {
+            assert.strictEqual(searchHandler.findInRenderedStrings(document, 'hello').length, 1);
+            assert.strictEqual(searchHandler.findInRenderedStrings(document, 'hello', { matchCase: true }).length, 0);
+            assert.strictEqual(searchHandler.findInRenderedStrings(document, 'Test').length, 2);
+            assert.strictEqual(searchHandler.findInRenderedStrings(document, 'Test', { matchWholeWord: true, matchCase: true }).length, 1);
+
+            const matches = searchHandler.findInRenderedStrings(document, '^World$', { useRegex: true });
+            assert.strictEqual(matches.length, 0, 'Anchors apply to the whole string');
+            assert.strictEqual(searchHandler.findInRenderedStrings(document, 'o\\nW', { useRegex: true }).length, 1);
+        });
+
+        test('should apply whole word matching to regular expressions', () => {
+            assert.strictEqual(searchHandler.findInRenderedStrings(document, 'est|wit', { useRegex: true }).length, 3);
+            assert.strictEqual(searchHandler.findInRenderedStrings(document, 'est|wit', { useRegex: true, matchWholeWord: true }).length, 0);
+            assert.strictEqual(searchHandler.findInRenderedStrings(document, 'test|with', { useRegex: true, matchWholeWord: true, matchCase: true }).length, 2);
+        });
+
+        test('should return no matches for an empty or invalid query', () => {
+            assert.deepStrictEqual(searchHandler.findInRenderedStrings(document, ''), []);
+            assert.deepStrictEqual(searchHandler.findInRenderedStrings(document, '(', { useRegex: true }), []);
+            assert.deepStrictEqual(searchHandler.findInRenderedStrings(document, 'x*', { useRegex: true }), []);
+        });
+    });
+
+    suite('Search Scopes', () => {
+        let scoped: vscode.TextDocument;
+
+        setup(async () => {
+            scoped = await vscode.workspace.openTextDocument({
+                content: '{\n  "error": "no error here",\n  "messages": {"error": "an error\\noccurred", "ok": "fine"},\n  "list": ["error"]\n}',
+                language: 'json'
+            });
+        });
+
+        test('should search the whole text without a scope', () => {
+            assert.strictEqual(searchHandler.findInDocument(scoped, 'error').length, 5);
+        });
+
+        test('should search only property names or only values', () => {
+            assert.deepStrictEqual(
+                searchHandler.findInDocument(scoped, 'error', { scope: 'keys' }).map(result => result.range.start.line),
+                [1, 2]
+            );
+            assert.strictEqual(searchHandler.findInDocument(scoped, 'error', { scope: 'values' }).length, 3);
+            assert.strictEqual(searchHandler.findInRenderedStrings(scoped, 'error', { scope: 'keys' }).length, 2);
+        });
+
+        test('should search only under a JSON Pointer or JSONPath prefix', () => {
+            const byPointer = searchHandler.findInDocument(scoped, 'error', { scope: 'values', path: '/messages' });
+            const byPath = searchHandler.findInRenderedStrings(scoped, 'error', { scope: 'values', path: '$.messages.*' });
+
+            assert.strictEqual(byPointer.length, 1);
+            assert.strictEqual(byPath.length, 1);
+            assert.ok(byPointer[0].range.isEqual(byPath[0].range));
+            assert.strictEqual(searchHandler.findInRenderedStrings(scoped, 'error', { path: '$.list[0]' }).length, 1);
+        });
+
+        test('should not match inside escape sequences of strings in scope', () => {
+            assert.ok(searchHandler.findInDocument(scoped, 'n').length > searchHandler.findInDocument(scoped, 'n', { scope: 'strings' }).length);
+            assert.strictEqual(searchHandler.findInDocument(scoped, '\\', { scope: 'strings' }).length, 0);
+        });
+
+        test('should find nothing for an invalid path', () => {
+            assert.deepStrictEqual(searchHandler.findInDocument(scoped, 'error', { path: '$[?(@)]' }), []);
+        });
+    });
+
+    suite('Rendered Replace', () => {
+        test('should escape line breaks and quotes of the replacement', async () => {
+            const plan = searchHandler.planRenderedReplacements(document, 'World', 'big "new"\nworld');
+
+            assert.strictEqual(plan.strings[0].replacements[0].newText, 'big \\"new\\"\\nworld');
+            await searchHandler.applyReplacementPlan(plan);
+
+            assert.ok(document.getText().includes('"message": "Hello\\nbig \\"new\\"\\nworld\\nTest"'));
+            assert.doesNotThrow(() => JSON.parse(document.getText()));
+        });
+
+        test('should preview the rendered content of every affected string without editing', () => {
+            const original = document.getText();
+            const plan = searchHandler.planRenderedReplacements(document, 'Hello\nWorld', 'Hi');
+
+            assert.strictEqual(plan.strings.length, 1);
+            assert.strictEqual(plan.strings[0].before, 'Hello\nWorld\nTest');
+            assert.strictEqual(plan.strings[0].after, 'Hi\nTest');
+            assert.strictEqual(document.getText(plan.strings[0].replacements[0].range), 'Hello\\nWorld');
+            assert.strictEqual(document.getText(), original);
+        });
+
+        test('should expand capture groups of regular expressions', async () => {
+            const plan = searchHandler.planRenderedReplacements(document, '(Hello)\\n(World)', '$2\\n$1', { useRegex: true });
+
+            assert.strictEqual(plan.strings[0].after, 'World\nHello\nTest');
+            await searchHandler.applyReplacementPlan(plan);
+
+            assert.ok(document.getText().includes('"message": "World\\nHello\\nTest"'));
+        });
+
+        test('should expand every replacement pattern from its own match', () => {
+            const plan = searchHandler.planRenderedReplacements(document, '(?<letter>[do])(?=\\n)', '[$<letter>$&$$$2]', { useRegex: true });
+
+            assert.strictEqual(plan.strings[0].after, 'Hell[oo$$2]\nWorl[dd$$2]\nTest');
+        });
+
+        test('should keep unicode escapes when the string used them', async () => {
+            const escaped = await vscode.workspace.openTextDocument({ content: '["caf\\u00e9"]', language: 'json' });
+
+            await searchHandler.applyReplacementPlan(searchHandler.planRenderedReplacements(escaped, 'caf\u00e9', 'th\u00e9'));
+
+            assert.strictEqual(escaped.getText(), '["th\\u00e9"]');
+        });
+
+        test('should report the matches it could not replace', async () => {
+            const emoji = await vscode.workspace.openTextDocument({ content: '["a\ud83d\ude00", "b\ud83d"]', language: 'json' });
+
+            const results = await searchHandler.applyReplacementPlan(searchHandler.planRenderedReplacements(emoji, '\ud83d', 'x'));
+
+            assert.strictEqual(results.length, 2);
+            assert.ok(results[0].error, 'Half of the emoji should not be replaced');
+            assert.strictEqual(results[1].error, undefined);
+            assert.strictEqual(emoji.getText(), '["a\ud83d\ude00", "bx"]');
+        });
+
+        test('should refuse a plan once the document changed', async () => {
+            const plan = searchHandler.planRenderedReplacements(document, 'Test', 'Done');
+            const edit = new vscode.WorkspaceEdit();
+            edit.insert(document.uri, new vscode.Position(0, 1), ' ');
+            await vscode.workspace.applyEdit(edit);
+
+            const results = await searchHandler.applyReplacementPlan(plan);
+
+            assert.ok(results.length > 0);
+            assert.ok(results.every(result => result.error && result.error.includes('changed')));
+            assert.ok(document.getText().includes('Test'));
+        });
+    });
 });
 
 suite('EditSynchronizer Clipboard Operations', () => {
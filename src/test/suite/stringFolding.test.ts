@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { DecorationManager } from '../../decorationManager';
+import { StringFoldingManager } from '../../stringFolding';
+
+suite('StringFolding Test Suite', () => {
+    const content = '{\n  "a": "one\\ntwo\\nthree",\n  "b": "single",\n  "c": "x\\ny"\n}';
+    let decorationManager: DecorationManager;
+    let folding: StringFoldingManager;
+    let document: vscode.TextDocument;
+
+    setup(async () => {
+        decorationManager = new DecorationManager();
+        folding = new StringFoldingManager(decorationManager);
+        document = await vscode.workspace.openTextDocument({ content, language: 'json' });
+    });
+
+    teardown(() => {
+        folding.dispose();
+        decorationManager.dispose();
+    });
+
+    test('should collapse a string to its first line with a summary', () => {
+        assert.ok(folding.toggleFold(document, document.positionAt(content.indexOf('two'))));
+
+        const folds = folding.getFolds(document);
+        assert.strictEqual(folds.length, 1);
+        assert.strictEqual(document.getText(folds[0].hiddenRange), '\\ntwo\\nthree');
+        assert.strictEqual(folds[0].hiddenLineCount, 2);
+        assert.strictEqual(folds[0].summary, '… 2 more lines');
+        assert.strictEqual(document.getText(folds[0].range), '"one\\ntwo\\nthree"');
+    });
+
+    test('should expand a collapsed string when toggled again', () => {
+        const position = document.positionAt(content.indexOf('one'));
+
+        folding.toggleFold(document, position);
+        assert.ok(folding.isFolded(document, position));
+        folding.toggleFold(document, position);
+
+        assert.ok(!folding.isFolded(document, position));
+        assert.deepStrictEqual(folding.getFolds(document), []);
+    });
+
+    test('should only fold strings with line breaks', () => {
+        assert.ok(!folding.toggleFold(document, document.positionAt(content.indexOf('single'))));
+        assert.ok(!folding.toggleFold(document, new vscode.Position(0, 0)));
+    });
+
+    test('should fold and unfold every multiline string', () => {
+        assert.strictEqual(folding.foldAll(document), 2);
+        assert.deepStrictEqual(folding.getFolds(document).map(fold => fold.summary), ['… 2 more lines', '… 1 more line']);
+
+        folding.unfoldAll(document);
+        assert.deepStrictEqual(folding.getFolds(document), []);
+    });
+
+    test('should follow edits before a collapsed string', async () => {
+        folding.foldAll(document);
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.insert(document.uri, new vscode.Position(1, 2), '"new": 1,\n  ');
+        await vscode.workspace.applyEdit(edit);
+
+        const folds = folding.getFolds(document);
+        assert.strictEqual(folds.length, 2);
+        assert.strictEqual(document.getText(folds[0].hiddenRange), '\\ntwo\\nthree');
+        assert.strictEqual(folds[0].range.start.line, 2);
+    });
+
+    test('should expand a collapsed string when it is edited', async () => {
+        folding.foldAll(document);
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.insert(document.uri, document.positionAt(content.indexOf('three')), 'and ');
+        await vscode.workspace.applyEdit(edit);
+
+        assert.deepStrictEqual(folding.getFolds(document).map(fold => document.getText(fold.range)), ['"x\\ny"']);
+    });
+});
@@ -1,6 +1,7 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import { DecorationManager } from '../../decorationManager';
+import { setFormattingEnabled } from '../../extension';
 
 suite('Toggle Command Test Suite', () => {
     let decorationManager: DecorationManager;
@@ -135,4 +136,26 @@ suite('Toggle Command Test Suite', () => {
         // Test that the decoration manager state is consistent
         assert.strictEqual(typeof decorationManager.getDecorationState(), 'object', 'Should return decoration state object');
     });
+
+    test('Setting formatting for the file scope should warn without an active JSON file', async () => {
+        await vscode.extensions.getExtension('your-publisher-name.json-newline-formatter')?.activate();
+        const document = await vscode.workspace.openTextDocument({ content: 'plain text', language: 'plaintext' });
+        await vscode.window.showTextDocument(document);
+
+        const warnings: string[] = [];
+        const originalShowWarningMessage = vscode.window.showWarningMessage;
+        (vscode.window as { showWarningMessage: unknown }).showWarningMessage = async (message: string) => {
+            warnings.push(message);
+            return undefined;
+        };
+
+        try {
+            await setFormattingEnabled(false, 'file');
+
+            assert.ok(warnings.some(message => message.includes('Open a JSON file')), 'Should ask for a JSON file');
+        } finally {
+            (vscode.window as { showWarningMessage: unknown }).showWarningMessage = originalShowWarningMessage;
+            await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+        }
+    });
 });
\ No newline at end of file
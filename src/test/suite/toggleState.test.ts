@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ToggleStateStore, isToggleScope } from '../../toggleState';
+import { DecorationManager } from '../../decorationManager';
+
+/**
+ * In-memory stand-in for the extension's workspace and global state
+ */
+class MemoryMemento implements vscode.Memento {
+    private values = new Map<string, unknown>();
+
+    public keys(): readonly string[] {
+        return [...this.values.keys()];
+    }
+
+    public get<T>(key: string, defaultValue?: T): T | undefined {
+        return this.values.has(key) ? this.values.get(key) as T : defaultValue;
+    }
+
+    public async update(key: string, value: unknown): Promise<void> {
+        if (value === undefined) {
+            this.values.delete(key);
+        } else {
+            this.values.set(key, value);
+        }
+    }
+}
+
+suite('ToggleStateStore Test Suite', () => {
+    let workspaceState: MemoryMemento;
+    let globalState: MemoryMemento;
+    let store: ToggleStateStore;
+    let document: vscode.TextDocument;
+    let otherDocument: vscode.TextDocument;
+
+    suiteSetup(async () => {
+        document = await vscode.workspace.openTextDocument({ content: '{"a": "b\\nc"}', language: 'json' });
+        otherDocument = await vscode.workspace.openTextDocument({ content: '{"d": "e\\nf"}', language: 'json' });
+    });
+
+    setup(() => {
+        workspaceState = new MemoryMemento();
+        globalState = new MemoryMemento();
+        store = new ToggleStateStore(workspaceState, globalState);
+    });
+
+    test('should only take scope names as the scope argument of the toggle command', () => {
+        // The editor context menu passes the URI of the document instead
+        assert.strictEqual(isToggleScope(document.uri), false);
+        assert.strictEqual(isToggleScope(document.uri.toString()), false);
+        assert.strictEqual(isToggleScope(undefined), false);
+        assert.strictEqual(isToggleScope('file'), true);
+        assert.strictEqual(isToggleScope('workspace'), true);
+        assert.strictEqual(isToggleScope('global'), true);
+    });
+
+    test('should fall back to the enableOnStartup setting', () => {
+        const state = store.getEffectiveState(document);
+
+        assert.strictEqual(state.source, 'setting');
+        assert.strictEqual(state.enabled, true);
+    });
+
+    test('should let the most specific scope win', async () => {
+        await store.setState('global', false);
+        assert.deepStrictEqual(store.getEffectiveState(document), { enabled: false, source: 'global' });
+
+        await store.setState('workspace', true);
+        assert.deepStrictEqual(store.getEffectiveState(document), { enabled: true, source: 'workspace' });
+
+        await store.setState('file', false, document);
+        assert.deepStrictEqual(store.getEffectiveState(document), { enabled: false, source: 'file' });
+        assert.deepStrictEqual(store.getEffectiveState(otherDocument), { enabled: true, source: 'workspace' });
+    });
+
+    test('should fall back to the next scope when a state is cleared', async () => {
+        await store.setState('global', false);
+        await store.setState('file', true, document);
+
+        await store.clearState('file', document);
+
+        assert.deepStrictEqual(store.getEffectiveState(document), { enabled: false, source: 'global' });
+    });
+
+    test('should persist states across store instances', async () => {
+        await store.setState('file', false, document);
+        await store.setState('global', false);
+
+        const reloaded = new ToggleStateStore(workspaceState, globalState);
+
+        assert.deepStrictEqual(reloaded.getEffectiveState(document), { enabled: false, source: 'file' });
+        assert.strictEqual(globalState.get('json-newline-formatter.enabled'), false);
+    });
+
+    test('should require a document for file states', async () => {
+        await assert.rejects(() => store.setState('file', false));
+    });
+
+    test('should only decorate documents that are enabled', async () => {
+        await store.setState('file', false, document);
+        const decorationManager = new DecorationManager(doc => store.getEffectiveState(doc).enabled);
+
+        await vscode.window.showTextDocument(document);
+        decorationManager.applyDecorations(document);
+        assert.strictEqual(decorationManager.getActiveDecorationCount(document), 0);
+
+        // Turning the file back on takes effect on the next refresh
+        await store.setState('file', true, document);
+        decorationManager.refresh();
+        assert.strictEqual(decorationManager.getActiveDecorationCount(document), 1);
+
+        decorationManager.dispose();
+        await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+    });
+});
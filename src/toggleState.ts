@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+
+/**
+ * Scopes the formatting toggle can be stored at, from the most to the least specific
+ */
+export type ToggleScope = 'file' | 'workspace' | 'global';
+
+/**
+ * Check whether a command argument names a toggle scope
+ * Menus pass the URI of the document to commands, which must not be mistaken for a scope
+ * @param value The argument
+ * @returns True if the value is a toggle scope
+ */
+export function isToggleScope(value: unknown): value is ToggleScope {
+    return value === 'file' || value === 'workspace' || value === 'global';
+}
+
+/**
+ * Where the effective toggle state of a document comes from
+ * `setting` means no scope has been toggled and `enableOnStartup` applies
+ */
+export type ToggleStateSource = ToggleScope | 'setting';
+
+/**
+ * Interface for the resolved toggle state of a document
+ */
+export interface EffectiveToggleState {
+    enabled: boolean;
+    source: ToggleStateSource;
+}
+
+/**
+ * Storage keys of the persisted toggle states
+ */
+const FILE_STATES_KEY = 'json-newline-formatter.fileStates';
+const ENABLED_KEY = 'json-newline-formatter.enabled';
+
+/**
+ * Persists the formatting toggle per file, per workspace and globally
+ * File and workspace states live in the workspace state, the global state in the global state,
+ * so every scope survives reloads; the most specific scope that has been toggled wins
+ */
+export class ToggleStateStore {
+    constructor(
+        private workspaceState: vscode.Memento,
+        private globalState: vscode.Memento
+    ) {}
+
+    /**
+     * Resolve whether formatting is enabled for a document and which scope decided it
+     * @param document The document to check, or undefined for the state outside any file
+     * @returns The effective state and its source
+     */
+    public getEffectiveState(document?: vscode.TextDocument): EffectiveToggleState {
+        if (document) {
+            const fileState = this.getFileStates()[document.uri.toString()];
+            if (fileState !== undefined) {
+                return { enabled: fileState, source: 'file' };
+            }
+        }
+
+        const workspaceState = this.workspaceState.get<boolean>(ENABLED_KEY);
+        if (workspaceState !== undefined) {
+            return { enabled: workspaceState, source: 'workspace' };
+        }
+
+        const globalState = this.globalState.get<boolean>(ENABLED_KEY);
+        if (globalState !== undefined) {
+            return { enabled: globalState, source: 'global' };
+        }
+
+        const enableOnStartup = vscode.workspace.getConfiguration('json-newline-formatter').get<boolean>('enableOnStartup', true);
+        return { enabled: enableOnStartup, source: 'setting' };
+    }
+
+    /**
+     * Store the toggle state at a scope
+     * @param scope The scope to store the state at
+     * @param enabled Whether formatting is enabled
+     * @param document The document a file scoped state applies to
+     */
+    public async setState(scope: ToggleScope, enabled: boolean, document?: vscode.TextDocument): Promise<void> {
+        await this.updateState(scope, enabled, document);
+    }
+
+    /**
+     * Remove the toggle state stored at a scope, so the next less specific scope applies
+     * @param scope The scope to clear
+     * @param document The document a file scoped state applies to
+     */
+    public async clearState(scope: ToggleScope, document?: vscode.TextDocument): Promise<void> {
+        await this.updateState(scope, undefined, document);
+    }
+
+    /**
+     * Write or remove the state of a scope
+     * @param scope The scope to update
+     * @param enabled The new state, or undefined to remove it
+     * @param document The document a file scoped state applies to
+     */
+    private async updateState(scope: ToggleScope, enabled: boolean | undefined, document?: vscode.TextDocument): Promise<void> {
+        switch (scope) {
+            case 'file': {
+                if (!document) {
+                    throw new Error('ToggleStateStore: A document is required to store a file toggle state');
+                }
+                const fileStates = { ...this.getFileStates() };
+                if (enabled === undefined) {
+                    delete fileStates[document.uri.toString()];
+                } else {
+                    fileStates[document.uri.toString()] = enabled;
+                }
+                await this.workspaceState.update(FILE_STATES_KEY, fileStates);
+                break;
+            }
+            case 'workspace':
+                await this.workspaceState.update(ENABLED_KEY, enabled);
+                break;
+            case 'global':
+                await this.globalState.update(ENABLED_KEY, enabled);
+                break;
+        }
+    }
+
+    /**
+     * Get the toggle states stored for individual files
+     * @returns The states keyed by document URI
+     */
+    private getFileStates(): Record<string, boolean> {
+        return this.workspaceState.get<Record<string, boolean>>(FILE_STATES_KEY, {});
+    }
+}